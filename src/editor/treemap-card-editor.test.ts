@@ -674,6 +674,69 @@ describe('TreemapCardEditor', () => {
       const newConfig = await configChangedPromise;
       expect(newConfig.gap).toBe(8);
     });
+
+    it('updates animation duration on input', async () => {
+      editor.setConfig({
+        type: 'custom:treemap-card',
+        entities: ['sensor.*'],
+      });
+      await editor.updateComplete;
+
+      const configChangedPromise = waitForConfigChange(editor);
+
+      const inputs = editor.shadowRoot?.querySelectorAll(
+        '[data-testid="layout-section"] ha-textfield'
+      );
+      const durationInput = inputs?.[2];
+      if (isHaTextfield(durationInput)) {
+        durationInput.value = '500';
+        durationInput.dispatchEvent(new Event('input', { bubbles: true }));
+      }
+
+      const newConfig = await configChangedPromise;
+      expect(newConfig.animation?.duration).toBe(500);
+    });
+
+    it('updates layout.algorithm on dropdown change', async () => {
+      editor.setConfig({
+        type: 'custom:treemap-card',
+        entities: ['sensor.*'],
+      });
+      await editor.updateComplete;
+
+      const configChangedPromise = waitForConfigChange(editor);
+
+      const select = editor.shadowRoot?.querySelector('[data-testid="layout-section"] ha-select');
+      if (isHaSelect(select)) {
+        expect(select.value).toBe('squarify');
+        select.value = 'pivot';
+        select.dispatchEvent(new Event('selected', { bubbles: true }));
+      }
+
+      const newConfig = await configChangedPromise;
+      expect(newConfig.layout?.algorithm).toBe('pivot');
+    });
+
+    it('updates layout.stable on checkbox change', async () => {
+      editor.setConfig({
+        type: 'custom:treemap-card',
+        entities: ['sensor.*'],
+      });
+      await editor.updateComplete;
+
+      const configChangedPromise = waitForConfigChange(editor);
+
+      const checkbox = editor.shadowRoot?.querySelector(
+        '[data-testid="layout-section"] .checkbox-field input[type="checkbox"]'
+      );
+      if (checkbox instanceof HTMLInputElement) {
+        checkbox.checked = true;
+        checkbox.dispatchEvent(new Event('change'));
+      }
+
+      const newConfig = await configChangedPromise;
+      expect(newConfig.layout?.stable).toBe(true);
+    });
   });
 
   describe('data section', () => {
@@ -787,6 +850,30 @@ describe('TreemapCardEditor', () => {
       const newConfig = await configChangedPromise;
       expect(newConfig.filter?.unavailable).toBe(true);
     });
+
+    it('updates others.show on checkbox change', async () => {
+      editor.setConfig({
+        type: 'custom:treemap-card',
+        entities: ['sensor.*'],
+        limit: 10,
+      });
+      await editor.updateComplete;
+
+      const configChangedPromise = waitForConfigChange(editor);
+
+      const checkboxes = editor.shadowRoot?.querySelectorAll(
+        '[data-testid="data-section"] .checkbox-field input[type="checkbox"]'
+      );
+      const othersCheckbox = checkboxes?.[1];
+      if (othersCheckbox instanceof HTMLInputElement) {
+        expect(othersCheckbox.checked).toBe(false);
+        othersCheckbox.checked = true;
+        othersCheckbox.dispatchEvent(new Event('change', { bubbles: true }));
+      }
+
+      const newConfig = await configChangedPromise;
+      expect(newConfig.others?.show).toBe(true);
+    });
   });
 
   describe('colors section', () => {
@@ -857,6 +944,85 @@ describe('TreemapCardEditor', () => {
       expect(newConfig.color?.target).toBe('foreground');
     });
 
+    it('updates color.mode on dropdown change', async () => {
+      editor.setConfig({
+        type: 'custom:treemap-card',
+        entities: ['sensor.*'],
+      });
+      await editor.updateComplete;
+
+      const configChangedPromise = waitForConfigChange(editor);
+
+      const selects = editor.shadowRoot?.querySelectorAll(
+        '[data-testid="colors-section"] ha-select'
+      );
+      const modeSelect = selects?.[1];
+      expect(isHaSelect(modeSelect) && modeSelect.value).toBe('gradient');
+      if (isHaSelect(modeSelect)) {
+        modeSelect.value = 'categorical';
+        modeSelect.dispatchEvent(new Event('selected', { bubbles: true }));
+      }
+
+      const newConfig = await configChangedPromise;
+      expect(newConfig.color?.mode).toBe('categorical');
+    });
+
+    it('updates color.palette and color.interpolation on dropdown change', async () => {
+      editor.setConfig({
+        type: 'custom:treemap-card',
+        entities: ['sensor.*'],
+      });
+      await editor.updateComplete;
+
+      const selects = editor.shadowRoot?.querySelectorAll(
+        '[data-testid="colors-section"] ha-select'
+      );
+      const paletteSelect = selects?.[2];
+      const interpolationSelect = selects?.[3];
+
+      let configChangedPromise = waitForConfigChange(editor);
+      if (isHaSelect(paletteSelect)) {
+        paletteSelect.value = 'viridis';
+        paletteSelect.dispatchEvent(new Event('selected', { bubbles: true }));
+      }
+      expect((await configChangedPromise).color?.palette).toBe('viridis');
+
+      configChangedPromise = waitForConfigChange(editor);
+      if (isHaSelect(interpolationSelect)) {
+        interpolationSelect.value = 'oklch';
+        interpolationSelect.dispatchEvent(new Event('selected', { bubbles: true }));
+      }
+      expect((await configChangedPromise).color?.interpolation).toBe('oklch');
+    });
+
+    it('updates legend position on dropdown change', async () => {
+      editor.setConfig({
+        type: 'custom:treemap-card',
+        entities: ['sensor.*'],
+      });
+      await editor.updateComplete;
+
+      const selects = editor.shadowRoot?.querySelectorAll(
+        '[data-testid="colors-section"] ha-select'
+      );
+      const legendSelect = selects?.[4];
+      expect(isHaSelect(legendSelect) && legendSelect.value).toBe('');
+
+      let configChangedPromise = waitForConfigChange(editor);
+      if (isHaSelect(legendSelect)) {
+        legendSelect.value = 'right';
+        legendSelect.dispatchEvent(new Event('selected', { bubbles: true }));
+      }
+      expect((await configChangedPromise).legend?.position).toBe('right');
+
+      configChangedPromise = waitForConfigChange(editor);
+      if (isHaSelect(legendSelect)) {
+        legendSelect.value = '';
+        legendSelect.dispatchEvent(new Event('selected', { bubbles: true }));
+      }
+      expect((await configChangedPromise).legend).toBeUndefined();
+    });
+
     it('displays color inputs with default values', async () => {
       editor.setConfig({
         type: 'custom:treemap-card',
@@ -1114,6 +1280,29 @@ describe('TreemapCardEditor', () => {
       expect(newConfig.hold_action?.action).toBe('navigate');
     });
 
+    it('updates double_tap_action via ha-form value-changed', async () => {
+      editor.setConfig({
+        type: 'custom:treemap-card',
+        entities: ['sensor.*'],
+      });
+      await editor.updateComplete;
+
+      const configChangedPromise = waitForConfigChange(editor);
+
+      const form = getElement(editor, '[data-testid="actions-form"]');
+      form?.dispatchEvent(
+        new CustomEvent('value-changed', {
+          detail: {
+            value: { double_tap_action: { action: 'toggle' } },
+          },
+          bubbles: true,
+        })
+      );
+
+      const newConfig = await configChangedPromise;
+      expect(newConfig.double_tap_action?.action).toBe('toggle');
+    });
+
     it('merges action changes without losing other config fields', async () => {
       editor.setConfig({
         type: 'custom:treemap-card',
@@ -146,6 +146,20 @@ export class TreemapCardEditor extends LitElement implements LovelaceCardEditor
     this._fireConfigChanged();
   }
 
+  /**
+   * Handler for the legend select (empty value removes the legend block)
+   */
+  private _handleLegendChange(e: Event): void {
+    if (!this._config) return;
+    const value = getEventValue(e);
+    const legend =
+      value === 'top' || value === 'bottom' || value === 'left' || value === 'right'
+        ? { ...this._config.legend, show: undefined, position: value }
+        : undefined;
+    this._config = set({ ...this._config }, 'legend', legend);
+    this._fireConfigChanged();
+  }
+
   /**
    * Handler for exclude textarea (splits lines into array, removes if empty)
    */
@@ -163,19 +177,23 @@ export class TreemapCardEditor extends LitElement implements LovelaceCardEditor
   private readonly _actionsSchema = [
     { name: 'tap_action', selector: { ui_action: { default_action: 'more-info' } } },
     { name: 'hold_action', selector: { ui_action: { default_action: 'none' } } },
+    { name: 'double_tap_action', selector: { ui_action: { default_action: 'none' } } },
   ];
 
   private _handleActionsChanged(e: CustomEvent): void {
     if (!this._config) return;
-    // ha-form fires value-changed with detail.value = { tap_action, hold_action }
+    // ha-form fires value-changed with detail.value = { tap_action, hold_action, double_tap_action }
     // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access
     const tap: TreemapActionConfig | undefined = e.detail?.value?.tap_action;
     // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access
     const hold: TreemapActionConfig | undefined = e.detail?.value?.hold_action;
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access
+    const doubleTap: TreemapActionConfig | undefined = e.detail?.value?.double_tap_action;
     this._config = {
       ...this._config,
       ...(tap !== undefined && { tap_action: tap }),
       ...(hold !== undefined && { hold_action: hold }),
+      ...(doubleTap !== undefined && { double_tap_action: doubleTap }),
     };
     this._fireConfigChanged();
   }
@@ -222,8 +240,13 @@ export class TreemapCardEditor extends LitElement implements LovelaceCardEditor
       return html`<div class="editor">${this._t('editor.no_config')}</div>`;
     }
 
-    // JSON mode (entity attribute) - show message to use YAML
-    if (this._config.entity) {
+    // JSON and energy modes (entity attribute, sources, template, energy) - show message to use YAML
+    if (
+      this._config.entity ||
+      this._config.sources ||
+      this._config.data_template ||
+      this._config.energy
+    ) {
       return html`
         <div class="editor">
           <ha-alert alert-type="info">${this._t('editor.yaml_only')}</ha-alert>
@@ -435,6 +458,61 @@ export class TreemapCardEditor extends LitElement implements LovelaceCardEditor
                 >${this._t('editor.colors.target_foreground')}</ha-list-item
               >
             </ha-select>
+            <ha-select
+              label=${this._t('editor.colors.mode')}
+              .value=${this._config.color?.mode ?? 'gradient'}
+              @selected=${(e: Event) => this._handleTextChange('color.mode', e)}
+              @closed=${(e: Event) => e.stopPropagation()}
+            >
+              <ha-list-item value="gradient"
+                >${this._t('editor.colors.mode_gradient')}</ha-list-item
+              >
+              <ha-list-item value="bands">${this._t('editor.colors.mode_bands')}</ha-list-item>
+              <ha-list-item value="categorical"
+                >${this._t('editor.colors.mode_categorical')}</ha-list-item
+              >
+            </ha-select>
+            <div class="field-row">
+              <ha-select
+                label=${this._t('editor.colors.palette')}
+                .value=${this._config.color?.palette ?? ''}
+                @selected=${(e: Event) => this._handleTextChange('color.palette', e)}
+                @closed=${(e: Event) => e.stopPropagation()}
+              >
+                <ha-list-item value="">${this._t('editor.colors.palette_none')}</ha-list-item>
+                <ha-list-item value="viridis">Viridis</ha-list-item>
+                <ha-list-item value="cividis">Cividis</ha-list-item>
+                <ha-list-item value="red_blue"
+                  >${this._t('editor.colors.palette_red_blue')}</ha-list-item
+                >
+                <ha-list-item value="okabe_ito">Okabe-Ito</ha-list-item>
+              </ha-select>
+              <ha-select
+                label=${this._t('editor.colors.interpolation')}
+                .value=${this._config.color?.interpolation ?? 'rgb'}
+                @selected=${(e: Event) => this._handleTextChange('color.interpolation', e)}
+                @closed=${(e: Event) => e.stopPropagation()}
+              >
+                <ha-list-item value="rgb">RGB</ha-list-item>
+                <ha-list-item value="hsl">HSL</ha-list-item>
+                <ha-list-item value="lab">Lab</ha-list-item>
+                <ha-list-item value="oklch">OKLCH</ha-list-item>
+              </ha-select>
+            </div>
+            <ha-select
+              label=${this._t('editor.colors.legend')}
+              .value=${this._config.legend && this._config.legend.show !== false
+                ? (this._config.legend.position ?? 'bottom')
+                : ''}
+              @selected=${this._handleLegendChange}
+              @closed=${(e: Event) => e.stopPropagation()}
+            >
+              <ha-list-item value="">${this._t('editor.colors.legend_none')}</ha-list-item>
+              <ha-list-item value="top">${this._t('editor.colors.legend_top')}</ha-list-item>
+              <ha-list-item value="bottom">${this._t('editor.colors.legend_bottom')}</ha-list-item>
+              <ha-list-item value="left">${this._t('editor.colors.legend_left')}</ha-list-item>
+              <ha-list-item value="right">${this._t('editor.colors.legend_right')}</ha-list-item>
+            </ha-select>
             <span class="field-label">${this._t('editor.colors.gradient')}</span>
             <div class="color-scale-row">
               <label class="color-field">
@@ -623,6 +701,14 @@ export class TreemapCardEditor extends LitElement implements LovelaceCardEditor
               />
               <span>${this._t('editor.data.unavailable')}</span>
             </label>
+            <label class="checkbox-field">
+              <input
+                type="checkbox"
+                .checked=${!!this._config.others && this._config.others.show !== false}
+                @change=${(e: Event) => this._handleBoolChange('others.show', e)}
+              />
+              <span>${this._t('editor.data.others')}</span>
+            </label>
             ${this._renderDocsLink('order--filter')}
           </div>
         </ha-expansion-panel>
@@ -631,6 +717,25 @@ export class TreemapCardEditor extends LitElement implements LovelaceCardEditor
         <ha-expansion-panel outlined data-testid="layout-section">
           <span slot="header">${this._t('editor.layout.title')}</span>
           <div class="content">
+            <ha-select
+              label=${this._t('editor.layout.algorithm')}
+              .value=${this._config.layout?.algorithm ?? 'squarify'}
+              @selected=${(e: Event) => this._handleTextChange('layout.algorithm', e)}
+              @closed=${(e: Event) => e.stopPropagation()}
+            >
+              <ha-list-item value="squarify">${this._t('editor.layout.squarify')}</ha-list-item>
+              <ha-list-item value="strip">${this._t('editor.layout.strip')}</ha-list-item>
+              <ha-list-item value="slice_dice">${this._t('editor.layout.slice_dice')}</ha-list-item>
+              <ha-list-item value="pivot">${this._t('editor.layout.pivot')}</ha-list-item>
+            </ha-select>
+            <label class="checkbox-field">
+              <input
+                type="checkbox"
+                .checked=${this._config.layout?.stable ?? false}
+                @change=${(e: Event) => this._handleBoolChange('layout.stable', e)}
+              />
+              <span>${this._t('editor.layout.stable')}</span>
+            </label>
             <div class="field-row">
               <ha-textfield
                 type="number"
@@ -647,6 +752,13 @@ export class TreemapCardEditor extends LitElement implements LovelaceCardEditor
                 placeholder="6"
               ></ha-textfield>
             </div>
+            <ha-textfield
+              type="number"
+              label=${this._t('editor.layout.animation_duration')}
+              .value=${this._config.animation?.duration ?? ''}
+              @input=${(e: Event) => this._handleNumberChange('animation.duration', e)}
+              placeholder="300"
+            ></ha-textfield>
             ${this._renderDocsLink('layout')}
           </div>
         </ha-expansion-panel>
@@ -660,6 +772,7 @@ export class TreemapCardEditor extends LitElement implements LovelaceCardEditor
               .data=${{
                 tap_action: this._config.tap_action,
                 hold_action: this._config.hold_action,
+                double_tap_action: this._config.double_tap_action,
               }}
               .schema=${this._actionsSchema}
               .computeLabel=${(s: { name: string }) => this._t(`editor.actions.${s.name}`)}
@@ -40,14 +40,289 @@ export const styles = css`
     padding: 8px;
     overflow: hidden;
     cursor: pointer;
-    transition: filter 0.2s ease;
+    transition:
+      left var(--treemap-animation-duration) ease,
+      top var(--treemap-animation-duration) ease,
+      width var(--treemap-animation-duration) ease,
+      height var(--treemap-animation-duration) ease,
+      background-color var(--treemap-animation-duration) ease,
+      filter 0.2s ease;
+    animation: tile-enter var(--treemap-animation-duration) ease-out;
     border-radius: 8px;
   }
 
+  /* Tiles that left the layout fade out before they are removed */
+  .treemap-item.exiting {
+    pointer-events: none;
+    animation: tile-exit var(--treemap-animation-duration) ease-in forwards;
+  }
+
+  @keyframes tile-enter {
+    from {
+      opacity: 0;
+      transform: scale(0.85);
+    }
+  }
+
+  @keyframes tile-exit {
+    to {
+      opacity: 0;
+      transform: scale(0.85);
+    }
+  }
+
+  .treemap-container.no-animation .treemap-item,
+  .treemap-container.no-animation .treemap-group {
+    transition: filter 0.2s ease;
+    animation: none;
+  }
+
   .treemap-item:hover {
     filter: brightness(1.1);
   }
 
+  /* Group frames (group_by / JSON children) */
+  .treemap-group {
+    position: absolute;
+    box-sizing: border-box;
+    border-radius: 10px;
+    background-color: var(--secondary-background-color, rgba(127, 127, 127, 0.12));
+    overflow: hidden;
+    transition:
+      left var(--treemap-animation-duration) ease,
+      top var(--treemap-animation-duration) ease,
+      width var(--treemap-animation-duration) ease,
+      height var(--treemap-animation-duration) ease;
+  }
+
+  .treemap-group.depth-1 {
+    background-color: rgba(127, 127, 127, 0.1);
+  }
+
+  .treemap-group-header {
+    display: flex;
+    justify-content: space-between;
+    gap: 8px;
+    height: 22px;
+    padding: 0 8px;
+    font-size: 12px;
+    font-weight: 600;
+    line-height: 22px;
+    color: var(--primary-text-color);
+    white-space: nowrap;
+  }
+
+  .treemap-group-label {
+    overflow: hidden;
+    text-overflow: ellipsis;
+  }
+
+  .treemap-group-value {
+    color: var(--secondary-text-color);
+    font-weight: 500;
+  }
+
+  .treemap-group-header {
+    cursor: pointer;
+  }
+
+  /* Drill-down zoom */
+  .treemap-breadcrumb {
+    display: flex;
+    align-items: center;
+    gap: 4px;
+    margin-bottom: 8px;
+    font-size: 14px;
+    color: var(--secondary-text-color);
+    overflow: hidden;
+    white-space: nowrap;
+  }
+
+  .treemap-crumb {
+    display: inline-flex;
+    align-items: center;
+    padding: 2px 6px;
+    border: none;
+    border-radius: 6px;
+    background: none;
+    color: var(--primary-color);
+    font: inherit;
+    cursor: pointer;
+    --mdc-icon-size: 18px;
+  }
+
+  .treemap-crumb:hover {
+    background-color: rgba(127, 127, 127, 0.15);
+  }
+
+  .treemap-crumb.current {
+    color: var(--primary-text-color);
+    font-weight: 500;
+    cursor: default;
+  }
+
+  /* Color legend (legend block) */
+  .treemap-body {
+    display: flex;
+    flex-direction: column;
+    gap: 8px;
+  }
+
+  .treemap-body.left,
+  .treemap-body.right {
+    flex-direction: row;
+  }
+
+  .treemap-body > .treemap-container {
+    flex: 1;
+    min-width: 0;
+  }
+
+  .treemap-legend {
+    display: flex;
+    flex-direction: column;
+    gap: 6px;
+    font-size: 12px;
+    color: var(--secondary-text-color);
+  }
+
+  .treemap-legend.left,
+  .treemap-legend.right {
+    flex-direction: row;
+  }
+
+  .treemap-legend-swatches {
+    display: flex;
+    flex-wrap: wrap;
+    gap: 4px 12px;
+  }
+
+  .treemap-legend.left .treemap-legend-swatches,
+  .treemap-legend.right .treemap-legend-swatches {
+    flex-direction: column;
+    flex-wrap: nowrap;
+  }
+
+  .treemap-legend-swatch {
+    display: inline-flex;
+    align-items: center;
+    gap: 6px;
+  }
+
+  .treemap-legend-color {
+    width: 12px;
+    height: 12px;
+    border-radius: 3px;
+  }
+
+  /* Foreground coloring: the names carry the colors instead of boxes */
+  .treemap-legend.foreground .treemap-legend-color {
+    display: none;
+  }
+
+  .treemap-legend-scale {
+    flex: 1;
+  }
+
+  .treemap-legend-bar {
+    height: 10px;
+    border-radius: 5px;
+  }
+
+  .treemap-legend-ticks {
+    position: relative;
+    height: 16px;
+    margin-top: 4px;
+  }
+
+  .treemap-legend-tick {
+    position: absolute;
+    transform: translateX(-50%);
+    white-space: nowrap;
+  }
+
+  .treemap-legend-tick:first-child {
+    transform: none;
+  }
+
+  .treemap-legend-tick:last-child {
+    transform: translateX(-100%);
+  }
+
+  .treemap-legend.left .treemap-legend-scale,
+  .treemap-legend.right .treemap-legend-scale {
+    display: flex;
+    gap: 6px;
+  }
+
+  .treemap-legend.left .treemap-legend-bar,
+  .treemap-legend.right .treemap-legend-bar {
+    width: 10px;
+    height: auto;
+  }
+
+  .treemap-legend.left .treemap-legend-ticks,
+  .treemap-legend.right .treemap-legend-ticks {
+    height: auto;
+    min-width: 48px;
+    margin-top: 0;
+  }
+
+  .treemap-legend.left .treemap-legend-tick,
+  .treemap-legend.right .treemap-legend-tick {
+    transform: translateY(50%);
+  }
+
+  .treemap-legend.left .treemap-legend-tick:first-child,
+  .treemap-legend.right .treemap-legend-tick:first-child {
+    transform: none;
+  }
+
+  .treemap-legend.left .treemap-legend-tick:last-child,
+  .treemap-legend.right .treemap-legend-tick:last-child {
+    transform: translateY(100%);
+  }
+
+  @keyframes zoom-in {
+    from {
+      opacity: 0;
+      transform: scale(0.92);
+    }
+    to {
+      opacity: 1;
+      transform: scale(1);
+    }
+  }
+
+  @keyframes zoom-out {
+    from {
+      opacity: 0;
+      transform: scale(1.08);
+    }
+    to {
+      opacity: 1;
+      transform: scale(1);
+    }
+  }
+
+  .treemap-container.zoom-in {
+    animation: zoom-in 0.25s ease-out;
+  }
+
+  .treemap-container.zoom-out {
+    animation: zoom-out 0.25s ease-out;
+  }
+
+  @media (prefers-reduced-motion: reduce) {
+    .treemap-container.zoom-in,
+    .treemap-container.zoom-out,
+    .treemap-item,
+    .treemap-group {
+      animation: none;
+      transition: none;
+    }
+  }
+
   .treemap-icon {
     --mdc-icon-size: 28px;
     opacity: 0.85;
@@ -87,6 +362,104 @@ export const styles = css`
     opacity: 0.85;
   }
 
+  .treemap-item.adjusting {
+    box-shadow: inset 0 0 0 2px rgba(255, 255, 255, 0.8);
+    touch-action: none;
+  }
+
+  .treemap-item.adjustable-vertical {
+    touch-action: none;
+  }
+
+  .treemap-item.adjustable-horizontal {
+    touch-action: pan-y;
+  }
+
+  .treemap-adjust-bar {
+    position: absolute;
+    left: 0;
+    bottom: 0;
+    background: rgba(255, 255, 255, 0.3);
+    pointer-events: none;
+  }
+
+  .treemap-adjust-bar.vertical {
+    right: 0;
+  }
+
+  .treemap-adjust-bar.horizontal {
+    top: 0;
+  }
+
+  /* Text stays above the adjust bar */
+  .treemap-item.adjusting .treemap-icon,
+  .treemap-item.adjusting .treemap-label,
+  .treemap-item.adjusting .treemap-value {
+    position: relative;
+  }
+
+  .treemap-item.artwork {
+    background-size: cover;
+    background-position: center;
+  }
+
+  /* Multi-select: toolbar in place of the header, selected tiles outlined */
+  .treemap-selection {
+    display: flex;
+    align-items: center;
+    flex-wrap: wrap;
+    gap: 4px;
+    padding: 8px 12px 0px;
+    font-size: 14px;
+    color: var(--primary-text-color);
+    --mdc-icon-size: 18px;
+  }
+
+  .treemap-selection-count {
+    flex: 1;
+    font-weight: 500;
+  }
+
+  .treemap-selection button {
+    display: inline-flex;
+    align-items: center;
+    gap: 4px;
+    padding: 4px 8px;
+    border: none;
+    border-radius: 6px;
+    background: none;
+    color: var(--primary-color);
+    font: inherit;
+    cursor: pointer;
+  }
+
+  .treemap-selection button:hover {
+    background-color: rgba(127, 127, 127, 0.15);
+  }
+
+  .treemap-selection .treemap-selection-close {
+    color: var(--secondary-text-color);
+  }
+
+  .treemap-container.selecting .treemap-item {
+    opacity: 0.6;
+  }
+
+  .treemap-container.selecting .treemap-item.selected {
+    opacity: 1;
+    box-shadow: inset 0 0 0 3px var(--primary-color);
+  }
+
+  .treemap-secondary {
+    font-size: 11px;
+    text-align: center;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+    max-width: 100%;
+    opacity: 0.75;
+  }
+
   .treemap-item.small .treemap-icon {
     --mdc-icon-size: 20px;
   }
@@ -107,7 +480,9 @@ export const styles = css`
     font-size: 8px;
   }
 
-  .treemap-item.tiny .treemap-value {
+  .treemap-item.tiny .treemap-value,
+  .treemap-item.small .treemap-secondary,
+  .treemap-item.tiny .treemap-secondary {
     display: none;
   }
 
@@ -1,5 +1,7 @@
 import { LitElement, html, nothing, type TemplateResult, type PropertyValues } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
+import { keyed } from 'lit/directives/keyed.js';
+import { repeat } from 'lit/directives/repeat.js';
 import { fireEvent, debounce, navigate } from 'custom-card-helpers';
 import {
   isEntityConfig,
@@ -7,35 +9,110 @@ import {
   type TreemapCardConfig,
   type TreemapItem,
   type TreemapRect,
+  type TreemapGroupRect,
   type TreemapEntityConfig,
+  type TreemapJsonSourceConfig,
   type TreemapActionConfig,
+  type TreemapSelectActionConfig,
+  type EntityInput,
 } from './types';
 
-import { getNumber, getString, matchesPattern, isUnavailableState } from './utils/predicates';
-import { isLightEntity, extractLightInfo, getLightBackgroundColor } from './utils/lights';
-import { isClimateEntity, extractClimateInfo, getClimateValue } from './utils/climate';
+import {
+  getScalarString,
+  getString,
+  isRecord,
+  matchesPattern,
+  isUnavailableState,
+} from './utils/predicates';
+import { findDomainHandler, getDomainHandler, type AdjustControl } from './utils/domains';
 import {
   getContrastColors,
   getGradientColor,
+  getCategoricalColor,
   applyOpacity,
+  type CategoricalColorOptions,
   type GradientColorOptions,
 } from './utils/colors';
+import { getLegendScale } from './utils/legend';
+import { resolveThemeColor, THEME_DEFAULTS } from './utils/theme';
+import {
+  evaluateExpression,
+  ExpressionError,
+  getExpressionEntities,
+  type ExpressionScope,
+} from './utils/expression';
 import { renderSparklineWithData } from './utils/sparkline';
 import { getHistoryData, type HistoryPeriod, type SparklineData } from './utils/history';
+import { getStatisticValues } from './utils/statistics';
+import {
+  getEnergyStatistics,
+  subtractIncludedDevices,
+  type EnergyKind,
+  type EnergyStatistic,
+} from './utils/energy';
+import { matchesIncludeFilter } from './utils/filters';
+import { getErrorMessage, parseTemplateItems } from './utils/template';
+import { getMissingPathError, getPath, readPath } from './utils/paths';
+import { getTileKey, OTHERS_KEY, scaleToPercent, withUniqueKeys } from './utils/layout';
+import { getDefaultStateMap, mapState } from './utils/states';
 import { squarify } from './utils/squarify';
-import { prepareTreemapData } from './utils/data';
+import type { PreviousRect } from './utils/stable';
+import {
+  buildGroups,
+  getEntityGroupName,
+  getFieldGroupName,
+  getGroupKeys,
+  getTilePath,
+  squarifyGroups,
+  UNGROUPED_KEY,
+  zoomItems,
+} from './utils/groups';
+import { getColorRange, prepareTreemapData, type PreparedData } from './utils/data';
 import { formatNumber, resolvePrecision } from './utils/format';
+import { localize } from './localize';
 import { styles } from './styles';
 
 declare const __VERSION__: string;
 const CARD_VERSION = __VERSION__;
 
+// Icons of energy tiles (devices use their entity icon)
+const ENERGY_ICONS: Record<EnergyKind, string | undefined> = {
+  device: undefined,
+  grid: 'mdi:transmission-tower',
+  solar: 'mdi:solar-power',
+  battery: 'mdi:home-battery',
+};
+
 console.info(
   `%c TREEMAP-CARD %c v${CARD_VERSION}`,
   'color: white; background: #3498db; font-weight: bold;',
   'color: #3498db; background: white; font-weight: bold;'
 );
 
+/**
+ * Results of the value/size/color expressions of one entity or JSON item
+ */
+interface ComputedValues {
+  value?: number;
+  size?: number;
+  color?: number;
+  error?: string;
+}
+
+/**
+ * Tile being dragged to a new value (hold-and-drag, or any drag with the adjust option)
+ */
+interface AdjustState {
+  key: string; // Tile key
+  entityId: string;
+  control: AdjustControl;
+  horizontal: boolean; // Drag direction (adjust.direction)
+  start: number; // Pointer position along the drag direction when pressed
+  length: number; // Tile size along the drag direction in pixels: a drag across covers the range
+  moved: boolean; // Whether the pointer was dragged (otherwise release runs the hold action)
+  value: number; // Value the tile will be set to
+}
+
 @customElement('treemap-card')
 export class TreemapCard extends LitElement {
   static override styles = styles;
@@ -71,24 +148,97 @@ export class TreemapCard extends LitElement {
   @property({ attribute: false }) public hass?: HomeAssistant;
   @state() private _config?: TreemapCardConfig;
   @state() private _sparklineData = new Map<string, SparklineData>();
+  // value.source: statistics - aggregated statistic per entity (undefined: no statistics)
+  @state() private _statisticValues = new Map<string, number | undefined>();
+  // Energy mode: statistics of the energy dashboard (undefined until fetched)
+  @state() private _energyStatistics: EnergyStatistic[] | undefined;
+  @state() private _energyError: string | undefined;
+  // Drill-down navigation: group names (and optionally a tile key) from the root
+  @state() private _zoomPath: string[] = [];
+  @state() private _zoomDirection: 'in' | 'out' | undefined;
+  // Zoom path actually rendered (falls back to root when the zoomed group disappears)
+  private _activeZoomPath: string[] = [];
   private _fetchingSparklines = false;
+  private _fetchingStatistics = false;
   private _lastRelevantStates: string | undefined;
+  // Computed style for resolving theme colors (refreshed on every render)
+  private _themeStyles: CSSStyleDeclaration | undefined;
   private _cachedData: TreemapItem[] | undefined;
   private _cachedDataHash: string | undefined;
+  // Problems with the JSON sources (e.g. data_attribute not found), cached with the data
+  private _dataErrors: string[] = [];
   private readonly _debouncedFetchSparklines = debounce(() => void this._fetchSparklineData(), 100);
+  private readonly _debouncedFetchStatistics = debounce(() => void this._fetchStatistics(), 100);
   // Map from entity_id to its config object, for per-entity action overrides
   private _entityConfigMap = new Map<string, TreemapEntityConfig>();
   // Hold action detection
   private _holdTimer: ReturnType<typeof setTimeout> | null = null;
   private _holdFired = false;
   private static readonly _HOLD_THRESHOLD_MS = 500;
+  // Drag adjustment in progress, and the one a pressed tile would start
+  @state() private _adjusting: AdjustState | undefined;
+  private _pendingAdjust: AdjustState | undefined;
+  private static readonly _ADJUST_THRESHOLD_PX = 8;
+  // Double tap detection: a single tap is delayed only while a double tap may follow
+  private _tapTimer: ReturnType<typeof setTimeout> | null = null;
+  private _pendingTapKey: string | undefined;
+  private static readonly _DOUBLE_TAP_WINDOW_MS = 250;
+  // Selected entity ids while in selection mode (entered by holding a tile)
+  @state() private _selection: ReadonlySet<string> | undefined;
+  private static readonly _DEFAULT_SELECT_ACTIONS: TreemapSelectActionConfig[] = [
+    { action: 'toggle' },
+    { action: 'turn-off' },
+  ];
+  private static readonly _SELECT_ACTION_ICONS: Partial<
+    Record<TreemapActionConfig['action'], string>
+  > = {
+    toggle: 'mdi:toggle-switch-outline',
+    'turn-off': 'mdi:power',
+    brightness: 'mdi:brightness-6',
+    'call-service': 'mdi:play-circle-outline',
+  };
+  private static readonly _GROUP_HEADER_HEIGHT_PX = 22;
+  // Tiles narrower or lower than these get compact styles (value hidden when tiny)
+  private static readonly _TINY_TILE_PX = 50;
+  private static readonly _SMALL_TILE_PX = 80;
+  // Measured container width in pixels (undefined until observed)
+  @state() private _containerWidth: number | undefined;
+  // data_template: latest rendered list, error message and the active subscription
+  @state() private _templateItems: unknown[] | undefined;
+  @state() private _templateError: string | undefined;
+  private _subscribedTemplate: string | undefined;
+  private _templateUnsubscribe: Promise<(() => Promise<void>) | undefined> | undefined;
+  private _resizeObserver: ResizeObserver | undefined;
+  private _observedContainer: Element | undefined;
+  // Layout transitions: tiles that leave the layout stay rendered while they fade out
+  private _renderedTiles = new Map<string, TreemapRect>();
+  private _renderedZoomKey = '';
+  private _exitingTiles = new Map<
+    string,
+    { rect: TreemapRect; timer: ReturnType<typeof setTimeout> }
+  >();
+  private static readonly _ANIMATION_DURATION_MS = 300;
+  // Rects of the last layout, used to seed layout.stable
+  private _previousLayout: PreviousRect[] = [];
 
   /**
    * Optimize re-renders: only update when relevant entity states change
    */
   protected override shouldUpdate(changedProps: PropertyValues): boolean {
-    // Always update if config or sparkline data changed
-    if (changedProps.has('_config') || changedProps.has('_sparklineData')) {
+    // Always update if config, sparkline data, zoom level or container size changed
+    if (
+      changedProps.has('_config') ||
+      changedProps.has('_sparklineData') ||
+      changedProps.has('_statisticValues') ||
+      changedProps.has('_energyStatistics') ||
+      changedProps.has('_energyError') ||
+      changedProps.has('_zoomPath') ||
+      changedProps.has('_adjusting') ||
+      changedProps.has('_selection') ||
+      changedProps.has('_containerWidth') ||
+      changedProps.has('_templateItems') ||
+      changedProps.has('_templateError')
+    ) {
       return true;
     }
 
@@ -111,8 +261,10 @@ export class TreemapCard extends LitElement {
   private _getRelevantStatesHash(): string {
     if (!this.hass) return '';
 
-    const entityIds = this._getConfiguredEntityIds();
-    const states: string[] = [];
+    const entityIds = [...this._getConfiguredEntityIds(), ...this._getExpressionEntityIds()];
+    // Theme colors change with the theme and dark mode
+    const themes = this.hass.themes;
+    const states: string[] = [`theme:${themes?.theme ?? ''}:${String(themes?.darkMode ?? '')}`];
 
     for (const id of entityIds) {
       const entity = this.hass.states[id];
@@ -131,22 +283,34 @@ export class TreemapCard extends LitElement {
   private _getConfiguredEntityIds(): string[] {
     if (!this.hass || !this._config) return [];
 
+    // JSON sources are read alongside any of the modes
+    const sourceIds = this._config.sources?.map(source => source.entity) ?? [];
+
+    // For energy mode, the statistics of the energy dashboard (mostly entities)
+    if (this._config.energy) {
+      return [
+        ...(this._energyStatistics ?? []).map(({ statisticId }) => statisticId),
+        ...sourceIds,
+      ];
+    }
+
     // For JSON mode, just the single entity
     if (this._config.entity) {
-      return [this._config.entity];
+      return [this._config.entity, ...sourceIds];
     }
 
     // For entities mode, expand wildcards
-    if (this._config.entities) {
+    const entities = this._getEntityInputs();
+    if (entities) {
       const allEntityIds = Object.keys(this.hass.states);
-      const result: string[] = [];
+      const result: string[] = [...sourceIds];
 
-      for (const input of this._config.entities) {
+      for (const input of entities) {
         const { entity: pattern } = this._normalizeEntity(input);
         if (pattern.includes('*')) {
           // Wildcard pattern - match against all entities
           for (const id of allEntityIds) {
-            if (matchesPattern(id, pattern)) {
+            if (matchesPattern(id, pattern) && this._isIncluded(id)) {
               result.push(id);
             }
           }
@@ -158,18 +322,75 @@ export class TreemapCard extends LitElement {
       return result;
     }
 
-    return [];
+    return sourceIds;
+  }
+
+  /**
+   * Get entity IDs read by the value/size/color expressions (states('sensor.x'))
+   */
+  private _getExpressionEntityIds(): string[] {
+    return [
+      this._config?.value?.expression,
+      this._config?.size?.expression,
+      this._config?.color?.expression,
+    ].flatMap(expression => (expression ? getExpressionEntities(expression) : []));
+  }
+
+  /**
+   * Get the entity list of entities mode: the configured entities,
+   * or all entities when only an include filter is set
+   */
+  private _getEntityInputs(): EntityInput[] | undefined {
+    if (!this._config) return undefined;
+    if (this._config.entities) return this._config.entities;
+    return this._config.include && !this._config.entity ? ['*'] : undefined;
   }
 
   public setConfig(config: TreemapCardConfig): void {
-    if (!config.entities && !config.entity) {
-      throw new Error('Please define "entities" (list) or "entity" (single with JSON array)');
+    if (
+      !config.entities &&
+      !config.entity &&
+      !config.include &&
+      !config.data_template &&
+      !config.sources &&
+      !config.energy
+    ) {
+      throw new Error(
+        'Please define "entities" (list), "include" (filter), "entity" (single with JSON array), "sources" (JSON entities), "data_template" or "energy"'
+      );
+    }
+    if (config.sources?.some(source => !source.entity)) {
+      throw new Error('Each of "sources" needs an "entity"');
+    }
+
+    // Statistics of another stat_type or period must not be shown until refetched
+    const { source, stat_type: statType, period } = config.value ?? {};
+    const previous = this._config?.value;
+    if (
+      source !== previous?.source ||
+      statType !== previous?.stat_type ||
+      period !== previous?.period ||
+      config.energy?.period !== this._config?.energy?.period ||
+      config.energy?.sources !== this._config?.energy?.sources
+    ) {
+      this._statisticValues = new Map();
+      this._cachedData = undefined;
     }
 
     this._config = {
       gap: 4, // smaller gap
       ...config,
     };
+    this._zoomPath = [];
+    this._zoomDirection = undefined;
+    this._selection = undefined;
+    this._previousLayout = [];
+    if (config.data_template !== this._subscribedTemplate) {
+      this._unsubscribeTemplate();
+      this._templateItems = undefined;
+      this._templateError = undefined;
+      this._cachedData = undefined;
+    }
 
     // Rebuild entity config map for per-entity action lookups
     this._entityConfigMap = new Map();
@@ -199,9 +420,179 @@ export class TreemapCard extends LitElement {
     return 4;
   }
 
+  public override connectedCallback(): void {
+    super.connectedCallback();
+    this._updateTemplateSubscription();
+    // Measure the real container width so the layout can be computed in pixels
+    if (typeof ResizeObserver !== 'undefined') {
+      this._resizeObserver = new ResizeObserver(entries => {
+        this._onResize(entries);
+      });
+    }
+  }
+
+  public override disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this._clearExitingTiles();
+    this._renderedTiles = new Map();
+    this._resizeObserver?.disconnect();
+    this._resizeObserver = undefined;
+    this._observedContainer = undefined;
+    this._unsubscribeTemplate();
+  }
+
+  /**
+   * Subscribe to the data_template (render_template) while connected,
+   * resubscribing when the template changes
+   */
+  private _updateTemplateSubscription(): void {
+    const template = this.isConnected ? this._config?.data_template : undefined;
+    if (template === this._subscribedTemplate) return;
+    this._unsubscribeTemplate();
+
+    const connection = this.hass?.connection;
+    if (!template || !connection) return;
+
+    this._subscribedTemplate = template;
+    this._templateUnsubscribe = connection
+      .subscribeMessage(
+        message => {
+          this._onTemplateMessage(message);
+        },
+        { type: 'render_template', template, report_errors: true }
+      )
+      .catch((error: unknown) => {
+        // Invalid templates are rejected when subscribing
+        this._templateError = getErrorMessage(error);
+        return undefined;
+      });
+  }
+
+  private _unsubscribeTemplate(): void {
+    const pending = this._templateUnsubscribe;
+    this._templateUnsubscribe = undefined;
+    this._subscribedTemplate = undefined;
+    // The connection may already be closed; nothing to clean up then
+    pending
+      ?.then(async unsubscribe => {
+        await unsubscribe?.();
+      })
+      .catch(() => {
+        /* already unsubscribed */
+      });
+  }
+
+  private _onTemplateMessage(message: unknown): void {
+    if (!isRecord(message)) return;
+    // Template errors (report_errors) arrive as { error, level }
+    if (typeof message['error'] === 'string') {
+      this._templateError = message['error'];
+      return;
+    }
+    try {
+      this._templateItems = parseTemplateItems(
+        message['result'],
+        this._config?.data_attribute || 'items'
+      );
+      this._templateError = undefined;
+    } catch (error) {
+      this._templateError = getErrorMessage(error);
+    }
+    // New items: the data cache is keyed by entity states, which did not change
+    this._cachedData = undefined;
+  }
+
+  private _onResize(entries: ResizeObserverEntry[]): void {
+    const width = Math.round(entries.at(-1)?.contentRect.width ?? 0);
+    if (width > 0 && width !== this._containerWidth) {
+      this._containerWidth = width;
+    }
+  }
+
+  /**
+   * Observe the treemap container (it is replaced when zooming)
+   */
+  private _observeContainer(): void {
+    const container = this.shadowRoot?.querySelector('.treemap-container') ?? undefined;
+    if (!this._resizeObserver || !container || container === this._observedContainer) return;
+    if (this._observedContainer) this._resizeObserver.unobserve(this._observedContainer);
+    this._resizeObserver.observe(container);
+    this._observedContainer = container;
+  }
+
   protected override updated(): void {
-    // Debounce sparkline fetching to reduce API calls
+    this._observeContainer();
+    this._updateTemplateSubscription();
+
+    // Debounce sparkline and statistics fetching to reduce API calls
     this._debouncedFetchSparklines();
+    if (this._config?.value?.source === 'statistics' || this._config?.energy) {
+      this._debouncedFetchStatistics();
+    }
+  }
+
+  /**
+   * Fetch the statistics shown as tile values (value.source: statistics)
+   */
+  private async _fetchStatistics(): Promise<void> {
+    const config = this._config;
+    if (!this.hass || !config || this._fetchingStatistics) return;
+    const { energy, value } = config;
+    if (!energy && value?.source !== 'statistics') return;
+
+    this._fetchingStatistics = true;
+
+    try {
+      // Tiles wait for their statistic, so fetch for the configured entities (not the data)
+      const statisticIds = energy
+        ? (await this._fetchEnergyStatistics(this.hass, energy.sources === true)).map(
+            ({ statisticId }) => statisticId
+          )
+        : this._getConfiguredEntityIds().filter(id => !this._isExcluded(id));
+      if (statisticIds.length === 0) return;
+
+      // Fetch aggregates (uses cache internally); energy tiles show the consumption
+      const statistics = await getStatisticValues(
+        this.hass,
+        statisticIds,
+        energy ? 'change' : (value?.stat_type ?? 'change'),
+        (energy ? energy.period : value?.period) ?? 'today'
+      );
+
+      // Only update state if a value changed (avoid triggering re-renders)
+      const changed = [...statistics].some(
+        ([entityId, statistic]) =>
+          !this._statisticValues.has(entityId) || this._statisticValues.get(entityId) !== statistic
+      );
+      if (changed) {
+        this._statisticValues = new Map([...this._statisticValues, ...statistics]);
+        this._cachedData = undefined;
+      }
+    } finally {
+      this._fetchingStatistics = false;
+    }
+  }
+
+  /**
+   * Fetch the devices (and sources) of the energy dashboard
+   */
+  private async _fetchEnergyStatistics(
+    hass: HomeAssistant,
+    includeSources: boolean
+  ): Promise<EnergyStatistic[]> {
+    try {
+      const statistics = await getEnergyStatistics(hass, includeSources);
+      this._energyError = undefined;
+      if (JSON.stringify(statistics) !== JSON.stringify(this._energyStatistics)) {
+        this._energyStatistics = statistics;
+        this._cachedData = undefined;
+      }
+      return statistics;
+    } catch (error) {
+      this._energyError = getErrorMessage(error);
+      this._cachedData = undefined;
+      return [];
+    }
   }
 
   private async _fetchSparklineData(): Promise<void> {
@@ -280,16 +671,35 @@ export class TreemapCard extends LitElement {
     }
 
     // Mode 1 & 2: entities list (with wildcard support)
+    this._dataErrors = [];
     let data: TreemapItem[];
-    if (this._config.entities) {
-      data = this._resolveEntities(this._config.entities);
+    const entities = this._getEntityInputs();
+    if (entities) {
+      data = this._resolveEntities(entities);
     } else if (this._config.entity) {
       // Mode 3: single entity with JSON array
       data = this._resolveJsonEntity(this._config.entity);
+    } else if (this._config.data_template) {
+      // Mode 4: JSON list rendered by a Home Assistant template (live subscription)
+      data = this._mapJsonItems(this._templateItems ?? []);
+    } else if (this._config.energy) {
+      // Mode 5: devices of the energy dashboard, valued by their consumption statistics
+      data = this._resolveEnergy();
     } else {
       data = [];
     }
 
+    // JSON sources, merged with the items of any mode above
+    if (this._config.sources) {
+      data = [
+        ...data,
+        ...this._config.sources.flatMap(source => this._resolveJsonEntity(source.entity, source)),
+      ];
+    }
+
+    // Tiles are keyed for rendering and animation, so repeated labels need their own key
+    data = withUniqueKeys(data);
+
     // Cache the result
     this._cachedData = data;
     this._cachedDataHash = currentHash;
@@ -308,24 +718,38 @@ export class TreemapCard extends LitElement {
     return false;
   }
 
+  private _isIncluded(entityId: string): boolean {
+    const filter = this._config?.include;
+    if (!filter || !this.hass) return true;
+    return matchesIncludeFilter(this.hass, entityId, filter);
+  }
+
   private _resolveEntities(inputs: (string | TreemapEntityConfig)[]): TreemapItem[] {
     if (!this.hass) return [];
 
     const items: TreemapItem[] = [];
     const allEntityIds = Object.keys(this.hass.states);
+    // An entity matched by several inputs is only drawn once (by the first)
+    const seen = new Set<string>();
 
     for (const input of inputs) {
       const {
         entity: pattern,
         name: nameOverride,
         icon: iconOverride,
+        state_map: entityStateMap,
       } = this._normalizeEntity(input);
 
       const matchingIds = allEntityIds.filter(
-        id => matchesPattern(id, pattern) && !this._isExcluded(id)
+        id =>
+          !seen.has(id) &&
+          matchesPattern(id, pattern) &&
+          !this._isExcluded(id) &&
+          this._isIncluded(id)
       );
 
       for (const entityId of matchingIds) {
+        seen.add(entityId);
         const entity = this.hass.states[entityId];
         if (!entity) continue;
 
@@ -333,7 +757,9 @@ export class TreemapCard extends LitElement {
         const defaultLabel =
           labelAttribute === 'entity_id'
             ? entityId
-            : String(entity.attributes[labelAttribute] ?? entityId.split('.').pop() ?? entityId);
+            : String(
+                getPath(entity.attributes, labelAttribute) ?? entityId.split('.').pop() ?? entityId
+              );
 
         // Use name override from EntityConfig if provided
         const label = nameOverride ?? defaultLabel;
@@ -341,117 +767,125 @@ export class TreemapCard extends LitElement {
         // Use icon override from EntityConfig if provided
         const icon = iconOverride ?? getString(entity.attributes['icon']);
 
-        // Special handling for light entities
-        if (isLightEntity(entityId)) {
-          const lightInfo = extractLightInfo(entity);
-          const { brightness } = lightInfo;
-
-          // Size: off lights get 10%, on lights get 40-100% based on brightness
-          // This ensures on lights are clearly separated from off lights
-          let sizeValue: number;
-          if (!lightInfo.isOn) {
-            sizeValue = 10;
-          } else {
-            // On lights: 40% minimum, scale to 100%
-            sizeValue = 40 + (brightness / 100) * 60;
-          }
-
-          items.push({
-            label,
-            value: brightness, // Display brightness as percentage
-            sizeValue,
-            sortValue: brightness,
-            colorValue: brightness,
-            entity_id: entityId,
-            icon: icon ?? 'mdi:lightbulb',
-            unit: '%',
-            light: lightInfo,
-          });
+        // value/size/color expressions (skipped for unavailable entities, handled below)
+        const computed = isUnavailableState(entity.state)
+          ? undefined
+          : this._evaluateExpressions({
+              ...entity.attributes,
+              state: entity.state,
+              attributes: entity.attributes,
+              entity_id: entityId,
+            });
+        if (computed?.error !== undefined) {
+          items.push(this._createErrorItem(label, computed.error, entityId));
           continue;
         }
 
-        // Special handling for climate entities
-        if (isClimateEntity(entityId)) {
-          const climateInfo = extractClimateInfo(entity);
-
-          // Determine what to display/size/color based on config
-          const valueAttribute = this._config?.value?.attribute || 'current_temperature';
-          const sizeAttribute = this._config?.size?.attribute || valueAttribute;
-          const colorAttribute = this._config?.color?.attribute || valueAttribute;
+        // Domain handlers (lights, climate, covers, ...) build their own tiles
+        const handler = findDomainHandler(entityId, entity);
+        const handled = handler?.resolveItem({
+          entityId,
+          entity,
+          label,
+          icon: icon ?? handler.getIcon(entity),
+          config: this._config,
+          stateMapped:
+            mapState(entity.state, [entityStateMap, this._config?.state_map]) !== undefined,
+          localize: key => localize(this.hass, key),
+        });
+        if (handler && handled) {
+          items.push(this._applyComputedValues({ ...handled, handler: handler.name }, computed));
+          continue;
+        }
 
-          // Get values (supports computed attributes like temp_difference, temp_offset)
-          let displayValue = getClimateValue(climateInfo, valueAttribute);
-          let sizeValue = getClimateValue(climateInfo, sizeAttribute);
-          let colorValue = getClimateValue(climateInfo, colorAttribute);
+        // Computed value: the entity's unit may not apply (use value.suffix instead)
+        if (computed?.value !== undefined) {
+          items.push(
+            this._applyComputedValues(
+              {
+                label,
+                value: computed.value,
+                sizeValue: computed.value,
+                sortValue: computed.value,
+                colorValue: computed.value,
+                entity_id: entityId,
+                icon,
+              },
+              computed
+            )
+          );
+          continue;
+        }
 
-          // Fall back to entity attributes if not a computed value
-          if (displayValue === null) {
-            displayValue = getNumber(entity.attributes[valueAttribute]) ?? 0;
-          }
-          if (sizeValue === null) {
-            sizeValue = getNumber(entity.attributes[sizeAttribute]) ?? 0;
-          }
-          if (colorValue === null) {
-            colorValue = getNumber(entity.attributes[colorAttribute]) ?? 0;
+        // Recorder statistics (value.source: statistics), shown once fetched
+        if (this._config?.value?.source === 'statistics') {
+          if (!this._statisticValues.has(entityId)) continue;
+          const statistic = this._statisticValues.get(entityId);
+          if (statistic === undefined) {
+            items.push(
+              this._createErrorItem(label, `value: no statistics for ${entityId}`, entityId)
+            );
+            continue;
           }
-
-          // For numeric operations, convert to numbers
-          const numberDisplayValue = typeof displayValue === 'number' ? displayValue : 0;
-          // Ensure sizeValue has a minimum so items are always visible
-          const numberSizeValue =
-            typeof sizeValue === 'number' ? Math.max(0.1, Math.abs(sizeValue)) : 0.1;
-          const numberColorValue = typeof colorValue === 'number' ? colorValue : 0;
-
-          // Determine icon: use entity's custom icon if set, otherwise base on hvac_action
-          let climateIcon: string;
-          if (icon) {
-            // Entity has a custom icon set - use it
-            climateIcon = icon;
-          } else
-            switch (climateInfo.hvacAction) {
-              case 'heating': {
-                climateIcon = 'mdi:fire';
-
-                break;
-              }
-              case 'cooling': {
-                climateIcon = 'mdi:snowflake';
-
-                break;
-              }
-              case 'off': {
-                climateIcon = 'mdi:thermostat-off';
-
-                break;
-              }
-              default: {
-                climateIcon = 'mdi:thermostat';
-              }
-            }
-
-          items.push({
-            label,
-            value: numberDisplayValue,
-            sizeValue: numberSizeValue,
-            sortValue: numberDisplayValue,
-            colorValue: numberColorValue,
-            entity_id: entityId,
-            icon: climateIcon,
-            unit: getString(entity.attributes['unit_of_measurement']),
-            climate: climateInfo,
-          });
+          items.push(
+            this._applyComputedValues(
+              {
+                label,
+                value: statistic,
+                sizeValue: statistic,
+                sortValue: statistic,
+                colorValue: statistic,
+                entity_id: entityId,
+                icon,
+                unit: getString(entity.attributes['unit_of_measurement']),
+              },
+              computed
+            )
+          );
           continue;
         }
 
         // Standard entity handling
         const valueAttribute = this._config?.value?.attribute || 'state';
-        let value: number;
-        if (valueAttribute === 'state') {
-          value = Number.parseFloat(entity.state);
-        } else {
-          const attrValue = entity.attributes[valueAttribute];
-          value = Number.parseFloat(String(attrValue ?? 0));
+        const attribute =
+          valueAttribute === 'state' ? undefined : readPath(entity.attributes, valueAttribute);
+
+        // A missing attribute path is a config mistake, unless the entity is unavailable
+        if (attribute && !attribute.found && !isUnavailableState(entity.state)) {
+          items.push(
+            this._createErrorItem(label, getMissingPathError('value', valueAttribute), entityId)
+          );
+          continue;
         }
+        const rawValue = attribute?.found === true ? String(attribute.value ?? 0) : entity.state;
+
+        // Non-numeric states (on/off, open/closed, ...) mapped via state_map
+        const mapped = mapState(rawValue, [
+          entityStateMap,
+          this._config?.state_map,
+          getDefaultStateMap(entityId.split('.')[0] ?? ''),
+        ]);
+        if (mapped) {
+          items.push(
+            this._applyComputedValues(
+              {
+                label,
+                value: mapped.value,
+                sizeValue: mapped.value,
+                sortValue: mapped.value,
+                colorValue: mapped.value,
+                entity_id: entityId,
+                icon,
+                stateColor: mapped.color,
+                stateLabel: mapped.label,
+              },
+              computed
+            )
+          );
+          continue;
+        }
+
+        const value = Number.parseFloat(rawValue);
 
         if (Number.isNaN(value)) {
           // Skip non-numeric entities unless filter.unavailable is enabled
@@ -479,82 +913,367 @@ export class TreemapCard extends LitElement {
 
         const unit = getString(entity.attributes['unit_of_measurement']);
 
-        items.push({
+        items.push(
+          this._applyComputedValues(
+            {
+              label,
+              value,
+              sizeValue: value,
+              sortValue: value,
+              colorValue: value,
+              entity_id: entityId,
+              icon,
+              unit,
+            },
+            computed
+          )
+        );
+      }
+    }
+
+    return this._assignColorCategories(this._assignEntityGroups(items));
+  }
+
+  /**
+   * Evaluate the value/size/color expressions against an entity or JSON item.
+   * Returns undefined when no expression is configured.
+   */
+  private _evaluateExpressions(variables: Record<string, unknown>): ComputedValues | undefined {
+    const valueExpression = this._config?.value?.expression;
+    const sizeExpression = this._config?.size?.expression;
+    const colorExpression = this._config?.color?.expression;
+    if (!valueExpression && !sizeExpression && !colorExpression) return undefined;
+
+    const hass = this.hass;
+    const scope: ExpressionScope = { variables, getEntity: entityId => hass?.states[entityId] };
+    // Prefix errors with the option so it is clear which expression failed
+    const evaluate = (option: string, expression: string | undefined): number | undefined => {
+      if (!expression) return undefined;
+      try {
+        return evaluateExpression(expression, scope);
+      } catch (error) {
+        if (error instanceof ExpressionError) {
+          throw new ExpressionError(`${option}: ${error.message}`);
+        }
+        throw error;
+      }
+    };
+
+    try {
+      return {
+        value: evaluate('value', valueExpression),
+        size: evaluate('size', sizeExpression),
+        color: evaluate('color', colorExpression),
+      };
+    } catch (error) {
+      if (error instanceof ExpressionError) return { error: error.message };
+      throw error;
+    }
+  }
+
+  /**
+   * Override an item's values with computed ones (size and color follow a computed value)
+   */
+  private _applyComputedValues(
+    item: TreemapItem,
+    computed: ComputedValues | undefined
+  ): TreemapItem {
+    if (!computed) return item;
+    const value = computed.value ?? item.value;
+    const changed = computed.value !== undefined;
+    return {
+      ...item,
+      value,
+      sortValue: changed ? value : item.sortValue,
+      sizeValue: computed.size ?? (changed ? value : item.sizeValue),
+      colorValue: computed.color ?? (changed ? value : item.colorValue),
+      stateLabel: changed ? undefined : item.stateLabel,
+    };
+  }
+
+  /**
+   * Tile for an entity or JSON item whose expression failed
+   */
+  private _createErrorItem(label: string, error: string, entityId?: string): TreemapItem {
+    return {
+      label,
+      value: 0, // Placeholder value for sizing
+      sizeValue: 1, // Minimal size
+      sortValue: 0,
+      colorValue: 0,
+      entity_id: entityId,
+      icon: 'mdi:alert-circle-outline',
+      error,
+    };
+  }
+
+  /**
+   * Attach the color attribute value of entity items (categorical color mode)
+   */
+  private _assignColorCategories(items: TreemapItem[]): TreemapItem[] {
+    const hass = this.hass;
+    if (!hass || this._config?.color?.mode !== 'categorical') return items;
+
+    const colorAttribute = this._config.color.attribute ?? this._config.value?.attribute ?? 'state';
+    for (const item of items) {
+      const entity = item.entity_id ? hass.states[item.entity_id] : undefined;
+      if (!entity) continue;
+      item.colorCategory =
+        colorAttribute === 'state'
+          ? entity.state
+          : getScalarString(getPath(entity.attributes, colorAttribute));
+    }
+    return items;
+  }
+
+  /**
+   * Attach group paths (group_by) to entity items using the HA registries
+   */
+  private _assignEntityGroups(items: TreemapItem[]): TreemapItem[] {
+    const hass = this.hass;
+    const groupKeys = getGroupKeys(this._config?.group_by);
+    if (!hass || groupKeys.length === 0) return items;
+
+    for (const item of items) {
+      if (!item.entity_id) continue;
+      const entityId = item.entity_id;
+      item.group = groupKeys.map(key => getEntityGroupName(hass, entityId, key));
+    }
+    return items;
+  }
+
+  /**
+   * Create tiles for the energy dashboard statistics (once their values are fetched)
+   */
+  private _resolveEnergy(): TreemapItem[] {
+    if (this._energyError) {
+      this._dataErrors.push(`energy: ${this._energyError}`);
+      return [];
+    }
+
+    const statistics = this._energyStatistics ?? [];
+    const values = subtractIncludedDevices(statistics, this._statisticValues);
+    return statistics.flatMap(({ statisticId, kind, name }) => {
+      // No statistics in the period: nothing was used
+      const value = values.get(statisticId);
+      if (value === undefined) return [];
+
+      const entity = this.hass?.states[statisticId];
+      const label =
+        kind === 'device'
+          ? (name ?? getString(entity?.attributes['friendly_name']) ?? statisticId)
+          : localize(this.hass, `energy.${kind}`);
+      return [
+        {
           label,
           value,
           sizeValue: value,
           sortValue: value,
           colorValue: value,
-          entity_id: entityId,
-          icon,
-          unit,
-        });
-      }
-    }
-
-    return items;
+          // External statistics (domain:id) have no entity to open
+          entity_id: entity ? statisticId : undefined,
+          icon: getString(entity?.attributes['icon']) ?? ENERGY_ICONS[kind],
+          unit: getString(entity?.attributes['unit_of_measurement']) ?? 'kWh',
+        },
+      ];
+    });
   }
 
-  private _resolveJsonEntity(entityId: string): TreemapItem[] {
+  /**
+   * Read the JSON list of an entity (the single `entity`, or one of `sources`)
+   */
+  private _resolveJsonEntity(entityId: string, source?: TreemapJsonSourceConfig): TreemapItem[] {
     if (!this.hass) return [];
 
     const entity = this.hass.states[entityId];
     if (!entity) return [];
 
-    // Get data attribute name from config, default to 'items'
-    const dataAttribute = this._config?.data_attribute || 'items';
-    const data = entity.attributes[dataAttribute];
-
-    if (!Array.isArray(data)) return [];
-
-    // Get field mappings from config (attribute is primary, param is deprecated alias)
-    const labelAttribute = this._config?.label?.attribute ?? this._config?.label?.param ?? 'label';
-    const valueAttribute = this._config?.value?.attribute ?? this._config?.value?.param ?? 'value';
-    const sizeAttribute =
-      this._config?.size?.attribute ?? this._config?.size?.param ?? valueAttribute;
-    const colorAttribute =
-      this._config?.color?.attribute ?? this._config?.color?.param ?? valueAttribute;
-    const iconAttribute = this._config?.icon?.attribute ?? this._config?.icon?.param ?? 'icon';
-    const sparklineAttribute = this._config?.sparkline?.attribute;
-
-    return data
-      .filter((item): item is Record<string, unknown> => {
-        return typeof item === 'object' && item !== null;
-      })
-      .map(item => {
-        // Extract sparkline data if configured
-        let sparklineData: number[] | undefined;
-        if (sparklineAttribute) {
-          const rawData = item[sparklineAttribute];
-          if (Array.isArray(rawData)) {
-            sparklineData = rawData.filter((v): v is number => typeof v === 'number');
+    // Get data attribute path from the source or config, default to 'items'
+    const dataAttribute = source?.data_attribute || this._config?.data_attribute || 'items';
+    const { found, value: data } = readPath(entity.attributes, dataAttribute);
+
+    if (!Array.isArray(data)) {
+      // Unavailable REST sensors drop their attributes; that is not a config mistake
+      if (!isUnavailableState(entity.state)) {
+        this._dataErrors.push(
+          found
+            ? `data_attribute "${dataAttribute}" on ${entityId} is not a list`
+            : `data_attribute "${dataAttribute}" not found on ${entityId}`
+        );
+      }
+      return [];
+    }
+
+    if (!source) return this._mapJsonItems(data);
+    const name = source.name ?? getString(entity.attributes['friendly_name']) ?? entityId;
+    return this._mapJsonItems(data, { ...source, name });
+  }
+
+  /**
+   * Map a JSON list (entity attribute or rendered data_template) to treemap items.
+   * Items of a JSON source use its field mapping and are tagged with its name.
+   */
+  private _mapJsonItems(data: unknown[], source?: TreemapJsonSourceConfig): TreemapItem[] {
+    // Get field mappings from source or config (attribute is primary, param is deprecated alias)
+    // Fields are paths into the item (`quote.price`, `history[0]`)
+    const config = this._config;
+    const labelAttribute =
+      source?.label ?? config?.label?.attribute ?? config?.label?.param ?? 'label';
+    const valueAttribute =
+      source?.value ?? config?.value?.attribute ?? config?.value?.param ?? 'value';
+    const configuredSize = source?.size ?? config?.size?.attribute ?? config?.size?.param;
+    const configuredColor = source?.color ?? config?.color?.attribute ?? config?.color?.param;
+    const iconAttribute = source?.icon ?? config?.icon?.attribute ?? config?.icon?.param ?? 'icon';
+    const sparklineAttribute = source?.sparkline ?? config?.sparkline?.attribute;
+    const sourceName = source?.name;
+    const groupKeys = getGroupKeys(this._config?.group_by);
+    const categorical = this._config?.color?.mode === 'categorical';
+
+    // Items with a `children` array become groups; their children are mapped recursively
+    const mapItems = (records: unknown[], parents: string[]): TreemapItem[] =>
+      records
+        .filter((item): item is Record<string, unknown> => {
+          return typeof item === 'object' && item !== null;
+        })
+        .flatMap(record => {
+          // The source name reads like a field, for group_by and color.attribute
+          const item = sourceName === undefined ? record : { source: sourceName, ...record };
+          const children = item['children'];
+          if (Array.isArray(children)) {
+            const groupName = getFieldGroupName(getPath(item, labelAttribute) ?? item['label']);
+            return mapItems(children, [...parents, groupName]);
           }
-        }
 
-        const itemValue = Number(item[valueAttribute] ?? 0);
-        return {
-          label: String(item[labelAttribute] ?? item['label'] ?? ''),
-          value: itemValue,
-          sizeValue: Number(item[sizeAttribute] ?? item[valueAttribute] ?? 0),
-          sortValue: itemValue,
-          colorValue: Number(item[colorAttribute] ?? item[valueAttribute] ?? 0),
-          icon: getString(item[iconAttribute]),
-          entity_id: getString(item['entity_id']),
-          sparklineData,
-        };
-      })
-      .filter(item => item.label && !Number.isNaN(item.value));
+          // Extract sparkline data if configured
+          let sparklineData: number[] | undefined;
+          if (sparklineAttribute) {
+            const rawData = getPath(item, sparklineAttribute);
+            if (Array.isArray(rawData)) {
+              sparklineData = rawData.filter((v): v is number => typeof v === 'number');
+            }
+          }
+
+          const group = [
+            ...parents,
+            ...groupKeys.map(key => getFieldGroupName(getPath(item, key))),
+          ];
+          const label = String(getPath(item, labelAttribute) ?? item['label'] ?? '');
+          const computed = this._evaluateExpressions({ ...item, item });
+          const valueField = readPath(item, valueAttribute);
+          const sizeField = configuredSize ? readPath(item, configuredSize) : valueField;
+          const colorField = configuredColor ? readPath(item, configuredColor) : valueField;
+
+          // Missing fields are reported on the tile (unless an expression replaces them)
+          const fields = [
+            { option: 'value', path: valueAttribute, field: valueField, replaced: computed?.value },
+          ];
+          if (configuredSize) {
+            fields.push({
+              option: 'size',
+              path: configuredSize,
+              field: sizeField,
+              replaced: computed?.size,
+            });
+          }
+          if (configuredColor) {
+            fields.push({
+              option: 'color',
+              path: configuredColor,
+              field: colorField,
+              replaced: computed?.color,
+            });
+          }
+          const missing = fields.find(
+            ({ field, replaced }) => !field.found && replaced === undefined
+          );
+          const error =
+            computed?.error ?? (missing && getMissingPathError(missing.option, missing.path));
+          if (error !== undefined) {
+            return [
+              {
+                ...this._createErrorItem(label, error, getString(item['entity_id'])),
+                group: group.length > 0 ? group : undefined,
+                source: sourceName,
+              },
+            ];
+          }
+
+          const itemValue = Number(valueField.value ?? 0);
+          const colorValue = colorField.value ?? valueField.value;
+          return [
+            this._applyComputedValues(
+              {
+                label,
+                value: itemValue,
+                sizeValue: Number(sizeField.value ?? valueField.value ?? 0),
+                sortValue: itemValue,
+                colorValue: Number(colorValue ?? 0),
+                colorCategory: categorical ? getScalarString(colorValue) : undefined,
+                icon: getString(getPath(item, iconAttribute)),
+                entity_id: getString(item['entity_id']),
+                sparklineData,
+                group: group.length > 0 ? group : undefined,
+                source: sourceName,
+              },
+              computed
+            ),
+          ];
+        })
+        .filter(item => item.label && !Number.isNaN(item.value));
+
+    return mapItems(data, []);
+  }
+
+  /**
+   * Resolve a color option (CSS variable or named theme color) against the current theme
+   */
+  private _resolveColor(color: string): string {
+    this._themeStyles ??= getComputedStyle(this);
+    const computed = this._themeStyles;
+    return resolveThemeColor(color, name => computed.getPropertyValue(name));
+  }
+
+  /**
+   * Resolve a color option and apply color.opacity
+   */
+  private _getThemeColor(color: string): string {
+    const opacity = this._config?.color?.opacity;
+    const resolved = this._resolveColor(color);
+    return opacity === undefined ? resolved : applyOpacity(resolved, opacity);
   }
 
   private _getGradientColorOptions(): GradientColorOptions {
+    const mid = this._config?.color?.mid;
     return {
-      colorHigh: this._config?.color?.high || '#16a34a',
-      colorLow: this._config?.color?.low || '#b91c1c',
-      colorMid: this._config?.color?.mid,
+      colorHigh: this._resolveColor(this._config?.color?.high || THEME_DEFAULTS.high),
+      colorLow: this._resolveColor(this._config?.color?.low || THEME_DEFAULTS.low),
+      colorMid: mid ? this._resolveColor(mid) : undefined,
       scaleMin: this._config?.color?.scale?.min,
       scaleMax: this._config?.color?.scale?.max,
       neutral: this._config?.color?.scale?.neutral,
       opacity: this._config?.color?.opacity,
+      stops: this._config?.color?.stops?.map(stop => ({
+        ...stop,
+        color: this._resolveColor(stop.color),
+      })),
+      palette: this._config?.color?.palette,
+      bands: this._config?.color?.mode === 'bands',
+      interpolation: this._config?.color?.interpolation,
+    };
+  }
+
+  private _getCategoricalColorOptions(): CategoricalColorOptions {
+    const colorConfig = this._config?.color;
+    const map = colorConfig?.map;
+    return {
+      map: map
+        ? Object.fromEntries(
+            Object.entries(map).map(([category, color]) => [category, this._resolveColor(color)])
+          )
+        : undefined,
+      palette: colorConfig?.palette,
+      fallback: colorConfig?.fallback ? this._resolveColor(colorConfig.fallback) : undefined,
+      opacity: colorConfig?.opacity,
     };
   }
 
@@ -562,18 +1281,22 @@ export class TreemapCard extends LitElement {
     return getGradientColor(value, min, max, this._getGradientColorOptions());
   }
 
-  private _getSizeClass(rect: TreemapRect): string {
-    // Area is in percentage units (0-100 x 0-100 = 0-10000)
-    const area = rect.width * rect.height;
-    if (area < 50) return 'tiny'; // < ~7% x 7%
-    if (area < 150) return 'small'; // < ~12% x 12%
-    return '';
-  }
+  private _getSizeClass(rect: TreemapRect, containerHeight: number): string {
+    const containerWidth = this._containerWidth;
+    if (!containerWidth) {
+      // Container not measured yet: area is in percentage units (0-100 x 0-100 = 0-10000)
+      const area = rect.width * rect.height;
+      if (area < 50) return 'tiny'; // < ~7% x 7%
+      if (area < 150) return 'small'; // < ~12% x 12%
+      return '';
+    }
 
-  private _getLightColor(rect: TreemapRect): string {
-    const offColor = this._config?.color?.low ?? '#333333';
-    const onColor = this._config?.color?.high ?? '#fbbf24'; // Amber/yellow
-    return getLightBackgroundColor(rect.light, offColor, onColor);
+    // Tile size in pixels
+    const width = (rect.width / 100) * containerWidth;
+    const height = (rect.height / 100) * containerHeight;
+    if (width < TreemapCard._TINY_TILE_PX || height < TreemapCard._TINY_TILE_PX) return 'tiny';
+    if (width < TreemapCard._SMALL_TILE_PX || height < TreemapCard._SMALL_TILE_PX) return 'small';
+    return '';
   }
 
   private _filterData(data: TreemapItem[]): TreemapItem[] {
@@ -583,9 +1306,9 @@ export class TreemapCard extends LitElement {
     const filterBelow = this._config.filter?.below;
 
     return data.filter(item => {
-      // Skip filter.above/below checks for unavailable entities
+      // Skip filter.above/below checks for unavailable entities and failed expressions
       // (they have placeholder value 0, which would incorrectly trigger filters)
-      if (item.unavailable) {
+      if (item.unavailable || item.error !== undefined) {
         return true;
       }
       if (filterAbove !== undefined && item.value <= filterAbove) {
@@ -598,13 +1321,85 @@ export class TreemapCard extends LitElement {
     });
   }
 
+  /**
+   * Prepare data for layout: sizing options, sorting, limit and the "others" tile.
+   * Works on copies so cached items are never modified.
+   */
+  private _prepareData(data: TreemapItem[]): PreparedData {
+    const others = this._config?.others;
+    return prepareTreemapData(
+      data.map(item => ({ ...item })),
+      {
+        inverse: this._config?.size?.inverse,
+        ascending: this._config?.order === 'asc',
+        limit: this._config?.limit,
+        sizeMin: this._config?.size?.min,
+        sizeMax: this._config?.size?.max,
+        others:
+          others && others.show !== false
+            ? {
+                label: this._getOthersLabel(),
+                icon: others.icon ?? 'mdi:dots-horizontal',
+              }
+            : undefined,
+      }
+    );
+  }
+
+  private _getOthersLabel(): string {
+    return this._config?.others?.label ?? localize(this.hass, 'others.label');
+  }
+
+  /**
+   * Display name of a group or zoom path segment (internal keys are localized)
+   */
+  private _getPathLabel(name: string): string {
+    if (name === UNGROUPED_KEY) return localize(this.hass, 'group.ungrouped');
+    if (name === OTHERS_KEY) return this._getOthersLabel();
+    return name;
+  }
+
+  /**
+   * Restrict data to a zoom path. Segments are group names, tile keys or the key
+   * of the "others" tile, which zooms into the items it aggregates.
+   * Returns undefined when the path no longer exists.
+   */
+  private _zoomData(data: TreemapItem[], path: string[]): TreemapItem[] | undefined {
+    let items = data;
+    for (const segment of path) {
+      const zoomed =
+        segment === OTHERS_KEY ? this._getOthersItems(items) : zoomItems(items, [segment]);
+      if (!zoomed) return undefined;
+      items = zoomed;
+    }
+    return items;
+  }
+
+  /**
+   * Get the items hidden behind the "others" tile of a level
+   */
+  private _getOthersItems(items: TreemapItem[]): TreemapItem[] | undefined {
+    const others = this._prepareData(items).items.find(item => item.aggregated);
+    if (!others?.aggregated) return undefined;
+    const hiddenKeys = new Set(others.aggregated.map(getTileKey));
+    return items
+      .filter(item => hiddenKeys.has(getTileKey(item)))
+      .map(item => ({ ...item, group: undefined }));
+  }
+
   protected override render(): TemplateResult {
     if (!this._config) {
       return html`<ha-card><div class="error">No configuration</div></ha-card>`;
     }
 
+    this._themeStyles = undefined;
     const rawData = this._resolveData();
-    const data = this._filterData(rawData);
+    const allData = this._filterData(rawData);
+
+    // Drill-down: restrict to the zoomed subtree (falls back to root if it no longer exists)
+    const zoomedData = this._zoomData(allData, this._zoomPath);
+    this._activeZoomPath = zoomedData ? this._zoomPath : [];
+    const data = zoomedData ?? allData;
 
     // Header: use custom header if header.title is set, otherwise use HA's default title
     const useCustomHeader = !!this._config.header?.title;
@@ -614,6 +1409,9 @@ export class TreemapCard extends LitElement {
     const cardStyle = this._config.card_style || '';
     // HA's default header (only if not using custom header)
     const haTitle = useCustomHeader ? undefined : this._config.title;
+    // data_template and data_attribute errors are shown above the (last rendered) data
+    const sourceErrors = this._templateError ? [this._templateError] : this._dataErrors;
+    const dataError = sourceErrors.map(error => html`<div class="error">${error}</div>`);
 
     if (data.length === 0) {
       return html`
@@ -622,6 +1420,7 @@ export class TreemapCard extends LitElement {
             ? html`<div class="treemap-header" style="${headerStyle}">${customHeaderTitle}</div>`
             : nothing}
           <div class="card-content">
+            ${dataError}
             <div class="empty">No data available</div>
           </div>
         </ha-card>
@@ -629,17 +1428,11 @@ export class TreemapCard extends LitElement {
     }
 
     // Prepare data: calculate stats, apply sizing options, sort (optimized single-pass)
-    const {
-      items: sortedData,
-      colorMin: min,
-      colorMax: max,
-    } = prepareTreemapData(data, {
-      inverse: this._config?.size?.inverse,
-      ascending: this._config?.order === 'asc',
-      limit: this._config?.limit,
-      sizeMin: this._config?.size?.min,
-      sizeMax: this._config?.size?.max,
-    });
+    const preparedData = this._prepareData(data);
+    const sortedData = preparedData.items;
+    // Keep colors consistent while zoomed by using the range of all tiles
+    const { colorMin: min, colorMax: max } =
+      this._activeZoomPath.length > 0 ? getColorRange(allData) : preparedData;
 
     // Generate treemap layout using sizeValue
     // If size.equal mode, give all items equal weight for sizing
@@ -654,8 +1447,7 @@ export class TreemapCard extends LitElement {
     >();
     for (const item of sortedData) {
       // Use entity_id as unique key, fall back to label for JSON mode (no entity_id)
-      const key = item.entity_id ?? item.label;
-      originalValues.set(key, {
+      originalValues.set(getTileKey(item), {
         value: item.value,
         sortValue: item.sortValue,
         colorValue: item.colorValue,
@@ -664,25 +1456,66 @@ export class TreemapCard extends LitElement {
       });
     }
 
-    // squarify uses 'value' field for sizing
-    const layoutInput = sortedData.map(item => ({ ...item, value: item.sizeValue }));
     const orderAsc = this._config?.order === 'asc';
     const sizeInverse = this._config?.size?.inverse === true;
     // When size.inverse is active, sortValue is negated, so the ascending direction is flipped
     // to keep the visual order consistent with the user's intent
     const isAsc = sizeInverse ? !orderAsc : orderAsc;
     const sortBy = this._config?.sort_by ?? 'value';
-    const { rects, rows } = squarify(layoutInput, 100, 100, {
+    const squarifyOptions = {
       compressRange: true,
       equalSize,
       ascending: isAsc,
       sortBy,
-    });
+      algorithm: this._config.layout?.algorithm,
+      // Stable mode seeds the layout from the previous frame
+      previous: this._config.layout?.stable ? this._previousLayout : undefined,
+      maxAspectRatio: this._config.layout?.max_aspect_ratio,
+    };
+
+    // Lay out in real pixels once the container width is known, so tiles come out square
+    // on wide cards. Until then (or without ResizeObserver) lay out in a 100x100 square.
+    const containerWidth = this._containerWidth;
+    let rects: TreemapRect[];
+    let groups: TreemapGroupRect[] = [];
+    let height: number;
+    if (sortedData.some(item => item.group)) {
+      // Hierarchical layout: rows are not meaningful across groups, so size by tile count
+      const baseHeight = Math.max(200, Math.ceil(Math.sqrt(sortedData.length)) * 100);
+      height = this._config.height ?? baseHeight;
+      const layoutWidth = containerWidth ?? 100;
+      const layoutHeight = containerWidth ? height : 100;
+      const showGroupHeader = this._config.group?.header?.show ?? true;
+      ({ rects, groups } = squarifyGroups(buildGroups(sortedData), layoutWidth, layoutHeight, {
+        ...squarifyOptions,
+        headerHeight: showGroupHeader
+          ? (TreemapCard._GROUP_HEADER_HEIGHT_PX / height) * layoutHeight
+          : 0,
+        aggregate: this._config.group?.aggregate,
+      }));
+      scaleToPercent([...rects, ...groups], layoutWidth, layoutHeight);
+    } else {
+      // squarify uses 'value' field for sizing
+      const layoutInput = sortedData.map(item => ({ ...item, value: item.sizeValue }));
+      const layout = squarify(layoutInput, 100, 100, squarifyOptions);
+      rects = layout.rects;
+
+      // Dynamic height based on actual row count from squarify algorithm
+      const numberRows = Math.max(1, layout.rows);
+      const baseHeight = Math.max(150, numberRows * 100); // 100px per row, min 150px
+      height = this._config.height ?? baseHeight;
+
+      if (containerWidth) {
+        rects = squarify(layoutInput, containerWidth, height, squarifyOptions).rects;
+        scaleToPercent(rects, containerWidth, height);
+      }
+    }
+
+    this._previousLayout = [...rects, ...groups];
 
     // Restore original display values by matching on entity_id (or label for JSON mode)
     for (const rect of rects) {
-      const key = rect.entity_id ?? rect.label;
-      const original = originalValues.get(key);
+      const original = originalValues.get(getTileKey(rect));
       if (original) {
         rect.value = original.value;
         rect.sortValue = original.sortValue;
@@ -692,69 +1525,415 @@ export class TreemapCard extends LitElement {
       }
     }
 
-    // Dynamic height based on actual row count from squarify algorithm
-    const numberRows = Math.max(1, rows);
-    const baseHeight = Math.max(150, numberRows * 100); // 100px per row, min 150px
-    const height = this._config.height ?? baseHeight;
     const gap = this._config.gap ?? 6;
+    const zoomKey = this._activeZoomPath.join('/');
+    const duration = this._getAnimationDuration();
+    const tiles = [...rects, ...this._updateExitingTiles(rects, zoomKey, duration)];
+
+    const container = keyed(
+      zoomKey,
+      html`<div
+        class="treemap-container ${this._zoomDirection
+          ? `zoom-${this._zoomDirection}`
+          : ''} ${duration === 0 ? 'no-animation' : ''} ${this._selection ? 'selecting' : ''}"
+        style="height: ${height}px; --treemap-animation-duration: ${duration}ms"
+      >
+        ${repeat(
+          groups,
+          group => group.path.join('/'),
+          group => this._renderGroup(group, gap)
+        )}
+        ${repeat(tiles, getTileKey, rect => this._renderRect(rect, min, max, height, gap))}
+      </div>`
+    );
+    const legend = this._config.legend;
+    const legendPosition = legend?.position ?? 'bottom';
+    const legendFirst = legendPosition === 'top' || legendPosition === 'left';
+    const legendTemplate =
+      legend && legend.show !== false ? this._renderLegend(sortedData, min, max) : undefined;
+
+    // The selection toolbar takes the place of the header while selecting
+    let header: TemplateResult | typeof nothing = nothing;
+    if (this._selection) {
+      header = this._renderSelectionToolbar(this._selection);
+    } else if (showCustomHeader && customHeaderTitle) {
+      header = html`<div class="treemap-header" style="${headerStyle}">${customHeaderTitle}</div>`;
+    }
 
     return html`
       <ha-card header="${haTitle || nothing}" style="${cardStyle}">
-        ${showCustomHeader && customHeaderTitle
-          ? html`<div class="treemap-header" style="${headerStyle}">${customHeaderTitle}</div>`
-          : nothing}
+        ${header}
         <div class="card-content">
-          <div class="treemap-container" style="height: ${height}px">
-            ${rects.map(rect => this._renderRect(rect, min, max, height, gap))}
-          </div>
+          ${dataError}
+          ${this._activeZoomPath.length > 0 ? this._renderBreadcrumb(allData) : nothing}
+          ${legendTemplate
+            ? html`<div class="treemap-body ${legendPosition}">
+                ${legendFirst ? legendTemplate : nothing} ${container}
+                ${legendFirst ? nothing : legendTemplate}
+              </div>`
+            : container}
         </div>
       </ha-card>
     `;
   }
 
   /**
-   * Determine color for a treemap rect based on entity type and state.
-   * Priority: unavailable > climate off > climate HVAC active > light > gradient
+   * Color legend: swatches for categorical and HVAC colors, a gradient bar with
+   * tick labels (formatted like tile values) for numeric colors
    */
-  private _getRectColor(rect: TreemapRect, min: number, max: number): string {
-    const opacity = this._config?.color?.opacity;
+  private _renderLegend(items: TreemapItem[], min: number, max: number): TemplateResult {
+    const position = this._config?.legend?.position ?? 'bottom';
+    const vertical = position === 'left' || position === 'right';
+    const foreground = this._config?.color?.target === 'foreground';
+    const swatches = this._getLegendSwatches(items);
+
+    let scale: TemplateResult | typeof nothing = nothing;
+    if (this._config?.color?.mode !== 'categorical') {
+      const { colors, ticks } = getLegendScale(
+        min,
+        max,
+        this._getGradientColorOptions(),
+        this._config?.legend?.ticks ?? 5
+      );
+      // Ticks only carry the unit when every tile is colored by a value in the same unit
+      const units = new Set(items.map(item => item.unit));
+      const colorAttribute = this._config?.color?.attribute ?? this._config?.color?.param;
+      const unit = units.size === 1 && !colorAttribute ? [...units][0] : undefined;
+      scale = html`<div class="treemap-legend-scale">
+        <div
+          class="treemap-legend-bar"
+          style="background: linear-gradient(${vertical ? 'to top' : 'to right'}, ${colors.join(
+            ', '
+          )})"
+        ></div>
+        <div class="treemap-legend-ticks">
+          ${ticks.map(
+            tick =>
+              html`<span
+                class="treemap-legend-tick"
+                style="${vertical ? 'bottom' : 'left'}: ${tick.position}%"
+                >${this._formatNumber(tick.value, unit)}</span
+              >`
+          )}
+        </div>
+      </div>`;
+    }
 
-    // Unavailable entities always get gray color
-    if (rect.unavailable) {
-      const unavailableColor = this._config?.color?.unavailable ?? '#868e96';
-      return opacity === undefined ? unavailableColor : applyOpacity(unavailableColor, opacity);
+    return html`
+      <div class="treemap-legend ${position} ${foreground ? 'foreground' : ''}">
+        ${swatches.length > 0
+          ? html`<div class="treemap-legend-swatches">
+              ${swatches.map(
+                swatch =>
+                  html`<span class="treemap-legend-swatch">
+                    <span class="treemap-legend-color" style="background: ${swatch.color}"></span>
+                    <span
+                      class="treemap-legend-name"
+                      style="${foreground ? `color: ${swatch.color}` : ''}"
+                      >${swatch.label}</span
+                    >
+                  </span>`
+              )}
+            </div>`
+          : nothing}
+        ${scale}
+      </div>
+    `;
+  }
+
+  /**
+   * Legend entries for categorical colors (categories present in the data)
+   * or HVAC colors (when climate entities are shown)
+   */
+  private _getLegendSwatches(items: TreemapItem[]): { label: string; color: string }[] {
+    const colorConfig = this._config?.color;
+
+    if (colorConfig?.mode === 'categorical') {
+      const categories = new Set(
+        items.map(item => item.colorCategory).filter((category): category is string => !!category)
+      );
+      const options = this._getCategoricalColorOptions();
+      return [...categories].map(category => ({
+        label: category,
+        color: getCategoricalColor(category, options),
+      }));
     }
 
-    // Climate entities that are off or unavailable always get gray color
+    const hvacConfig = colorConfig?.hvac;
+    if (!hvacConfig || !items.some(item => item.climate)) return [];
+    const hvacColors: [string, string | undefined][] = [
+      ['heating', hvacConfig.heating],
+      ['cooling', hvacConfig.cooling],
+      ['off', hvacConfig.off ?? THEME_DEFAULTS.hvacOff],
+    ];
+    return hvacColors.flatMap(([action, color]) =>
+      color
+        ? [
+            {
+              label: localize(this.hass, `editor.colors.${action}`),
+              color: this._getThemeColor(color),
+            },
+          ]
+        : []
+    );
+  }
+
+  /**
+   * Transition duration in ms (0 when animations are disabled or reduced motion is preferred)
+   */
+  private _getAnimationDuration(): number {
+    if (this._config?.animation?.enabled === false) return 0;
     if (
-      rect.climate &&
-      (rect.climate.hvacMode === 'off' || rect.climate.hvacMode === 'unavailable')
+      typeof window.matchMedia === 'function' &&
+      window.matchMedia('(prefers-reduced-motion: reduce)').matches
     ) {
-      const offColor = this._config?.color?.hvac?.off ?? '#868e96';
-      return opacity === undefined ? offColor : applyOpacity(offColor, opacity);
+      return 0;
     }
+    return Math.max(0, this._config?.animation?.duration ?? TreemapCard._ANIMATION_DURATION_MS);
+  }
 
-    // HVAC colors only override when ACTIVELY heating/cooling
-    if (rect.climate && this._config?.color?.hvac) {
-      const hvacConfig = this._config.color.hvac;
-      if (rect.climate.hvacAction === 'heating' && hvacConfig.heating) {
-        return opacity === undefined
-          ? hvacConfig.heating
-          : applyOpacity(hvacConfig.heating, opacity);
+  /**
+   * Track tiles that left the layout since the last render so they can animate out.
+   * Returns the tiles that are still fading out.
+   */
+  private _updateExitingTiles(
+    rects: TreemapRect[],
+    zoomKey: string,
+    duration: number
+  ): TreemapRect[] {
+    const current = new Map(rects.map(rect => [getTileKey(rect), rect]));
+
+    // Zooming replaces the whole container, so there is nothing to fade out
+    if (duration === 0 || zoomKey !== this._renderedZoomKey) {
+      this._clearExitingTiles();
+    } else {
+      for (const [key, rect] of this._renderedTiles) {
+        if (current.has(key) || this._exitingTiles.has(key)) continue;
+        const timer = setTimeout(() => {
+          this._exitingTiles.delete(key);
+          this.requestUpdate();
+        }, duration);
+        this._exitingTiles.set(key, { rect, timer });
       }
-      if (rect.climate.hvacAction === 'cooling' && hvacConfig.cooling) {
-        return opacity === undefined
-          ? hvacConfig.cooling
-          : applyOpacity(hvacConfig.cooling, opacity);
+      // Tiles that came back before their exit finished are rendered normally again
+      for (const key of current.keys()) {
+        const exiting = this._exitingTiles.get(key);
+        if (exiting) {
+          clearTimeout(exiting.timer);
+          this._exitingTiles.delete(key);
+        }
       }
-      // idle, off, or no active action - fall through to gradient
     }
 
-    // Light entities use custom light color logic
-    if (rect.light) {
-      return this._getLightColor(rect);
+    this._renderedTiles = current;
+    this._renderedZoomKey = zoomKey;
+    return [...this._exitingTiles.values()].map(({ rect }) => rect);
+  }
+
+  private _clearExitingTiles(): void {
+    for (const { timer } of this._exitingTiles.values()) {
+      clearTimeout(timer);
+    }
+    this._exitingTiles.clear();
+  }
+
+  /**
+   * Render a group frame with header (name + aggregated value)
+   */
+  private _renderGroup(group: TreemapGroupRect, gap: number): TemplateResult {
+    const showHeader = this._config?.group?.header?.show ?? true;
+    const headerStyle = this._config?.group?.header?.style || '';
+    const groupStyle = this._config?.group?.style || '';
+    const inset = gap / 4;
+
+    return html`
+      <div
+        class="treemap-group depth-${group.depth}"
+        style="
+          left: calc(${group.x}% + ${inset}px);
+          top: calc(${group.y}% + ${inset}px);
+          width: calc(${group.width}% - ${inset * 2}px);
+          height: calc(${group.height}% - ${inset * 2}px);
+          ${groupStyle}
+        "
+        title="${this._getPathLabel(group.label)}: ${group.value}"
+      >
+        ${showHeader
+          ? html`<div
+              class="treemap-group-header"
+              style="${headerStyle}"
+              @click="${() => this._zoomTo([...this._activeZoomPath, ...group.path])}"
+            >
+              <span class="treemap-group-label">${this._getPathLabel(group.label)}</span>
+              <span class="treemap-group-value"
+                >${this._formatNumber(group.value, group.unit)}</span
+              >
+            </div>`
+          : nothing}
+      </div>
+    `;
+  }
+
+  /**
+   * Selection toolbar: selected count, actions run on all selected entities, and close
+   */
+  private _renderSelectionToolbar(selection: ReadonlySet<string>): TemplateResult {
+    const actions = this._config?.select?.actions ?? TreemapCard._DEFAULT_SELECT_ACTIONS;
+    return html`
+      <div class="treemap-selection">
+        <button
+          class="treemap-selection-close"
+          title="${localize(this.hass, 'select.cancel')}"
+          @click="${() => (this._selection = undefined)}"
+        >
+          <ha-icon icon="mdi:close"></ha-icon>
+        </button>
+        <span class="treemap-selection-count">
+          ${selection.size} ${localize(this.hass, 'select.selected')}
+        </span>
+        ${actions.map(
+          action => html`
+            <button
+              class="treemap-selection-action"
+              @click="${() => this._runSelectAction(action)}"
+            >
+              <ha-icon
+                icon="${action.icon ??
+                TreemapCard._SELECT_ACTION_ICONS[action.action] ??
+                'mdi:gesture-tap'}"
+              ></ha-icon>
+              ${this._getSelectActionName(action)}
+            </button>
+          `
+        )}
+      </div>
+    `;
+  }
+
+  private _getSelectActionName(action: TreemapSelectActionConfig): string {
+    if (action.name) return action.name;
+    if (action.action === 'call-service') return action.service;
+    if (action.action === 'brightness') {
+      return `${localize(this.hass, 'select.brightness')} ${action.brightness_pct} %`;
+    }
+    const key = `select.${action.action}`;
+    const name = localize(this.hass, key);
+    return name === key ? action.action : name;
+  }
+
+  /**
+   * Run a toolbar action on the selected entities and leave selection mode
+   */
+  private _runSelectAction(action: TreemapActionConfig): void {
+    const entityIds = [...(this._selection ?? [])];
+    this._selection = undefined;
+    this._executeAction(action, entityIds);
+  }
+
+  /**
+   * Add a tile to the selection or remove it (leaving selection mode when none are left)
+   */
+  private _toggleSelected(rect: TreemapRect): void {
+    if (!rect.entity_id || rect.aggregated) return;
+    const selection = new Set(this._selection);
+    if (selection.has(rect.entity_id)) {
+      selection.delete(rect.entity_id);
+    } else {
+      selection.add(rect.entity_id);
+    }
+    this._selection = selection.size > 0 ? selection : undefined;
+  }
+
+  /**
+   * Render breadcrumb navigation for the current zoom level
+   */
+  private _renderBreadcrumb(data: TreemapItem[]): TemplateResult {
+    const path = this._activeZoomPath;
+    const crumbs = path.map((name, index) => {
+      // The last segment may be a tile key (entity_id) - show the tile label instead
+      const tile = data.find(item => {
+        const tilePath = getTilePath(item);
+        return tilePath.length === index + 1 && tilePath[index] === name;
+      });
+      return { label: tile?.label ?? this._getPathLabel(name), path: path.slice(0, index + 1) };
+    });
+
+    return html`
+      <div class="treemap-breadcrumb">
+        <button class="treemap-crumb" @click="${() => this._zoomTo([])}">
+          <ha-icon icon="mdi:home-outline"></ha-icon>
+        </button>
+        ${crumbs.map(
+          (crumb, index) => html`
+            <span class="treemap-crumb-separator">›</span>
+            ${index === crumbs.length - 1
+              ? html`<span class="treemap-crumb current">${crumb.label}</span>`
+              : html`<button class="treemap-crumb" @click="${() => this._zoomTo(crumb.path)}">
+                  ${crumb.label}
+                </button>`}
+          `
+        )}
+      </div>
+    `;
+  }
+
+  /**
+   * Navigate to a zoom path ([] = root), animating in or out
+   */
+  private _zoomTo(path: string[]): void {
+    this._zoomDirection = path.length >= this._activeZoomPath.length ? 'in' : 'out';
+    this._zoomPath = path;
+  }
+
+  /**
+   * Zoom one level deeper towards a tile: into its next group, or onto the tile itself
+   */
+  private _zoomToward(rect: TreemapRect): void {
+    const [next] = getTilePath(rect);
+    // Already zoomed onto this tile - nothing deeper to show
+    if (next === undefined || this._activeZoomPath.at(-1) === next) return;
+    this._zoomTo([...this._activeZoomPath, next]);
+  }
+
+  /**
+   * Determine color for a treemap rect based on entity type and state.
+   * Priority: unavailable > state color > others color > categorical > domain handler > gradient
+   */
+  private _getRectColor(rect: TreemapRect, min: number, max: number): string {
+    // Failed expressions are shown in the error color
+    if (rect.error !== undefined) {
+      return this._getThemeColor(THEME_DEFAULTS.error);
+    }
+
+    // Unavailable entities always get gray color
+    if (rect.unavailable) {
+      return this._getThemeColor(this._config?.color?.unavailable ?? THEME_DEFAULTS.unavailable);
     }
 
+    // Categorical color of a mapped state
+    if (rect.stateColor) {
+      return this._getThemeColor(rect.stateColor);
+    }
+
+    const othersColor = this._config?.others?.color;
+    if (rect.aggregated && othersColor) {
+      return this._getThemeColor(othersColor);
+    }
+
+    // Categorical mode: color by state / attribute value instead of a gradient
+    if (this._config?.color?.mode === 'categorical') {
+      return getCategoricalColor(rect.colorCategory, this._getCategoricalColorOptions());
+    }
+
+    // Domain colors: light colors, HVAC colors, presence, ...
+    const handlerColor = getDomainHandler(rect.handler)?.getColor?.(rect, {
+      config: this._config,
+      getThemeColor: color => this._getThemeColor(color),
+      resolveColor: color => this._resolveColor(color),
+      getGradientColor: (value, low, high) => this._getColor(value, low, high),
+    });
+    if (handlerColor) return handlerColor;
+
     // Default: use gradient color
     return this._getColor(rect.colorValue, min, max);
   }
@@ -763,6 +1942,8 @@ export class TreemapCard extends LitElement {
    * Format label with replace regex and prefix/suffix.
    */
   private _formatLabel(rect: TreemapRect): string {
+    if (rect.aggregated) return `${rect.label} (${rect.aggregated.length})`;
+
     let displayLabel = rect.label;
 
     // Apply label replace regex if configured
@@ -791,29 +1972,45 @@ export class TreemapCard extends LitElement {
    * Format value with precision, abbreviation, prefix/suffix, and unit.
    */
   private _formatValue(rect: TreemapRect): string {
-    const valuePrefix = this._config?.value?.prefix;
-    const valueSuffix = this._config?.value?.suffix;
+    if (rect.error !== undefined) return rect.error;
 
     // Show raw state for unavailable entities, capitalized like HA does
     if (rect.unavailable && rect.rawState) {
       return rect.rawState.charAt(0).toUpperCase() + rect.rawState.slice(1);
     }
 
-    // Format numeric value
+    // Mapped states show their state text instead of the number
+    if (rect.stateLabel) return rect.stateLabel;
+
+    // Format numeric value (domain handlers may add to it, e.g. the media player state)
     const entityPrecision = rect.entity_id
       ? this.hass?.entities?.[rect.entity_id]?.display_precision
       : undefined;
+    const formatValue = (value: number): string =>
+      this._formatNumber(value, rect.unit, entityPrecision);
+    return (
+      getDomainHandler(rect.handler)?.formatValue?.(rect, formatValue) ?? formatValue(rect.value)
+    );
+  }
+
+  /**
+   * Format a number with precision, abbreviation, prefix/suffix, and unit.
+   * Shared by tiles and group headers.
+   */
+  private _formatNumber(value: number, unit?: string, entityPrecision?: number): string {
+    const valuePrefix = this._config?.value?.prefix;
+    const valueSuffix = this._config?.value?.suffix;
     const precision = resolvePrecision(this._config?.value?.precision, entityPrecision);
     const abbreviate = this._config?.value?.abbreviate ?? false;
-    const formattedNumber = formatNumber(rect.value, precision, abbreviate);
+    const formattedNumber = formatNumber(value, precision, abbreviate);
 
     // Add + sign for positive temp_offset values
     const isTemperatureOffset = this._config?.value?.attribute === 'temp_offset';
-    const signPrefix = isTemperatureOffset && rect.value > 0 ? '+' : '';
+    const signPrefix = isTemperatureOffset && value > 0 ? '+' : '';
 
     // If prefix or suffix is defined, use only those. Otherwise, auto-append unit from entity.
     const hasCustomFormat = valuePrefix !== undefined || valueSuffix !== undefined;
-    const unitSuffix = rect.unit ? ' ' + rect.unit : '';
+    const unitSuffix = unit ? ' ' + unit : '';
 
     return hasCustomFormat
       ? `${valuePrefix ?? ''}${signPrefix}${formattedNumber}${valueSuffix ?? ''}`
@@ -822,41 +2019,55 @@ export class TreemapCard extends LitElement {
 
   /**
    * Calculate styles for icon, label, and value based on color target mode.
+   * Tiles with an image (artwork) get the dimmed image as background instead.
    */
-  private _calculateStyles(color: string): {
+  private _calculateStyles(
+    color: string,
+    image?: string
+  ): {
     backgroundColor: string;
+    backgroundImage: string | undefined;
     iconStyle: string;
     labelStyle: string;
     valueStyle: string;
   } {
     const colorTarget = this._config?.color?.target ?? 'background';
-    const applyToForeground = colorTarget === 'foreground';
+    const applyToForeground = colorTarget === 'foreground' && !image;
 
     // Background color: calculated color for background mode, dark overlay for foreground mode
     const backgroundColor = applyToForeground ? 'rgba(0, 0, 0, 0.1)' : color;
 
+    // Artwork is darkened by a black overlay; text contrasts with the artwork's average
+    // brightness under it (taken as mid-gray, since the image itself cannot be measured)
+    const dim = Math.min(1, Math.max(0, this._config?.artwork?.dim ?? 0.5));
+    const shade = Math.round(128 * (1 - dim));
+    const backgroundImage = image
+      ? `linear-gradient(rgba(0, 0, 0, ${dim}), rgba(0, 0, 0, ${dim})), url("${image.replaceAll('"', '%22')}")`
+      : undefined;
+
     // Text/icon colors: calculated color for foreground mode, contrast colors for background mode
     const textColors = applyToForeground
       ? { icon: color, label: color, value: color }
-      : getContrastColors(color);
+      : getContrastColors(image ? `rgb(${shade}, ${shade}, ${shade})` : color);
 
     // Custom styles (user styles override auto contrast)
     const iconStyle = this._config?.icon?.style || `color: ${textColors.icon};`;
     const labelStyle = this._config?.label?.style || `color: ${textColors.label};`;
     const valueStyle = this._config?.value?.style || `color: ${textColors.value};`;
 
-    return { backgroundColor, iconStyle, labelStyle, valueStyle };
+    return { backgroundColor, backgroundImage, iconStyle, labelStyle, valueStyle };
   }
 
   private _renderRect(
     rect: TreemapRect,
     min: number,
     max: number,
-    _containerHeight: number,
+    containerHeight: number,
     gap: number
   ): TemplateResult {
     const color = this._getRectColor(rect, min, max);
-    const sizeClass = this._getSizeClass(rect);
+    const sizeClass = this._getSizeClass(rect, containerHeight);
+    const exiting = this._exitingTiles.has(getTileKey(rect));
     const isHvacActive =
       rect.climate?.hvacAction === 'heating' || rect.climate?.hvacAction === 'cooling';
 
@@ -865,26 +2076,44 @@ export class TreemapCard extends LitElement {
     const showValue = this._config?.value?.show ?? true;
 
     const formattedLabel = this._formatLabel(rect);
-    const formattedValue = this._formatValue(rect);
-    const { backgroundColor, iconStyle, labelStyle, valueStyle } = this._calculateStyles(color);
+    const adjusting = this._adjusting?.key === getTileKey(rect) ? this._adjusting : undefined;
+    const selected = rect.entity_id !== undefined && this._selection?.has(rect.entity_id) === true;
+    // Tiles dragged directly must not scroll the page on touch
+    const adjustable = this._isAdjustEnabled() && this._getAdjustControl(rect) !== undefined;
+    const formattedValue = adjusting
+      ? this._formatNumber(adjusting.value, rect.unit)
+      : this._formatValue(rect);
+    const image = this._config?.artwork?.show === false ? undefined : rect.image;
+    const { backgroundColor, backgroundImage, iconStyle, labelStyle, valueStyle } =
+      this._calculateStyles(color, image);
 
     const halfGap = gap / 2;
 
     return html`
       <div
-        class="treemap-item ${sizeClass}"
+        class="treemap-item ${sizeClass} ${exiting ? 'exiting' : ''} ${rect.error === undefined
+          ? ''
+          : 'error'} ${backgroundImage ? 'artwork' : ''} ${adjusting
+          ? 'adjusting'
+          : ''} ${adjustable
+          ? `adjustable-${this._config?.adjust?.direction ?? 'vertical'}`
+          : ''} ${selected ? 'selected' : ''}"
         style="
           left: calc(${rect.x}% + ${halfGap}px);
           top: calc(${rect.y}% + ${halfGap}px);
           width: calc(${rect.width}% - ${gap}px);
           height: calc(${rect.height}% - ${gap}px);
           background-color: ${backgroundColor};
+          ${backgroundImage ? `background-image: ${backgroundImage};` : ''}
         "
         @pointerdown="${(e: PointerEvent) => this._onPointerDown(e, rect)}"
         @pointerup="${(e: PointerEvent) => this._onPointerUp(e, rect)}"
-        @pointercancel="${() => this._clearHoldTimer()}"
-        title="${rect.label}: ${rect.value}"
+        @pointermove="${(e: PointerEvent) => this._onPointerMove(e)}"
+        @pointercancel="${() => this._onPointerCancel()}"
+        @touchmove="${this._touchMoveListener}"
+        title="${rect.label}: ${rect.error ?? rect.value}"
       >
+        ${adjusting ? this._renderAdjustBar(adjusting) : nothing}
         ${showIcon && (rect.icon || this._config?.icon?.icon)
           ? html`<ha-icon
               class="treemap-icon ${isHvacActive ? 'hvac-active' : ''}"
@@ -898,6 +2127,9 @@ export class TreemapCard extends LitElement {
         ${showValue
           ? html`<span class="treemap-value" style="${valueStyle}">${formattedValue}</span>`
           : nothing}
+        ${rect.secondary
+          ? html`<span class="treemap-secondary" style="${valueStyle}">${rect.secondary}</span>`
+          : nothing}
         ${this._config?.sparkline?.show !== false
           ? (() => {
               const sparklineData =
@@ -918,6 +2150,17 @@ export class TreemapCard extends LitElement {
     `;
   }
 
+  /**
+   * Bar filling the tile up to the dragged value (from the bottom, or the left)
+   */
+  private _renderAdjustBar({ control, value, horizontal }: AdjustState): TemplateResult {
+    const percent = ((value - control.min) / (control.max - control.min || 1)) * 100;
+    return html`<div
+      class="treemap-adjust-bar ${horizontal ? 'horizontal' : 'vertical'}"
+      style="${horizontal ? 'width' : 'height'}: ${percent}%"
+    ></div>`;
+  }
+
   /**
    * Get the effective action config for a rect, with per-entity override support.
    */
@@ -925,6 +2168,12 @@ export class TreemapCard extends LitElement {
     rect: TreemapRect,
     actionKey: 'tap_action' | 'hold_action' | 'double_tap_action'
   ): TreemapActionConfig {
+    // The "others" tile has no entity: tap zooms into the hidden items by default
+    if (rect.aggregated) {
+      if (actionKey !== 'tap_action') return { action: 'none' };
+      return this._config?.others?.tap_action ?? { action: 'zoom' };
+    }
+
     // Per-entity config takes precedence: check exact match, then wildcard patterns
     if (this._entityConfigMap.size > 0 && rect.entity_id) {
       // First try exact match
@@ -943,11 +2192,34 @@ export class TreemapCard extends LitElement {
     const globalAction = this._config?.[actionKey];
     if (globalAction) return globalAction;
 
+    // Domain defaults (e.g. media players play or pause on tap)
+    const handlerAction = getDomainHandler(rect.handler)?.actions?.[actionKey];
+    if (handlerAction) return handlerAction;
+
     // Defaults: tap → more-info, hold/double_tap → none
     return { action: actionKey === 'tap_action' ? 'more-info' : 'none' };
   }
 
-  private _executeAction(action: TreemapActionConfig, entityId: string | undefined): void {
+  /**
+   * Run an action on a tile, or on a list of entities (the selection toolbar).
+   * Entity lists are passed to services as entity_id lists.
+   */
+  private _executeAction(action: TreemapActionConfig, target: TreemapRect | string[]): void {
+    let rect: TreemapRect | undefined;
+    let entityIds: string[];
+    if (Array.isArray(target)) {
+      entityIds = target;
+    } else {
+      rect = target;
+      entityIds = target.entity_id === undefined ? [] : [target.entity_id];
+    }
+    const [entityId] = entityIds;
+    // A tile passes its entity_id as a string, a batch passes the list
+    const serviceTarget = (ids: string[]): string | string[] =>
+      rect?.entity_id !== undefined && ids.length === 1 ? rect.entity_id : ids;
+    const ofDomain = (domain: string): string[] =>
+      entityIds.filter(id => id.startsWith(`${domain}.`));
+
     switch (action.action) {
       case 'more-info':
         if (entityId) {
@@ -965,51 +2237,256 @@ export class TreemapCard extends LitElement {
         }
         break;
       case 'toggle':
-        if (entityId && this.hass) {
-          const domain = entityId.split('.')[0] ?? 'homeassistant';
-          void this.hass.callService(domain, 'toggle', { entity_id: entityId });
+        // Toggle per domain (light.toggle, cover.toggle, ...)
+        for (const domain of new Set(entityIds.map(id => id.split('.')[0] ?? 'homeassistant'))) {
+          void this.hass?.callService(domain, 'toggle', {
+            entity_id: serviceTarget(ofDomain(domain)),
+          });
+        }
+        break;
+      case 'turn-off':
+        if (entityIds.length > 0) {
+          void this.hass?.callService('homeassistant', 'turn_off', {
+            entity_id: serviceTarget(entityIds),
+          });
+        }
+        break;
+      case 'brightness': {
+        const lights = ofDomain('light');
+        if (lights.length > 0) {
+          void this.hass?.callService('light', 'turn_on', {
+            entity_id: serviceTarget(lights),
+            brightness_pct: action.brightness_pct,
+          });
         }
         break;
+      }
       case 'call-service':
         if ('service' in action && action.service && this.hass) {
           const parts = action.service.split('.');
           const domain = parts[0] ?? '';
           const service = parts[1] ?? '';
-          void this.hass.callService(domain, service, action.service_data);
+          const serviceData = rect
+            ? action.service_data
+            : { ...action.service_data, entity_id: entityIds };
+          void this.hass.callService(domain, service, serviceData);
+        }
+        break;
+      case 'play-pause': {
+        const players = ofDomain('media_player');
+        if (players.length > 0) {
+          void this.hass?.callService('media_player', 'media_play_pause', {
+            entity_id: serviceTarget(players),
+          });
         }
         break;
+      }
       case 'assist':
         fireEvent(this, 'hass-launch-voice-assistant', {});
         break;
+      case 'zoom':
+        if (rect) this._zoomToward(rect);
+        break;
       default:
         break;
     }
   }
 
+  private _isSelectEnabled(): boolean {
+    const select = this._config?.select;
+    return select !== undefined && select.enabled !== false;
+  }
+
+  private _isAdjustEnabled(): boolean {
+    const adjust = this._config?.adjust;
+    return adjust !== undefined && adjust.enabled !== false;
+  }
+
+  /**
+   * Get the drag control of a tile's entity, if its domain handler has one.
+   * Lights and climate can only be dragged with the adjust option.
+   */
+  private _getAdjustControl(rect: TreemapRect): AdjustControl | undefined {
+    const entity = rect.entity_id ? this.hass?.states[rect.entity_id] : undefined;
+    const handler = getDomainHandler(rect.handler);
+    if (!entity || (handler?.adjustOptIn && !this._isAdjustEnabled())) return undefined;
+    return handler?.getAdjust?.(rect, entity, this._config);
+  }
+
+  private _createAdjustState(e: PointerEvent, rect: TreemapRect): AdjustState | undefined {
+    const control = this._getAdjustControl(rect);
+    if (!control || !rect.entity_id) return undefined;
+    const horizontal = this._config?.adjust?.direction === 'horizontal';
+    const box =
+      e.currentTarget instanceof HTMLElement ? e.currentTarget.getBoundingClientRect() : undefined;
+    return {
+      key: getTileKey(rect),
+      entityId: rect.entity_id,
+      control,
+      horizontal,
+      start: horizontal ? e.clientX : e.clientY,
+      length: (horizontal ? box?.width : box?.height) || 100,
+      moved: false,
+      value: control.value,
+    };
+  }
+
+  /**
+   * Keep receiving moves when the pointer leaves the tile (missing in test DOMs)
+   */
+  private _capturePointer(tile: EventTarget | null, pointerId: number): void {
+    if (tile instanceof HTMLElement && 'setPointerCapture' in tile) {
+      tile.setPointerCapture(pointerId);
+    }
+  }
+
   private _onPointerDown(e: PointerEvent, rect: TreemapRect): void {
     // Only main button (touch or left mouse)
     if (e.button !== 0 && e.pointerType === 'mouse') return;
     this._holdFired = false;
     this._clearHoldTimer();
+    this._adjusting = undefined;
+    this._pendingAdjust = undefined;
+    // Selection mode: taps select tiles (on release)
+    if (this._selection) return;
 
+    // Adjustable tiles start a drag on hold, or on the first move with the adjust option
     const holdAction = this._getActionConfig(rect, 'hold_action');
-    if (holdAction.action === 'none') return;
-
+    const pending = this._createAdjustState(e, rect);
+    this._pendingAdjust = pending;
+    const tile = e.currentTarget;
+    if (pending && this._isAdjustEnabled()) this._capturePointer(tile, e.pointerId);
+    // With the select option, holding an entity tile enters selection mode, unless
+    // holding it already runs a hold action or starts a drag
+    const selectId =
+      this._isSelectEnabled() && !rect.aggregated && holdAction.action === 'none' && !pending
+        ? rect.entity_id
+        : undefined;
+    if (holdAction.action === 'none' && !pending && selectId === undefined) return;
+
+    const { pointerId } = e;
     this._holdTimer = setTimeout(() => {
       this._holdFired = true;
       this._clearHoldTimer();
-      this._executeAction(holdAction, rect.entity_id);
+      this._clearTapTimer();
+      if (selectId !== undefined) {
+        this._selection = new Set([selectId]);
+        return;
+      }
+      if (pending) {
+        this._capturePointer(tile, pointerId);
+        this._adjusting = pending;
+        return;
+      }
+      this._executeAction(holdAction, rect);
     }, TreemapCard._HOLD_THRESHOLD_MS);
   }
 
+  private _onPointerMove(e: PointerEvent): void {
+    let adjusting = this._adjusting;
+    const pending = this._pendingAdjust;
+    if (!pending) return;
+    const position = pending.horizontal ? e.clientX : e.clientY;
+
+    // Moving past the threshold: a drag, not a tap or hold
+    const moved = Math.abs(position - pending.start) >= TreemapCard._ADJUST_THRESHOLD_PX;
+    if (!adjusting && moved && this._isAdjustEnabled()) {
+      this._clearHoldTimer();
+      this._clearTapTimer();
+      this._holdFired = true;
+      adjusting = pending;
+    }
+    if (!adjusting) return;
+
+    // Dragging up (or right) raises the value
+    const { min, max, step, value: start, range = max - min } = adjusting.control;
+    const distance = adjusting.horizontal ? position - adjusting.start : adjusting.start - position;
+    const stepped = Math.round((start + (distance / adjusting.length) * range) / step) * step;
+    const value = Math.min(max, Math.max(min, Number(stepped.toFixed(2))));
+    if (value !== adjusting.value || (moved && !adjusting.moved) || adjusting !== this._adjusting) {
+      this._adjusting = { ...adjusting, value, moved: adjusting.moved || moved };
+    }
+  }
+
+  private _onPointerCancel(): void {
+    this._clearHoldTimer();
+    this._adjusting = undefined;
+    this._pendingAdjust = undefined;
+  }
+
+  // Touch scrolling would cancel the pointer while a tile is dragged (non-passive to prevent it)
+  private readonly _touchMoveListener = {
+    handleEvent: (e: TouchEvent): void => {
+      if (this._adjusting) e.preventDefault();
+    },
+    passive: false,
+  };
+
+  /**
+   * Set the dragged value, or run the hold action when the pointer was not dragged
+   */
+  private _finishAdjust(adjusting: AdjustState, rect: TreemapRect): void {
+    this._adjusting = undefined;
+    const { control, entityId, value, moved } = adjusting;
+    if (!moved) {
+      const holdAction = this._getActionConfig(rect, 'hold_action');
+      if (holdAction.action !== 'none') this._executeAction(holdAction, rect);
+      return;
+    }
+    if (value === control.value) return;
+    const [domain = '', service = ''] = control.service.split('.');
+    void this.hass?.callService(domain, service, { entity_id: entityId, [control.field]: value });
+  }
+
   private _onPointerUp(e: PointerEvent, rect: TreemapRect): void {
     if (e.button !== 0 && e.pointerType === 'mouse') return;
     this._clearHoldTimer();
+    this._pendingAdjust = undefined;
+    if (this._adjusting) {
+      this._finishAdjust(this._adjusting, rect);
+      return;
+    }
     if (this._holdFired) return; // hold already handled
+    if (this._selection) {
+      this._toggleSelected(rect);
+      return;
+    }
 
     const tapAction = this._getActionConfig(rect, 'tap_action');
-    if (tapAction.action === 'none') return;
-    this._executeAction(tapAction, rect.entity_id);
+    const doubleTapAction = this._getActionConfig(rect, 'double_tap_action');
+
+    // Without a double tap action, taps fire immediately
+    if (doubleTapAction.action === 'none') {
+      if (tapAction.action === 'none') return;
+      this._executeAction(tapAction, rect);
+      return;
+    }
+
+    // Second tap on the same tile within the window: double tap
+    const key = getTileKey(rect);
+    if (this._tapTimer !== null && this._pendingTapKey === key) {
+      this._clearTapTimer();
+      this._executeAction(doubleTapAction, rect);
+      return;
+    }
+
+    // First tap: wait for a possible second tap before running the tap action
+    this._clearTapTimer();
+    this._pendingTapKey = key;
+    this._tapTimer = setTimeout(() => {
+      this._clearTapTimer();
+      if (tapAction.action !== 'none') {
+        this._executeAction(tapAction, rect);
+      }
+    }, this._config?.double_tap_window ?? TreemapCard._DOUBLE_TAP_WINDOW_MS);
+  }
+
+  private _clearTapTimer(): void {
+    if (this._tapTimer !== null) {
+      clearTimeout(this._tapTimer);
+      this._tapTimer = null;
+    }
+    this._pendingTapKey = undefined;
   }
 
   private _clearHoldTimer(): void {
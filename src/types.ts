@@ -32,14 +32,54 @@ export interface EntityRegistryDisplayEntry {
   translation_key?: string;
   platform?: string;
   display_precision?: number;
+  labels?: string[];
+}
+
+/**
+ * Device registry entry (subset of hass.devices)
+ */
+export interface DeviceRegistryEntry {
+  id: string;
+  name?: string | null;
+  name_by_user?: string | null;
+  area_id?: string | null;
+}
+
+/**
+ * Area registry entry (subset of hass.areas)
+ */
+export interface AreaRegistryEntry {
+  area_id: string;
+  name: string;
+  floor_id?: string | null;
+}
+
+/**
+ * Floor registry entry (subset of hass.floors)
+ */
+export interface FloorRegistryEntry {
+  floor_id: string;
+  name: string;
+  level?: number | null;
 }
 
 export interface HomeAssistant {
   states: Record<string, HassEntity>;
   entities?: Record<string, EntityRegistryDisplayEntry>;
+  devices?: Record<string, DeviceRegistryEntry>;
+  areas?: Record<string, AreaRegistryEntry>;
+  floors?: Record<string, FloorRegistryEntry>;
   callService: (domain: string, service: string, data?: Record<string, unknown>) => Promise<void>;
   callWS: <T>(message: Record<string, unknown>) => Promise<T>;
+  // Websocket connection for subscriptions (render_template)
+  connection?: {
+    subscribeMessage: (
+      callback: (message: unknown) => void,
+      message: Record<string, unknown>
+    ) => Promise<() => Promise<void>>;
+  };
   language?: string; // User's language setting (e.g., 'en', 'de', 'fr')
+  themes?: { theme?: string; darkMode?: boolean }; // Active theme (colors are re-resolved on change)
   user?: { id: string }; // Used by handleActionConfig for confirmation exemptions
 }
 
@@ -49,9 +89,45 @@ export interface HomeAssistant {
 export type ColorApplyTarget = 'background' | 'foreground';
 
 import type { EntityConfig, ActionConfig } from 'custom-card-helpers';
+import type { ColorInterpolation } from './utils/color-spaces';
+import type { PaletteName } from './utils/palettes';
+import type { StatisticsPeriod, StatType } from './utils/statistics';
 
-/** Extended action config including assist (not yet in custom-card-helpers) */
-export type TreemapActionConfig = ActionConfig | { action: 'assist' };
+/**
+ * Extended action config including assist (not yet in custom-card-helpers),
+ * zoom (card-specific drill-down into a group or tile), play-pause (media players),
+ * turn-off and brightness (lights)
+ */
+export type TreemapActionConfig =
+  | ActionConfig
+  | { action: 'assist' }
+  | { action: 'zoom' }
+  | { action: 'play-pause' }
+  | { action: 'turn-off' }
+  | { action: 'brightness'; brightness_pct: number };
+
+/**
+ * Selection toolbar button: an action run on all selected entities
+ */
+export type TreemapSelectActionConfig = TreemapActionConfig & {
+  name?: string; // Button text (default: name of the action)
+  icon?: string; // Button icon (default: icon of the action)
+};
+
+/**
+ * Mapped state: number for size/value/color, color for categorical coloring,
+ * and optional display text (defaults to the capitalized state)
+ */
+export interface StateMapEntry {
+  value?: number;
+  color?: string;
+  label?: string;
+}
+
+/**
+ * Map of state strings to a number (`on: 1`), a color (`open: red`) or both
+ */
+export type StateMap = Record<string, number | string | StateMapEntry>;
 
 /**
  * Treemap entity config - extends HA EntityConfig with per-entity action overrides
@@ -60,6 +136,7 @@ export interface TreemapEntityConfig extends EntityConfig {
   tap_action?: TreemapActionConfig;
   hold_action?: TreemapActionConfig;
   double_tap_action?: TreemapActionConfig;
+  state_map?: StateMap; // Per-entity state mapping (overrides card-level state_map)
 }
 
 /**
@@ -71,6 +148,22 @@ export interface TreemapEntityConfig extends EntityConfig {
  */
 export type EntityInput = string | TreemapEntityConfig;
 
+/**
+ * JSON source: an entity holding a list in its attributes, with its own field mapping.
+ * Field paths default to the card's label/value/size/color/icon/sparkline attributes.
+ */
+export interface TreemapJsonSourceConfig {
+  entity: string;
+  name?: string; // Source name recorded on its tiles (default: friendly_name)
+  data_attribute?: string; // Path of the list (default: card data_attribute, then 'items')
+  label?: string;
+  value?: string;
+  size?: string;
+  color?: string;
+  icon?: string;
+  sparkline?: string;
+}
+
 /**
  * Type guard for object-style entity config
  */
@@ -78,6 +171,24 @@ export function isEntityConfig(e: EntityInput): e is TreemapEntityConfig {
   return typeof e === 'object' && e !== null && 'entity' in e && typeof e.entity === 'string';
 }
 
+/**
+ * Native entity filter, resolved against the HA registries and state attributes.
+ * Every key narrows the selection; a list matches any of its values.
+ */
+export interface TreemapIncludeFilter {
+  area?: string | string[]; // Area id or name (entity area, or its device's area)
+  floor?: string | string[]; // Floor id or name
+  device?: string | string[]; // Device id or name
+  label?: string | string[]; // Label id
+  domain?: string | string[]; // Entity domain (e.g. 'sensor')
+  device_class?: string | string[]; // device_class attribute (e.g. 'power')
+  integration?: string | string[]; // Integration that provides the entity (e.g. 'shelly')
+  platform?: string | string[]; // Alias for integration
+  attributes?: Record<string, string | number | boolean>; // Attribute equality
+  hidden?: boolean; // Include entities hidden in HA (default: false)
+  entity_category?: boolean; // Include config/diagnostic entities (default: false)
+}
+
 /**
  * Card configuration
  */
@@ -95,20 +206,77 @@ export interface TreemapCardConfig {
   entities?: EntityInput[];
   // Exclude entities matching these patterns (supports wildcards with *)
   exclude?: string[];
+  // Select entities by area, floor, device, label, domain, device_class, integration
+  // or attributes. Narrows `entities` when both are set, otherwise selects from all entities
+  include?: TreemapIncludeFilter;
+  // Map non-numeric states (on/off, open/closed, ...) to numbers and colors.
+  // Merged over built-in defaults for common domains
+  state_map?: StateMap;
   // Mode 3: Single entity containing data array in attributes
   entity?: string;
   // Attribute name containing the data array (default: 'items')
   data_attribute?: string;
+  // Several JSON entities merged into one treemap (can be mixed with entities)
+  sources?: TreemapJsonSourceConfig[];
+  // Mode 4: Home Assistant template rendering a JSON list (or an object with data_attribute),
+  // kept up to date through a render_template subscription
+  data_template?: string;
+  // Mode 5: devices of the Energy dashboard (energy/get_prefs), valued by their consumption
+  energy?: {
+    period?: StatisticsPeriod; // today, yesterday, this_week, this_month or e.g. '6h' (default: 'today')
+    sources?: boolean; // Also show grid, solar and battery tiles (default: false)
+  };
   // Height of the treemap in pixels (default: auto based on item count)
   height?: number;
   // Gap between rectangles in pixels (default: 6)
   gap?: number;
+  // Layout algorithm configuration
+  layout?: {
+    algorithm?: 'squarify' | 'strip' | 'slice_dice' | 'pivot'; // Tile arrangement (default: 'squarify')
+    stable?: boolean; // Keep tiles in place between updates (default: false)
+    max_aspect_ratio?: number; // Stable mode: worst tile aspect ratio before re-layout (default: 3)
+  };
+  // Layout transitions (disabled automatically when the user prefers reduced motion)
+  animation?: {
+    enabled?: boolean; // Animate position, size and color changes (default: true)
+    duration?: number; // Transition duration in ms (default: 300, 0 disables)
+  };
+  // Drag light, climate, cover and fan tiles to set brightness, temperature, position or speed
+  adjust?: {
+    enabled?: boolean; // Enable dragging (default: true when adjust is configured)
+    direction?: 'vertical' | 'horizontal'; // Drag direction (default: 'vertical')
+  };
+  // Multi-select: hold a tile to select tiles, then run a toolbar action on all of them
+  select?: {
+    enabled?: boolean; // Enable selection (default: true when select is configured)
+    actions?: TreemapSelectActionConfig[]; // Toolbar actions (default: toggle and turn off)
+  };
   // Sort order: 'desc' (largest first, default) or 'asc' (smallest first)
   order?: 'asc' | 'desc';
   // Sort by: what to sort items by (default: 'value')
   sort_by?: 'value' | 'entity_id' | 'label' | 'default';
   // Limit number of items shown
   limit?: number;
+  // Aggregate items cut off by limit into a single "Other (N)" tile
+  others?: {
+    show?: boolean; // Show the aggregate tile (default: true when others is configured)
+    label?: string; // Tile label, followed by the item count (default: localized 'Other')
+    color?: string; // Tile color (default: gradient color of the average color value)
+    icon?: string; // Tile icon (default: mdi:dots-horizontal)
+    tap_action?: TreemapActionConfig; // Action on tap (default: zoom into the hidden items)
+  };
+  // Group tiles into nested frames: 'area', 'floor', 'device', 'domain', 'label',
+  // or any attribute/JSON field. Use a list for two levels (e.g. [floor, area])
+  group_by?: string | string[];
+  // Group frame configuration
+  group?: {
+    aggregate?: 'sum' | 'mean' | 'min' | 'max'; // How the header value is computed (default: 'sum')
+    style?: string; // Custom CSS for group frames
+    header?: {
+      show?: boolean; // Show group header with name and aggregated value (default: true)
+      style?: string; // Custom CSS for group header
+    };
+  };
   // Filter configuration
   filter?: {
     above?: number; // Only include values > this
@@ -133,11 +301,20 @@ export interface TreemapCardConfig {
     icon?: string; // Static icon for all items (e.g., 'mdi:home-thermometer-outline')
     style?: string; // Custom CSS for icon
   };
+  // Artwork configuration (media player album art as tile background)
+  artwork?: {
+    show?: boolean; // Show artwork (default: true)
+    dim?: number; // Darken the artwork so text stays readable, 0-1 (default: 0.5)
+  };
   // Value configuration (displayed value)
   value?: {
     show?: boolean; // Show value (default: true)
     attribute?: string; // Field/attribute for value (default: 'state' for entities, 'value' for JSON)
     param?: string; // Deprecated alias for 'attribute'
+    expression?: string; // Computed value, e.g. 'voltage * current' (replaces attribute)
+    source?: 'state' | 'statistics'; // Read the state, or aggregate recorder statistics (default: 'state')
+    stat_type?: StatType; // Statistics aggregate: change, sum, mean, min, max (default: 'change')
+    period?: StatisticsPeriod; // Statistics period: today, yesterday, this_week, this_month or e.g. '6h' (default: 'today')
     precision?: number; // Decimal places (default: entity's display_precision or 1)
     abbreviate?: boolean; // Abbreviate large numbers: k, M, B, T (default: false)
     prefix?: string; // Prefix to add before value
@@ -149,6 +326,7 @@ export interface TreemapCardConfig {
     equal?: boolean; // Equal size rectangles (default: false)
     attribute?: string; // Field/attribute for sizing (default: same as value.attribute)
     param?: string; // Deprecated alias for 'attribute'
+    expression?: string; // Computed size (default: the value)
     inverse?: boolean; // Inverse sizing - low values get bigger rectangles (default: false)
     min?: number; // Minimum size value floor (default: 5% of max, ensures 0-value items visible)
     max?: number; // Maximum size value cap (useful for limiting outliers)
@@ -156,6 +334,18 @@ export interface TreemapCardConfig {
   // Color gradient configuration
   color?: {
     target?: ColorApplyTarget; // Where to apply the color: 'background' (default) or 'foreground'
+    // 'gradient' (default) colors by numeric value, 'bands' uses hard color.stops bands,
+    // 'categorical' looks up color.map
+    mode?: 'gradient' | 'bands' | 'categorical';
+    // Color stops (any number), replacing low/mid/high. Gradient mode interpolates between
+    // them, bands mode uses the color of the highest stop at or below the value
+    stops?: { value: number; color: string }[];
+    // Named palette used instead of low/mid/high (and for unmapped categories):
+    // 'viridis', 'cividis', 'red_blue' (diverging) or 'okabe_ito' (categorical)
+    palette?: PaletteName;
+    interpolation?: ColorInterpolation; // Color space for blending: rgb (default), hsl, lab, oklch
+    map?: Record<string, string>; // Categorical: state/attribute value -> color
+    fallback?: string; // Categorical: color for values missing from the map (default: #868e96 gray)
     low?: string; // Color for low values (default: #b91c1c red)
     mid?: string; // Color for middle/neutral values (optional, e.g., #00b6ed blue)
     high?: string; // Color for high values (default: #16a34a green)
@@ -163,6 +353,7 @@ export interface TreemapCardConfig {
     opacity?: number; // Opacity 0-1 (e.g., 0.5 for 50% transparent)
     attribute?: string; // Field/attribute for color calculation (default: same as value.attribute)
     param?: string; // Deprecated alias for 'attribute'
+    expression?: string; // Computed color value (default: the value)
     scale?: {
       neutral?: number; // Value where color is neutral/center (e.g., 0)
       min?: number; // Value at which color is fully low (e.g., -8 for full red)
@@ -176,12 +367,20 @@ export interface TreemapCardConfig {
       off?: string; // Color when off (default: #868e96 gray)
     };
   };
+  // Color legend: gradient bar with tick labels, or swatches for categorical / HVAC colors
+  legend?: {
+    show?: boolean; // Show the legend (default: true when the legend block is set)
+    position?: 'top' | 'bottom' | 'left' | 'right'; // Where to place the legend (default: 'bottom')
+    ticks?: number; // Number of tick labels on a smooth gradient bar (default: 5)
+  };
   // Custom CSS for the entire card
   card_style?: string;
   // Action configuration (standard HA action pattern)
   tap_action?: TreemapActionConfig;
   hold_action?: TreemapActionConfig;
   double_tap_action?: TreemapActionConfig;
+  // Max time between taps for double_tap_action in ms (default: 250)
+  double_tap_window?: number;
   // Sparkline configuration
   sparkline?: {
     show?: boolean; // Show sparklines (default: true)
@@ -239,9 +438,20 @@ export interface TreemapItem {
   unit?: string; // Unit of measurement (e.g., °C, %, kWh)
   light?: LightColorInfo; // Light-specific color info (only for light.* entities)
   climate?: ClimateInfo; // Climate-specific info (only for climate.* entities)
+  handler?: string; // Domain handler that built the tile (light, cover, ...)
   sparklineData?: number[]; // Inline sparkline data (JSON mode)
   unavailable?: boolean; // True if entity state is unavailable/unknown/none
-  rawState?: string; // Original state string (for unavailable entities)
+  rawState?: string; // Original state string (unavailable entities, domain handlers)
+  stateColor?: string; // Categorical color from state_map
+  stateLabel?: string; // Display text of a mapped state (shown instead of the number)
+  image?: string; // Background image (media player artwork)
+  secondary?: string; // Secondary text below the value (now playing)
+  error?: string; // Why the tile's expression failed (rendered as an error tile)
+  colorCategory?: string; // Raw color attribute value (categorical color mode)
+  group?: string[]; // Group names from outermost to innermost (group_by / JSON children)
+  source?: string; // Name of the JSON source the tile came from (sources)
+  aggregated?: TreemapItem[]; // Items summed into this tile (the "others" tile)
+  key?: string; // Unique tile key, set when getTileKey repeats (e.g. JSON items sharing a label)
 }
 
 /**
@@ -258,9 +468,36 @@ export interface TreemapRect {
   unit?: string; // Unit of measurement (e.g., °C, %, kWh)
   light?: LightColorInfo; // Light-specific color info (only for light.* entities)
   climate?: ClimateInfo; // Climate-specific info (only for climate.* entities)
+  handler?: string; // Domain handler that built the tile (light, cover, ...)
   sparklineData?: number[]; // Inline sparkline data (JSON mode)
   unavailable?: boolean; // True if entity state is unavailable/unknown/none
-  rawState?: string; // Original state string (for unavailable entities)
+  rawState?: string; // Original state string (unavailable entities, domain handlers)
+  stateColor?: string; // Categorical color from state_map
+  stateLabel?: string; // Display text of a mapped state (shown instead of the number)
+  image?: string; // Background image (media player artwork)
+  secondary?: string; // Secondary text below the value (now playing)
+  error?: string; // Why the tile's expression failed (rendered as an error tile)
+  colorCategory?: string; // Raw color attribute value (categorical color mode)
+  group?: string[]; // Group names from outermost to innermost (group_by / JSON children)
+  source?: string; // Name of the JSON source the tile came from (sources)
+  aggregated?: TreemapItem[]; // Items summed into this tile (the "others" tile)
+  key?: string; // Unique tile key, set when getTileKey repeats (e.g. JSON items sharing a label)
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Group frame with position (hierarchical treemap)
+ */
+export interface TreemapGroupRect {
+  label: string;
+  path: string[]; // Group names from outermost to this group
+  value: number; // Aggregated display value of all tiles in the group
+  unit?: string; // Shared unit of measurement (only if all tiles agree)
+  count: number; // Number of tiles in the group
+  depth: number; // 0 for outermost groups
   x: number;
   y: number;
   width: number;
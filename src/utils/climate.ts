@@ -3,7 +3,10 @@
  */
 
 import type { ClimateInfo, HassEntity } from '../types';
-import { getNumber, getHvacAction } from './predicates';
+import type { DomainHandler } from './domains';
+import { getPath } from './paths';
+import { getNumber, getHvacAction, getString } from './predicates';
+import { THEME_DEFAULTS } from './theme';
 
 /**
  * Check if entity is a climate/thermostat
@@ -88,3 +91,104 @@ export function getClimateValue(climate: ClimateInfo, attribute: string): number
   }
   return null;
 }
+
+/**
+ * Get the icon for an HVAC action
+ */
+function getClimateIcon({ attributes }: HassEntity): string {
+  switch (getHvacAction(attributes['hvac_action'])) {
+    case 'heating': {
+      return 'mdi:fire';
+    }
+    case 'cooling': {
+      return 'mdi:snowflake';
+    }
+    case 'off': {
+      return 'mdi:thermostat-off';
+    }
+    default: {
+      return 'mdi:thermostat';
+    }
+  }
+}
+
+/**
+ * Climate entities: temperatures (or computed offsets) as value, HVAC colors
+ */
+export const climateHandler: DomainHandler = {
+  name: 'climate',
+  matches: isClimateEntity,
+  getIcon: getClimateIcon,
+  resolveItem: ({ entityId, entity, label, icon, config }) => {
+    const climateInfo = extractClimateInfo(entity);
+
+    // Determine what to display/size/color based on config
+    const valueAttribute = config?.value?.attribute || 'current_temperature';
+    const sizeAttribute = config?.size?.attribute || valueAttribute;
+    const colorAttribute = config?.color?.attribute || valueAttribute;
+
+    // Get values (supports computed attributes like temp_difference, temp_offset),
+    // falling back to entity attributes if not a computed value
+    const getValue = (attribute: string): number | string =>
+      getClimateValue(climateInfo, attribute) ??
+      getNumber(getPath(entity.attributes, attribute)) ??
+      0;
+    const displayValue = getValue(valueAttribute);
+    const sizeValue = getValue(sizeAttribute);
+    const colorValue = getValue(colorAttribute);
+
+    // For numeric operations, convert to numbers
+    const numberDisplayValue = typeof displayValue === 'number' ? displayValue : 0;
+    // Ensure sizeValue has a minimum so items are always visible
+    const numberSizeValue =
+      typeof sizeValue === 'number' ? Math.max(0.1, Math.abs(sizeValue)) : 0.1;
+    const numberColorValue = typeof colorValue === 'number' ? colorValue : 0;
+
+    return {
+      label,
+      value: numberDisplayValue,
+      sizeValue: numberSizeValue,
+      sortValue: numberDisplayValue,
+      colorValue: numberColorValue,
+      entity_id: entityId,
+      icon,
+      unit: getString(entity.attributes['unit_of_measurement']),
+      climate: climateInfo,
+    };
+  },
+  getColor: ({ climate }, { config, getThemeColor }) => {
+    if (!climate) return undefined;
+
+    // Climate entities that are off or unavailable always get gray color
+    if (climate.hvacMode === 'off' || climate.hvacMode === 'unavailable') {
+      return getThemeColor(config?.color?.hvac?.off ?? THEME_DEFAULTS.hvacOff);
+    }
+
+    // HVAC colors only override when ACTIVELY heating/cooling
+    const hvacConfig = config?.color?.hvac;
+    if (climate.hvacAction === 'heating' && hvacConfig?.heating) {
+      return getThemeColor(hvacConfig.heating);
+    }
+    if (climate.hvacAction === 'cooling' && hvacConfig?.cooling) {
+      return getThemeColor(hvacConfig.cooling);
+    }
+    // idle, off, or no active action - fall through to gradient
+    return undefined;
+  },
+  // Target temperature (adjust option); not in heat_cool mode, which has a target range
+  adjustOptIn: true,
+  getAdjust: ({ climate }, { attributes }) => {
+    const target = climate?.targetTemperature;
+    if (target === null || target === undefined) return undefined;
+    const fahrenheit = getString(attributes['unit_of_measurement']) === '°F';
+    return {
+      service: 'climate.set_temperature',
+      field: 'temperature',
+      value: target,
+      min: getNumber(attributes['min_temp']) ?? (fahrenheit ? 45 : 7),
+      max: getNumber(attributes['max_temp']) ?? (fahrenheit ? 95 : 35),
+      step: getNumber(attributes['target_temp_step']) ?? (fahrenheit ? 1 : 0.5),
+      range: fahrenheit ? 20 : 10, // A drag across the tile changes the target by up to 10 °C
+    };
+  },
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { mixColors, type ColorInterpolation } from './color-spaces';
+
+const RED: [number, number, number] = [255, 0, 0];
+const GREEN: [number, number, number] = [0, 255, 0];
+const WHITE: [number, number, number] = [255, 255, 255];
+const BLACK: [number, number, number] = [0, 0, 0];
+
+function round(rgb: [number, number, number]): number[] {
+  return rgb.map(channel => Math.round(channel));
+}
+
+describe('mixColors', () => {
+  it.each<ColorInterpolation>(['rgb', 'hsl', 'lab', 'oklch'])(
+    'returns the end colors at factor 0 and 1 (%s)',
+    interpolation => {
+      expect(round(mixColors(RED, GREEN, 0, interpolation))).toEqual([255, 0, 0]);
+      expect(round(mixColors(RED, GREEN, 1, interpolation))).toEqual([0, 255, 0]);
+    }
+  );
+
+  it('blends channels linearly in rgb (default)', () => {
+    expect(round(mixColors(RED, GREEN, 0.5))).toEqual([128, 128, 0]);
+  });
+
+  it('travels around the hue wheel in hsl', () => {
+    // Halfway between red (0°) and green (120°) is yellow (60°)
+    expect(round(mixColors(RED, GREEN, 0.5, 'hsl'))).toEqual([255, 255, 0]);
+  });
+
+  it('keeps the midpoint of red and green brighter than rgb in lab and oklch', () => {
+    const sum = (rgb: [number, number, number]) => rgb[0] + rgb[1] + rgb[2];
+    const rgbMid = sum(mixColors(RED, GREEN, 0.5));
+    expect(sum(mixColors(RED, GREEN, 0.5, 'lab'))).toBeGreaterThan(rgbMid);
+    expect(sum(mixColors(RED, GREEN, 0.5, 'oklch'))).toBeGreaterThan(rgbMid);
+  });
+
+  it('mixes grays without a hue shift in oklch and hsl', () => {
+    for (const interpolation of ['oklch', 'hsl'] as const) {
+      const [r, g, b] = round(mixColors(BLACK, WHITE, 0.5, interpolation));
+      expect(r).toBe(g);
+      expect(g).toBe(b);
+    }
+  });
+
+  it('keeps the hue of a colored end when mixing with gray in oklch', () => {
+    const [r = 0, g = 0, b = 0] = round(mixColors(WHITE, RED, 0.5, 'oklch'));
+    // A pinkish red: no drift towards another hue
+    expect(r).toBeGreaterThan(g + 50);
+    expect(Math.abs(g - b)).toBeLessThan(25);
+  });
+
+  it('stays within the sRGB range', () => {
+    for (const channel of mixColors([0, 0, 255], [255, 255, 0], 0.5, 'oklch')) {
+      expect(channel).toBeGreaterThanOrEqual(0);
+      expect(channel).toBeLessThanOrEqual(255);
+    }
+  });
+});
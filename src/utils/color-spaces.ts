@@ -0,0 +1,179 @@
+/**
+ * Color space conversions for perceptual interpolation
+ *
+ * Colors are mixed in the chosen space and converted back to sRGB.
+ * Lab and OKLCH keep lightness even along the way, so red -> green
+ * no longer passes through a muddy brown like plain sRGB blending does.
+ * References: CIE 1976 L*a*b* (D65), Björn Ottosson's OKLab.
+ */
+
+export type ColorInterpolation = 'rgb' | 'hsl' | 'lab' | 'oklch';
+
+type Triple = [number, number, number];
+
+/**
+ * sRGB channel (0-255) to linear light (0-1)
+ */
+function toLinear(channel: number): number {
+  const normalized = channel / 255;
+  return normalized <= 0.040_45 ? normalized / 12.92 : Math.pow((normalized + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * Linear light (0-1) to sRGB channel (0-255, clamped)
+ */
+function fromLinear(value: number): number {
+  const encoded = value <= 0.003_130_8 ? value * 12.92 : 1.055 * Math.pow(value, 1 / 2.4) - 0.055;
+  return Math.max(0, Math.min(255, encoded * 255));
+}
+
+function rgbToHsl([r, g, b]: Triple): Triple {
+  const red = r / 255;
+  const green = g / 255;
+  const blue = b / 255;
+  const max = Math.max(red, green, blue);
+  const min = Math.min(red, green, blue);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+  if (delta === 0) return [Number.NaN, 0, lightness];
+
+  const saturation = delta / (1 - Math.abs(2 * lightness - 1));
+  let hue: number;
+  if (max === red) hue = ((green - blue) / delta) % 6;
+  else if (max === green) hue = (blue - red) / delta + 2;
+  else hue = (red - green) / delta + 4;
+  return [(hue * 60 + 360) % 360, saturation, lightness];
+}
+
+function hslToRgb([h, s, l]: Triple): Triple {
+  const hue = Number.isNaN(h) ? 0 : h;
+  const chroma = (1 - Math.abs(2 * l - 1)) * s;
+  const x = chroma * (1 - Math.abs(((hue / 60) % 2) - 1));
+  const m = l - chroma / 2;
+  const sectors: Triple[] = [
+    [chroma, x, 0],
+    [x, chroma, 0],
+    [0, chroma, x],
+    [0, x, chroma],
+    [x, 0, chroma],
+    [chroma, 0, x],
+  ];
+  const [r, g, b] = sectors[Math.floor(hue / 60) % 6] ?? [0, 0, 0];
+  return [(r + m) * 255, (g + m) * 255, (b + m) * 255];
+}
+
+// D65 reference white
+const WHITE: Triple = [0.950_47, 1, 1.088_83];
+
+function labF(t: number): number {
+  return t > 216 / 24_389 ? Math.cbrt(t) : ((24_389 / 27) * t + 16) / 116;
+}
+
+function labFInverse(t: number): number {
+  return t * t * t > 216 / 24_389 ? t * t * t : (116 * t - 16) / (24_389 / 27);
+}
+
+function rgbToLab(rgb: Triple): Triple {
+  const [r = 0, g = 0, b = 0] = rgb.map(channel => toLinear(channel));
+  const x = (0.412_456_4 * r + 0.357_576_1 * g + 0.180_437_5 * b) / WHITE[0];
+  const y = (0.212_672_9 * r + 0.715_152_2 * g + 0.072_175 * b) / WHITE[1];
+  const z = (0.019_333_9 * r + 0.119_192 * g + 0.950_304_1 * b) / WHITE[2];
+  const fx = labF(x);
+  const fy = labF(y);
+  const fz = labF(z);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+function labToRgb([l, a, bValue]: Triple): Triple {
+  const fy = (l + 16) / 116;
+  const x = labFInverse(fy + a / 500) * WHITE[0];
+  const y = labFInverse(fy) * WHITE[1];
+  const z = labFInverse(fy - bValue / 200) * WHITE[2];
+  return [
+    fromLinear(3.240_454_2 * x - 1.537_138_5 * y - 0.498_531_4 * z),
+    fromLinear(-0.969_266 * x + 1.876_010_8 * y + 0.041_556 * z),
+    fromLinear(0.055_643_4 * x - 0.204_025_9 * y + 1.057_225_2 * z),
+  ];
+}
+
+function rgbToOklch(rgb: Triple): Triple {
+  const [r = 0, g = 0, b = 0] = rgb.map(channel => toLinear(channel));
+  const lms = [
+    Math.cbrt(0.412_221_470_8 * r + 0.536_332_536_3 * g + 0.051_445_992_9 * b),
+    Math.cbrt(0.211_903_498_2 * r + 0.680_699_545_1 * g + 0.107_396_956_6 * b),
+    Math.cbrt(0.088_302_461_9 * r + 0.281_718_837_6 * g + 0.629_978_700_5 * b),
+  ];
+  const [l1 = 0, m1 = 0, s1 = 0] = lms;
+  const lightness = 0.210_454_255_3 * l1 + 0.793_617_785 * m1 - 0.004_072_046_8 * s1;
+  const a = 1.977_998_495_1 * l1 - 2.428_592_205 * m1 + 0.450_593_709_9 * s1;
+  const bAxis = 0.025_904_037_1 * l1 + 0.782_771_766_2 * m1 - 0.808_675_766 * s1;
+  const chroma = Math.hypot(a, bAxis);
+  // Achromatic colors have no hue; NaN lets interpolation take the other color's hue
+  const hue = chroma < 1e-4 ? Number.NaN : ((Math.atan2(bAxis, a) * 180) / Math.PI + 360) % 360;
+  return [lightness, chroma, hue];
+}
+
+function oklchToRgb([lightness, chroma, h]: Triple): Triple {
+  const hue = Number.isNaN(h) ? 0 : (h * Math.PI) / 180;
+  const a = chroma * Math.cos(hue);
+  const b = chroma * Math.sin(hue);
+  const l1 = Math.pow(lightness + 0.396_337_777_4 * a + 0.215_803_757_3 * b, 3);
+  const m1 = Math.pow(lightness - 0.105_561_345_8 * a - 0.063_854_172_8 * b, 3);
+  const s1 = Math.pow(lightness - 0.089_484_177_5 * a - 1.291_485_548 * b, 3);
+  return [
+    fromLinear(4.076_741_662_1 * l1 - 3.307_711_591_3 * m1 + 0.230_969_929_2 * s1),
+    fromLinear(-1.268_438_004_6 * l1 + 2.609_757_401_1 * m1 - 0.341_319_396_5 * s1),
+    fromLinear(-0.004_196_086_3 * l1 - 0.703_418_614_7 * m1 + 1.707_614_701 * s1),
+  ];
+}
+
+function lerp(from: number, to: number, factor: number): number {
+  return from + (to - from) * factor;
+}
+
+/**
+ * Interpolate a hue angle along the shorter arc (missing hues take the other one)
+ */
+function lerpHue(from: number, to: number, factor: number): number {
+  if (Number.isNaN(from)) return to;
+  if (Number.isNaN(to)) return from;
+  let delta = to - from;
+  if (delta > 180) delta -= 360;
+  if (delta < -180) delta += 360;
+  return (from + delta * factor + 360) % 360;
+}
+
+/**
+ * Mix two sRGB colors (0-255 channels) in a color space, without rounding
+ */
+export function mixColors(
+  first: Triple,
+  second: Triple,
+  factor: number,
+  interpolation: ColorInterpolation = 'rgb'
+): Triple {
+  switch (interpolation) {
+    case 'hsl': {
+      const [h1, s1, l1] = rgbToHsl(first);
+      const [h2, s2, l2] = rgbToHsl(second);
+      return hslToRgb([lerpHue(h1, h2, factor), lerp(s1, s2, factor), lerp(l1, l2, factor)]);
+    }
+    case 'lab': {
+      const [l1, a1, b1] = rgbToLab(first);
+      const [l2, a2, b2] = rgbToLab(second);
+      return labToRgb([lerp(l1, l2, factor), lerp(a1, a2, factor), lerp(b1, b2, factor)]);
+    }
+    case 'oklch': {
+      const [l1, c1, h1] = rgbToOklch(first);
+      const [l2, c2, h2] = rgbToOklch(second);
+      return oklchToRgb([lerp(l1, l2, factor), lerp(c1, c2, factor), lerpHue(h1, h2, factor)]);
+    }
+    default: {
+      return [
+        lerp(first[0], second[0], factor),
+        lerp(first[1], second[1], factor),
+        lerp(first[2], second[2], factor),
+      ];
+    }
+  }
+}
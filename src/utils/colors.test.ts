@@ -6,7 +6,9 @@ import {
   getContrastColors,
   interpolateColor,
   getGradientColor,
+  getStopsColor,
   getHvacColor,
+  getCategoricalColor,
   applyOpacity,
   getBrightness,
 } from './colors';
@@ -65,6 +67,11 @@ describe('parseColor', () => {
     expect(parseColor('#000000')).toEqual([0, 0, 0]);
   });
 
+  it('parses short hex colors', () => {
+    expect(parseColor('#fff')).toEqual([255, 255, 255]);
+    expect(parseColor('#f80')).toEqual([255, 136, 0]);
+  });
+
   it('parses rgb colors', () => {
     expect(parseColor('rgb(255, 0, 0)')).toEqual([255, 0, 0]);
     expect(parseColor('rgb(0, 255, 0)')).toEqual([0, 255, 0]);
@@ -346,6 +353,130 @@ describe('getGradientColor', () => {
   });
 });
 
+describe('getStopsColor', () => {
+  const stops = [
+    { value: 0, color: '#ff0000' },
+    { value: 15, color: '#ffa500' },
+    { value: 30, color: '#00ff00' },
+  ];
+
+  describe('bands', () => {
+    it('uses the color of the highest stop at or below the value', () => {
+      expect(getStopsColor(10, stops, { bands: true })).toBe('rgb(255, 0, 0)');
+      expect(getStopsColor(15, stops, { bands: true })).toBe('rgb(255, 165, 0)');
+      expect(getStopsColor(29.9, stops, { bands: true })).toBe('rgb(255, 165, 0)');
+      expect(getStopsColor(80, stops, { bands: true })).toBe('rgb(0, 255, 0)');
+    });
+
+    it('uses the first stop below the range', () => {
+      expect(getStopsColor(-5, stops, { bands: true })).toBe('rgb(255, 0, 0)');
+    });
+
+    it('keeps colors that cannot be parsed', () => {
+      expect(getStopsColor(5, [{ value: 0, color: 'red' }], { bands: true })).toBe('red');
+    });
+
+    it('applies opacity', () => {
+      expect(getStopsColor(20, stops, { bands: true, opacity: 0.5 })).toBe(
+        'rgba(255, 165, 0, 0.5)'
+      );
+    });
+  });
+
+  describe('smooth', () => {
+    it('interpolates between the surrounding stops', () => {
+      expect(getStopsColor(7.5, stops)).toBe('rgb(255, 83, 0)');
+      expect(getStopsColor(22.5, stops)).toBe('rgb(128, 210, 0)');
+    });
+
+    it('clamps to the first and last stop', () => {
+      expect(getStopsColor(-10, stops)).toBe('rgb(255, 0, 0)');
+      expect(getStopsColor(100, stops)).toBe('rgb(0, 255, 0)');
+    });
+
+    it('uses the nearest stop for colors that cannot be mixed', () => {
+      const named = [
+        { value: 0, color: 'red' },
+        { value: 10, color: 'green' },
+      ];
+      expect(getStopsColor(4, named)).toBe('red');
+      expect(getStopsColor(6, named)).toBe('green');
+    });
+  });
+
+  it('returns an empty string without stops', () => {
+    expect(getStopsColor(5, [])).toBe('');
+  });
+});
+
+describe('getGradientColor with stops', () => {
+  const options = { colorLow: '#0000ff', colorHigh: '#ff0000' };
+
+  it('uses explicit stops instead of low/high and the range', () => {
+    const stops = [
+      { value: 30, color: '#00ff00' },
+      { value: 0, color: '#ff0000' },
+    ];
+    expect(getGradientColor(15, 0, 1000, { ...options, stops })).toBe('rgb(128, 128, 0)');
+  });
+
+  it('uses hard bands in bands mode', () => {
+    const stops = [
+      { value: 0, color: '#ff0000' },
+      { value: 15, color: '#00ff00' },
+    ];
+    expect(getGradientColor(14, 0, 100, { ...options, stops, bands: true })).toBe('rgb(255, 0, 0)');
+  });
+});
+
+describe('getGradientColor with palettes and interpolation', () => {
+  const options = { colorLow: '#b91c1c', colorHigh: '#16a34a' };
+
+  it('spreads a palette over the range', () => {
+    expect(getGradientColor(0, 0, 90, { ...options, palette: 'viridis' })).toBe('rgb(68, 1, 84)');
+    expect(getGradientColor(90, 0, 90, { ...options, palette: 'viridis' })).toBe(
+      'rgb(253, 231, 37)'
+    );
+    // 10 colors over 0..90: stop 4 (#26828e) sits at 40
+    expect(getGradientColor(40, 0, 90, { ...options, palette: 'viridis' })).toBe(
+      'rgb(38, 130, 142)'
+    );
+  });
+
+  it('centers a diverging palette on the neutral point', () => {
+    const palette = { ...options, palette: 'red_blue' as const, neutral: 20 };
+    expect(getGradientColor(20, 0, 100, palette)).toBe('rgb(247, 247, 247)');
+    expect(getGradientColor(0, 0, 100, palette)).toBe('rgb(178, 24, 43)');
+    expect(getGradientColor(100, 0, 100, palette)).toBe('rgb(33, 102, 172)');
+  });
+
+  it('uses hard bands with a palette in bands mode', () => {
+    expect(getGradientColor(39, 0, 90, { ...options, palette: 'viridis', bands: true })).toBe(
+      'rgb(49, 104, 142)'
+    );
+  });
+
+  it('blends in the configured color space', () => {
+    const rgb = getGradientColor(50, 0, 100, options);
+    const oklch = getGradientColor(50, 0, 100, { ...options, interpolation: 'oklch' });
+    expect(rgb).toBe('rgb(104, 96, 51)');
+    expect(oklch).not.toBe(rgb);
+  });
+
+  it('keeps contrast colors working for palette colors', () => {
+    const dark = getGradientColor(0, 0, 100, { ...options, palette: 'viridis' });
+    const light = getGradientColor(100, 0, 100, { ...options, palette: 'viridis' });
+    expect(getContrastColors(dark).label).toBe('rgba(255, 255, 255, 0.95)');
+    expect(getContrastColors(light).label).not.toBe('rgba(255, 255, 255, 0.95)');
+  });
+});
+
+describe('interpolateColor with interpolation', () => {
+  it('blends in hsl', () => {
+    expect(interpolateColor('#ff0000', '#00ff00', 0.5, undefined, 'hsl')).toBe('rgb(255, 255, 0)');
+  });
+});
+
 describe('getHvacColor', () => {
   describe('default colors', () => {
     it('returns orange for heating action', () => {
@@ -456,3 +587,41 @@ describe('applyOpacity', () => {
     expect(result).toBe('rgba(0, 0, 0, 1)');
   });
 });
+
+describe('getCategoricalColor', () => {
+  const colorMap = { Tech: '#4dabf7', Energy: 'orange' };
+
+  it('returns the mapped color', () => {
+    expect(getCategoricalColor('Tech', { map: colorMap })).toBe('#4dabf7');
+    expect(getCategoricalColor('Energy', { map: colorMap })).toBe('orange');
+  });
+
+  it('uses the fallback for unmapped or missing categories', () => {
+    expect(getCategoricalColor('Health', { map: colorMap, fallback: '#000000' })).toBe('#000000');
+    expect(getCategoricalColor(undefined, { map: colorMap, fallback: '#000000' })).toBe('#000000');
+  });
+
+  it('defaults the fallback to gray', () => {
+    expect(getCategoricalColor('Health', { map: colorMap })).toBe('#868e96');
+    expect(getCategoricalColor('Tech', {})).toBe('#868e96');
+  });
+
+  it('picks unmapped categories from a palette', () => {
+    const color = getCategoricalColor('Health', { map: colorMap, palette: 'okabe_ito' });
+    expect(color).toMatch(/^#/);
+    expect(color).not.toBe('#868e96');
+    expect(getCategoricalColor('Tech', { map: colorMap, palette: 'okabe_ito' })).toBe('#4dabf7');
+  });
+
+  it('uses the fallback without a category even with a palette', () => {
+    expect(getCategoricalColor(undefined, { palette: 'okabe_ito', fallback: '#000000' })).toBe(
+      '#000000'
+    );
+  });
+
+  it('applies opacity', () => {
+    expect(getCategoricalColor('Tech', { map: colorMap, opacity: 0.5 })).toBe(
+      'rgba(77, 171, 247, 0.5)'
+    );
+  });
+});
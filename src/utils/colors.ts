@@ -2,6 +2,9 @@
  * Color utility functions
  */
 
+import { mixColors, type ColorInterpolation } from './color-spaces';
+import { getPaletteCategoryColor, getPaletteColors, type PaletteName } from './palettes';
+
 /**
  * Convert HS color to RGB
  */
@@ -41,7 +44,9 @@ export function hsToRgb(h: number, s: number): [number, number, number] {
 export function parseColor(color: string): [number, number, number] | null {
   // Handle hex colors
   if (color.startsWith('#')) {
-    const hex = color.replaceAll('#', '');
+    let hex = color.replaceAll('#', '');
+    // Short form (#fff), as often used by themes
+    if (hex.length === 3) hex = hex.replaceAll(/(.)/g, '$1$1');
     return [
       Number.parseInt(hex.slice(0, 2), 16),
       Number.parseInt(hex.slice(2, 4), 16),
@@ -125,27 +130,20 @@ export function interpolateColor(
   color1: string,
   color2: string,
   factor: number,
-  opacity?: number
+  opacity?: number,
+  interpolation?: ColorInterpolation
 ): string {
-  const hex1 = color1.replaceAll('#', '');
-  const hex2 = color2.replaceAll('#', '');
-
-  const r1 = Number.parseInt(hex1.slice(0, 2), 16);
-  const g1 = Number.parseInt(hex1.slice(2, 4), 16);
-  const b1 = Number.parseInt(hex1.slice(4, 6), 16);
-
-  const r2 = Number.parseInt(hex2.slice(0, 2), 16);
-  const g2 = Number.parseInt(hex2.slice(2, 4), 16);
-  const b2 = Number.parseInt(hex2.slice(4, 6), 16);
-
-  const r = Math.round(r1 + (r2 - r1) * factor);
-  const g = Math.round(g1 + (g2 - g1) * factor);
-  const b = Math.round(b1 + (b2 - b1) * factor);
+  const rgb1 = parseColor(color1) ?? [0, 0, 0];
+  const rgb2 = parseColor(color2) ?? [0, 0, 0];
+  return formatRgb(mixColors(rgb1, rgb2, factor, interpolation), opacity);
+}
 
-  if (opacity !== undefined) {
-    return `rgba(${r}, ${g}, ${b}, ${opacity})`;
-  }
-  return `rgb(${r}, ${g}, ${b})`;
+/**
+ * Color stop: the color at (or, in bands mode, from) a value
+ */
+export interface ColorStop {
+  value: number;
+  color: string;
 }
 
 /**
@@ -159,75 +157,134 @@ export interface GradientColorOptions {
   scaleMax?: number;
   neutral?: number;
   opacity?: number;
+  stops?: ColorStop[]; // Explicit stops (replace low/mid/high and the scale)
+  palette?: PaletteName; // Named palette spread over the range (replaces low/mid/high)
+  bands?: boolean; // Hard bands between stops instead of smooth interpolation
+  interpolation?: ColorInterpolation; // Color space for blending (default: rgb)
 }
 
-interface ThreeColorGradientParams {
-  clampedValue: number;
-  minValue: number;
-  maxValue: number;
-  midPoint: number;
-  colorLow: string;
-  colorMid: string;
-  colorHigh: string;
+/**
+ * Options for picking a color from stops
+ */
+export interface StopsColorOptions {
+  bands?: boolean;
   opacity?: number;
+  interpolation?: ColorInterpolation;
 }
 
 /**
- * Calculate color for three-color gradient (low -> mid -> high)
+ * Format an RGB triple as a CSS color, with optional opacity
  */
-function getThreeColorGradient(params: ThreeColorGradientParams): string {
-  const { clampedValue, minValue, maxValue, midPoint, colorLow, colorMid, colorHigh, opacity } =
-    params;
-
-  if (clampedValue <= midPoint) {
-    // Below midpoint: interpolate low -> mid
-    if (minValue >= midPoint) {
-      return interpolateColor(colorMid, colorMid, 1, opacity);
-    }
-    const factor = (clampedValue - minValue) / (midPoint - minValue);
-    return interpolateColor(colorLow, colorMid, factor, opacity);
-  } else {
-    // Above midpoint: interpolate mid -> high
-    if (maxValue <= midPoint) {
-      return interpolateColor(colorMid, colorMid, 1, opacity);
+function formatRgb([r, g, b]: [number, number, number], opacity?: number): string {
+  const channels = `${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)}`;
+  return opacity === undefined ? `rgb(${channels})` : `rgba(${channels}, ${opacity})`;
+}
+
+/**
+ * Get the color for a value from a list of stops (sorted by value).
+ * Smooth mode interpolates between the surrounding stops; bands mode uses the
+ * color of the highest stop at or below the value. Values outside the stops
+ * get the color of the first/last stop.
+ */
+export function getStopsColor(
+  value: number,
+  stops: ColorStop[],
+  options: StopsColorOptions = {}
+): string {
+  const { bands, opacity, interpolation } = options;
+  const first = stops[0];
+  if (!first) return '';
+
+  // Parseable colors are normalized to rgb()/rgba(), others (e.g. CSS names) pass through
+  const finish = (color: string) => {
+    const rgb = parseColor(color);
+    return rgb ? formatRgb(rgb, opacity) : color;
+  };
+
+  if (bands) {
+    const band = stops.filter(stop => stop.value <= value).at(-1) ?? first;
+    return finish(band.color);
+  }
+
+  if (value <= first.value) return finish(first.color);
+  for (let index = 1; index < stops.length; index++) {
+    const lower = stops[index - 1];
+    const upper = stops[index];
+    if (!lower || !upper || value > upper.value) continue;
+
+    const factor =
+      upper.value === lower.value ? 1 : (value - lower.value) / (upper.value - lower.value);
+    const lowerRgb = parseColor(lower.color);
+    const upperRgb = parseColor(upper.color);
+    if (!lowerRgb || !upperRgb) {
+      // Colors that cannot be mixed (e.g. CSS names): use the nearest stop
+      return finish(factor < 0.5 ? lower.color : upper.color);
     }
-    const factor = (clampedValue - midPoint) / (maxValue - midPoint);
-    return interpolateColor(colorMid, colorHigh, factor, opacity);
+    return formatRgb(mixColors(lowerRgb, upperRgb, factor, interpolation), opacity);
   }
+  return finish(stops.at(-1)?.color ?? first.color);
 }
 
-interface TwoColorNeutralParams {
-  clampedValue: number;
-  minValue: number;
-  maxValue: number;
-  neutral: number;
-  colorLow: string;
-  colorHigh: string;
-  opacity?: number;
+/**
+ * Spread the colors of a named palette evenly over the range (undefined for unknown palettes).
+ * With a neutral point, the first half covers min..neutral and the second half neutral..max.
+ */
+function getPaletteStops(
+  palette: PaletteName,
+  minValue: number,
+  maxValue: number,
+  neutral?: number
+): ColorStop[] | undefined {
+  const colors = getPaletteColors(palette);
+  if (!colors) return undefined;
+  const last = Math.max(1, colors.length - 1);
+  return colors.map((color, index) => {
+    const position = index / last;
+    if (neutral === undefined) return { value: minValue + (maxValue - minValue) * position, color };
+    return position <= 0.5
+      ? { value: minValue + (neutral - minValue) * position * 2, color }
+      : { value: neutral + (maxValue - neutral) * (position - 0.5) * 2, color };
+  });
 }
 
 /**
- * Calculate color for two-color gradient with neutral point
+ * Express the low/mid/high gradient as color stops.
+ * The middle stop sits at the neutral point (or the center of the range) and is
+ * the mid color, or a 50% blend of low and high when only a neutral point is set.
+ * A middle stop outside the range replaces the end it passes.
  */
-function getTwoColorGradientWithNeutral(params: TwoColorNeutralParams): string {
-  const { clampedValue, minValue, maxValue, neutral, colorLow, colorHigh, opacity } = params;
-
-  if (clampedValue <= neutral) {
-    // Below neutral: interpolate from low to 50% blend
-    if (minValue >= neutral) return interpolateColor(colorLow, colorHigh, 0.5, opacity);
-    const factor = (clampedValue - minValue) / (neutral - minValue);
-    return interpolateColor(colorLow, colorHigh, factor * 0.5, opacity);
-  } else {
-    // Above neutral: interpolate from 50% blend to high
-    if (maxValue <= neutral) return interpolateColor(colorLow, colorHigh, 0.5, opacity);
-    const factor = (clampedValue - neutral) / (maxValue - neutral);
-    return interpolateColor(colorLow, colorHigh, 0.5 + factor * 0.5, opacity);
+function getGradientStops(
+  minValue: number,
+  maxValue: number,
+  options: GradientColorOptions
+): ColorStop[] {
+  const { colorLow, colorMid, colorHigh, neutral, palette } = options;
+  const paletteStops = palette && getPaletteStops(palette, minValue, maxValue, neutral);
+  if (paletteStops) return paletteStops;
+
+  const low = { value: minValue, color: colorLow };
+  const high = { value: maxValue, color: colorHigh };
+
+  if (!colorMid && neutral === undefined) {
+    return maxValue === minValue ? [high] : [low, high];
   }
+
+  const midPoint = neutral ?? (minValue + maxValue) / 2;
+  const lowRgb = parseColor(colorLow);
+  const highRgb = parseColor(colorHigh);
+  const blend =
+    lowRgb && highRgb
+      ? formatRgb(mixColors(lowRgb, highRgb, 0.5, options.interpolation))
+      : colorLow;
+  const mid = { value: midPoint, color: colorMid ?? blend };
+
+  return [...(midPoint > minValue ? [low] : []), mid, ...(midPoint < maxValue ? [high] : [])];
 }
 
 /**
  * Calculate gradient color for a value within a range
- * Supports two-color and three-color gradients with optional neutral point
+ * Uses explicit color stops when given, otherwise the low/mid/high gradient
+ * with optional neutral point (expressed as stops)
  */
 export function getGradientColor(
   value: number,
@@ -235,50 +292,34 @@ export function getGradientColor(
   max: number,
   options: GradientColorOptions
 ): string {
-  const { colorHigh, colorLow, colorMid, opacity } = options;
-  const minValue = options.scaleMin ?? min;
-  const maxValue = options.scaleMax ?? max;
-  const neutral = options.neutral;
-
-  // Clamp value to min/max range
-  const clampedValue = Math.max(minValue, Math.min(maxValue, value));
-
-  // Calculate the midpoint (neutral if set, otherwise center of range)
-  const midPoint = neutral ?? (minValue + maxValue) / 2;
-
-  // If mid color is defined, use three-color gradient: low -> mid -> high
-  if (colorMid) {
-    return getThreeColorGradient({
-      clampedValue,
-      minValue,
-      maxValue,
-      midPoint,
-      colorLow,
-      colorMid,
-      colorHigh,
-      opacity,
-    });
+  const stopsOptions: StopsColorOptions = {
+    bands: options.bands,
+    opacity: options.opacity,
+    interpolation: options.interpolation,
+  };
+  const stops = getColorStops(min, max, options);
+  if (options.stops && options.stops.length > 0) {
+    return getStopsColor(value, stops, stopsOptions);
   }
 
-  // No mid color - use two-color gradient with neutral point
-  if (neutral !== undefined) {
-    return getTwoColorGradientWithNeutral({
-      clampedValue,
-      minValue,
-      maxValue,
-      neutral,
-      colorLow,
-      colorHigh,
-      opacity,
-    });
-  }
+  // Clamp value to min/max range
+  const clampedValue = Math.max(options.scaleMin ?? min, Math.min(options.scaleMax ?? max, value));
+  return getStopsColor(clampedValue, stops, stopsOptions);
+}
 
-  // Default: simple linear gradient from low to high
-  if (maxValue === minValue) {
-    return interpolateColor(colorHigh, colorHigh, 1, opacity);
+/**
+ * Get the color stops used for a value range: explicit stops (sorted),
+ * or the palette / low-mid-high gradient over the scale (or data) range
+ */
+export function getColorStops(
+  min: number,
+  max: number,
+  options: GradientColorOptions
+): ColorStop[] {
+  if (options.stops && options.stops.length > 0) {
+    return [...options.stops].sort((a, b) => a.value - b.value);
   }
-  const factor = (clampedValue - minValue) / (maxValue - minValue);
-  return interpolateColor(colorLow, colorHigh, factor, opacity);
+  return getGradientStops(options.scaleMin ?? min, options.scaleMax ?? max, options);
 }
 
 /**
@@ -371,3 +412,35 @@ export function applyOpacity(color: string, opacity: number): string {
   }
   return color;
 }
+
+/**
+ * Default color for categories missing from the categorical color map
+ */
+const DEFAULT_CATEGORY_COLOR = '#868e96'; // gray
+
+/**
+ * Options for categorical coloring
+ */
+export interface CategoricalColorOptions {
+  map?: Record<string, string>; // Category -> color
+  palette?: PaletteName; // Colors for categories missing from the map
+  fallback?: string; // Color when there is no category (or no palette)
+  opacity?: number;
+}
+
+/**
+ * Get color for a category (state string or attribute value) from a color map,
+ * then from a named palette
+ */
+export function getCategoricalColor(
+  category: string | undefined,
+  options: CategoricalColorOptions
+): string {
+  const { map, palette, fallback, opacity } = options;
+  let color = category === undefined ? undefined : map?.[category];
+  if (color === undefined && category !== undefined && palette) {
+    color = getPaletteCategoryColor(palette, category);
+  }
+  color ??= fallback ?? DEFAULT_CATEGORY_COLOR;
+  return opacity === undefined ? color : applyOpacity(color, opacity);
+}
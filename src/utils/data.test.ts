@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { aggregateOthers, prepareTreemapData } from './data';
+import type { TreemapItem } from '../types';
+
+function makeItem(label: string, value: number, unit = 'W'): TreemapItem {
+  return { label, value, sizeValue: value, sortValue: value, colorValue: value, unit };
+}
+
+function makeItems(): TreemapItem[] {
+  return [
+    makeItem('A', 100),
+    makeItem('B', 80),
+    makeItem('C', 30),
+    makeItem('D', 20),
+    makeItem('E', 10),
+  ];
+}
+
+describe('prepareTreemapData', () => {
+  it('drops items beyond the limit without others', () => {
+    const { items } = prepareTreemapData(makeItems(), { limit: 2 });
+    expect(items.map(item => item.label)).toEqual(['A', 'B']);
+  });
+
+  it('sums items beyond the limit into an others tile', () => {
+    const { items } = prepareTreemapData(makeItems(), {
+      limit: 2,
+      others: { label: 'Other', icon: 'mdi:dots-horizontal' },
+      sizeMin: 0,
+    });
+
+    expect(items.map(item => item.label)).toEqual(['A', 'B', 'Other']);
+    const others = items[2];
+    expect(others?.value).toBe(60);
+    expect(others?.sizeValue).toBe(60);
+    expect(others?.icon).toBe('mdi:dots-horizontal');
+    expect(others?.aggregated?.map(item => item.label)).toEqual(['C', 'D', 'E']);
+  });
+
+  it('keeps a single hidden item instead of aggregating it', () => {
+    const { items } = prepareTreemapData(makeItems(), { limit: 4, others: { label: 'Other' } });
+    expect(items.map(item => item.label)).toEqual(['A', 'B', 'C', 'D', 'E']);
+  });
+
+  it('does nothing when all items fit', () => {
+    const { items } = prepareTreemapData(makeItems(), { limit: 10, others: { label: 'Other' } });
+    expect(items.some(item => item.aggregated)).toBe(false);
+  });
+
+  it('sums inverted sizes when size.inverse is on', () => {
+    const { items } = prepareTreemapData(makeItems(), {
+      limit: 2,
+      inverse: true,
+      others: { label: 'Other' },
+    });
+
+    const others = items.find(item => item.aggregated);
+    expect(others?.aggregated?.map(item => item.label)).toEqual(['C', 'D', 'E']);
+    // Inverted sizes: 110 - 30, 110 - 20, 110 - 10
+    expect(others?.sizeValue).toBe(270);
+    expect(others?.sortValue).toBe(-60);
+    // Display value is the plain sum
+    expect(others?.value).toBe(60);
+  });
+
+  it('keeps the color range of all items', () => {
+    const { colorMin, colorMax } = prepareTreemapData(makeItems(), {
+      limit: 2,
+      others: { label: 'Other' },
+    });
+    expect(colorMin).toBe(10);
+    expect(colorMax).toBe(100);
+  });
+});
+
+describe('aggregateOthers', () => {
+  it('averages the color value', () => {
+    const others = aggregateOthers([makeItem('A', 10), makeItem('B', 30)], { label: 'Other' });
+    expect(others.colorValue).toBe(20);
+    expect(others.unit).toBe('W');
+  });
+
+  it('drops the unit when items disagree', () => {
+    const others = aggregateOthers([makeItem('A', 10, 'W'), makeItem('B', 30, 'kW')], {
+      label: 'Other',
+    });
+    expect(others.unit).toBeUndefined();
+  });
+});
@@ -11,6 +11,12 @@ export interface PrepareDataOptions {
   limit?: number;
   sizeMin?: number;
   sizeMax?: number;
+  others?: OthersOptions; // Aggregate items cut off by limit into one tile
+}
+
+export interface OthersOptions {
+  label: string;
+  icon?: string;
 }
 
 export interface PreparedData {
@@ -45,6 +51,15 @@ function calculateStats(data: TreemapItem[]): DataStats {
   return { colorMin, colorMax, sizeMin, sizeMax };
 }
 
+/**
+ * Get the color value range of items (used to keep colors stable while zoomed)
+ */
+export function getColorRange(data: TreemapItem[]): { colorMin: number; colorMax: number } {
+  if (data.length === 0) return { colorMin: 0, colorMax: 0 };
+  const { colorMin, colorMax } = calculateStats(data);
+  return { colorMin, colorMax };
+}
+
 /**
  * Apply inverse sizing: low values get bigger rectangles.
  * Inverts both sizeValue (for layout area) and sortValue (so sort order reflects inverted sizing).
@@ -84,6 +99,37 @@ function sortBySize(data: TreemapItem[], inverse: boolean, ascending: boolean):
   );
 }
 
+/**
+ * Combine items cut off by limit into a single tile.
+ * Sizes and sort values are summed (already inverted when size.inverse is on),
+ * the color value is averaged so it stays within the color range of all items.
+ */
+export function aggregateOthers(hidden: TreemapItem[], options: OthersOptions): TreemapItem {
+  let value = 0;
+  let sizeValue = 0;
+  let sortValue = 0;
+  let colorValue = 0;
+  for (const item of hidden) {
+    value += item.value;
+    sizeValue += item.sizeValue;
+    sortValue += item.sortValue;
+    colorValue += item.colorValue;
+  }
+  const units = new Set(hidden.map(item => item.unit));
+  const [unit] = units;
+
+  return {
+    label: options.label,
+    icon: options.icon,
+    value,
+    sizeValue,
+    sortValue,
+    colorValue: hidden.length > 0 ? colorValue / hidden.length : 0,
+    unit: units.size === 1 ? unit : undefined,
+    aggregated: hidden,
+  };
+}
+
 /**
  * Apply size maximum constraint and return the actual max value
  */
@@ -123,7 +169,7 @@ export function prepareTreemapData(
   data: TreemapItem[],
   options: PrepareDataOptions = {}
 ): PreparedData {
-  const { inverse = false, ascending = false, limit, sizeMin, sizeMax } = options;
+  const { inverse = false, ascending = false, limit, sizeMin, sizeMax, others } = options;
 
   if (data.length === 0) {
     return { items: [], colorMin: 0, colorMax: 0 };
@@ -149,7 +195,15 @@ export function prepareTreemapData(
 
   // Sort and limit
   const sortedData = sortBySize(data, inverse, ascending);
-  const limitedData = limit !== undefined && limit > 0 ? sortedData.slice(0, limit) : sortedData;
+  let limitedData = limit !== undefined && limit > 0 ? sortedData.slice(0, limit) : sortedData;
+
+  // Sum the cut-off tail into an "others" tile (a single hidden item is simply kept)
+  const hidden = sortedData.slice(limitedData.length);
+  if (others && hidden.length > 1) {
+    limitedData = [...limitedData, aggregateOthers(hidden, others)];
+  } else if (others && hidden.length === 1) {
+    limitedData = sortedData;
+  }
 
   // Apply size constraints
   const currentMax = applySizeMax(limitedData, sizeMax);
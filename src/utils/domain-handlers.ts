@@ -0,0 +1,382 @@
+/**
+ * Built-in handlers for covers, fans, media players, vacuums, batteries and people
+ *
+ * These domains have a number worth showing besides their state (position, speed,
+ * volume, battery level). They defer to the standard handling when the user maps
+ * the state (state_map) or picks an attribute (value.attribute), so explicit
+ * configuration always wins.
+ */
+
+import type { HassEntity, TreemapCardConfig, TreemapRect } from '../types';
+import type { DomainColorContext, DomainContext, DomainHandler } from './domains';
+import { getLightBackgroundColor } from './lights';
+import { getNumber, getString, isUnavailableState } from './predicates';
+import { formatState, getDefaultStateMap } from './states';
+import { THEME_DEFAULTS } from './theme';
+
+// Colors of people and trackers, like the Home Assistant person badges
+const PRESENCE_COLORS = {
+  home: 'var(--state-person-home-color, var(--green-color, #4caf50))',
+  not_home: 'var(--state-person-not_home-color, var(--grey-color, #9e9e9e))',
+  zone: 'var(--state-person-zone-color, var(--blue-color, #2196f3))',
+} as const;
+
+// Supported feature flags of covers (SET_POSITION) and fans (SET_SPEED)
+const COVER_SET_POSITION = 4;
+const FAN_SET_SPEED = 1;
+
+/**
+ * Whether the standard handling should be used: configured mappings and attributes win,
+ * unavailable entities keep their placeholder tile
+ */
+function defers({ entity, config, stateMapped }: DomainContext): boolean {
+  return (
+    stateMapped ||
+    Boolean(config?.value?.attribute) ||
+    config?.value?.source === 'statistics' ||
+    isUnavailableState(entity.state)
+  );
+}
+
+/**
+ * Get the domain of an entity id
+ */
+function getDomain(entityId: string): string {
+  return entityId.split('.')[0] ?? '';
+}
+
+/**
+ * Value text with the state in front: "Cleaning · 80 %"
+ */
+function formatWithState(rect: TreemapRect, formatNumber: (value: number) => string): string {
+  const number = formatNumber(rect.value);
+  return rect.rawState ? `${formatState(rect.rawState)} · ${number}` : number;
+}
+
+/**
+ * Check a supported_features flag
+ */
+function supports({ attributes }: HassEntity, feature: number): boolean {
+  return ((getNumber(attributes['supported_features']) ?? 0) & feature) !== 0;
+}
+
+/**
+ * Color a 0-100 level like a dimmable light: off color at 0, the on color
+ * more opaque the higher the level. Colors configured by attribute or
+ * expression use the gradient instead.
+ */
+function getLevelColor(
+  rect: TreemapRect,
+  { config, resolveColor }: DomainColorContext,
+  offColor: string,
+  onColor: string
+): string | undefined {
+  if (config?.color?.attribute || config?.color?.expression) return undefined;
+  const level = Math.min(100, Math.max(0, rect.colorValue));
+  return getLightBackgroundColor(
+    { brightness: level, isOn: level > 0, supportsColor: false },
+    resolveColor(config?.color?.low ?? offColor),
+    resolveColor(config?.color?.high ?? onColor)
+  );
+}
+
+/**
+ * Get the cover icon for its device class and state
+ */
+function getCoverIcon({ attributes, state }: HassEntity): string {
+  const closed = state === 'closed';
+  switch (getString(attributes['device_class'])) {
+    case 'garage': {
+      return closed ? 'mdi:garage' : 'mdi:garage-open';
+    }
+    case 'blind':
+    case 'curtain':
+    case 'shade': {
+      return closed ? 'mdi:blinds' : 'mdi:blinds-open';
+    }
+    default: {
+      return closed ? 'mdi:window-shutter' : 'mdi:window-shutter-open';
+    }
+  }
+}
+
+/**
+ * Covers: position (0-100) as value; covers without a position use the state map
+ */
+export const coverHandler: DomainHandler = {
+  name: 'cover',
+  matches: entityId => getDomain(entityId) === 'cover',
+  getIcon: getCoverIcon,
+  resolveItem: context => {
+    const position = getNumber(context.entity.attributes['current_position']);
+    if (position === undefined || defers(context)) return undefined;
+    const { entityId, entity, label, icon } = context;
+
+    return {
+      label,
+      value: position,
+      sizeValue: Math.max(10, position), // Closed covers stay visible
+      sortValue: position,
+      colorValue: position,
+      entity_id: entityId,
+      icon,
+      unit: '%',
+      rawState: entity.state,
+    };
+  },
+  getColor: (rect, context) =>
+    getLevelColor(rect, context, THEME_DEFAULTS.coverClosed, THEME_DEFAULTS.coverOpen),
+  // Moving covers show where they are heading
+  formatValue: (rect, formatNumber) =>
+    rect.rawState === 'opening' || rect.rawState === 'closing'
+      ? formatWithState(rect, formatNumber)
+      : undefined,
+  getAdjust: (_rect, entity) => {
+    const position = getNumber(entity.attributes['current_position']);
+    if (position === undefined || !supports(entity, COVER_SET_POSITION)) return undefined;
+    return {
+      service: 'cover.set_cover_position',
+      field: 'position',
+      value: position,
+      min: 0,
+      max: 100,
+      step: 1,
+    };
+  },
+};
+
+/**
+ * Fans: speed percentage as value, sized like lights
+ */
+export const fanHandler: DomainHandler = {
+  name: 'fan',
+  matches: entityId => getDomain(entityId) === 'fan',
+  getIcon: ({ state }) => (state === 'on' ? 'mdi:fan' : 'mdi:fan-off'),
+  resolveItem: context => {
+    if (defers(context)) return undefined;
+    const { entityId, entity, label, icon } = context;
+    const isOn = entity.state === 'on';
+    const percentage = isOn ? (getNumber(entity.attributes['percentage']) ?? 100) : 0;
+
+    return {
+      label,
+      value: percentage,
+      sizeValue: isOn ? 40 + (percentage / 100) * 60 : 10,
+      sortValue: percentage,
+      colorValue: percentage,
+      entity_id: entityId,
+      icon,
+      unit: '%',
+    };
+  },
+  getColor: (rect, context) =>
+    getLevelColor(rect, context, THEME_DEFAULTS.fanOff, THEME_DEFAULTS.fanOn),
+  getAdjust: (_rect, entity) => {
+    if (!supports(entity, FAN_SET_SPEED)) return undefined;
+    return {
+      service: 'fan.set_percentage',
+      field: 'percentage',
+      value: entity.state === 'on' ? (getNumber(entity.attributes['percentage']) ?? 0) : 0,
+      min: 0,
+      max: 100,
+      step: getNumber(entity.attributes['percentage_step']) ?? 1,
+    };
+  },
+};
+
+/**
+ * Get the media player icon for its state
+ */
+function getMediaPlayerIcon({ state }: HassEntity): string {
+  switch (state) {
+    case 'playing': {
+      return 'mdi:speaker-play';
+    }
+    case 'paused': {
+      return 'mdi:speaker-pause';
+    }
+    case 'off':
+    case 'standby': {
+      return 'mdi:speaker-off';
+    }
+    default: {
+      return 'mdi:speaker';
+    }
+  }
+}
+
+/**
+ * Get the now playing text of a media player: "Title – Artist"
+ */
+function getNowPlaying({ attributes }: HassEntity): string | undefined {
+  const parts = [getString(attributes['media_title']), getString(attributes['media_artist'])];
+  const text = parts.filter(Boolean).join(' – ');
+  return text || undefined;
+}
+
+/**
+ * Media players: sized by playing state (or volume with size.attribute: volume_level),
+ * volume as value ("Playing · 40 %"), album art as background
+ */
+export const mediaPlayerHandler: DomainHandler = {
+  name: 'media_player',
+  matches: entityId => getDomain(entityId) === 'media_player',
+  getIcon: getMediaPlayerIcon,
+  resolveItem: context => {
+    if (defers(context)) return undefined;
+    const { entityId, entity, label, icon, config } = context;
+
+    // Playing players are the largest, idle and off ones the smallest
+    const weight = getNumber(getDefaultStateMap('media_player')?.[entity.state]) ?? 0.25;
+    const volume = getNumber(entity.attributes['volume_level']);
+    const value = volume === undefined ? 0 : Math.round(volume * 100);
+    const sizeValue = Math.max(
+      10,
+      config?.size?.attribute === 'volume_level' ? value : weight * 100
+    );
+
+    return {
+      label,
+      value,
+      sizeValue,
+      sortValue: sizeValue,
+      colorValue: sizeValue,
+      entity_id: entityId,
+      icon,
+      rawState: entity.state,
+      image: getString(entity.attributes['entity_picture']),
+      secondary: getNowPlaying(entity),
+      // Players without volume (usually off) only show their state
+      ...(volume === undefined ? { stateLabel: formatState(entity.state) } : { unit: '%' }),
+    };
+  },
+  formatValue: formatWithState,
+  // Tap plays/pauses, hold still opens the dialog
+  actions: {
+    tap_action: { action: 'play-pause' },
+    hold_action: { action: 'more-info' },
+  },
+};
+
+/**
+ * Vacuums: battery level as value, cleaning vacuums are the largest
+ */
+export const vacuumHandler: DomainHandler = {
+  name: 'vacuum',
+  matches: entityId => getDomain(entityId) === 'vacuum',
+  getIcon: () => 'mdi:robot-vacuum',
+  resolveItem: context => {
+    if (defers(context)) return undefined;
+    const { entityId, entity, label, icon } = context;
+    const battery = getNumber(entity.attributes['battery_level']);
+    const active = entity.state === 'cleaning' || entity.state === 'returning';
+    const sizeValue = active ? 100 : 50;
+
+    return {
+      label,
+      value: battery ?? 0,
+      sizeValue,
+      sortValue: battery ?? 0,
+      colorValue: battery ?? 0,
+      entity_id: entityId,
+      icon,
+      rawState: entity.state,
+      ...(battery === undefined ? { stateLabel: formatState(entity.state) } : { unit: '%' }),
+    };
+  },
+  getColor: (rect, { getThemeColor }) =>
+    rect.rawState === 'error' ? getThemeColor(THEME_DEFAULTS.error) : undefined,
+  formatValue: formatWithState,
+};
+
+/**
+ * Get the battery icon for a level (mdi:battery-10 ... mdi:battery)
+ */
+function getBatteryIcon(level: number): string {
+  if (level < 5) return 'mdi:battery-outline';
+  if (level >= 95) return 'mdi:battery';
+  return `mdi:battery-${Math.round(level / 10) * 10}`;
+}
+
+/**
+ * Battery sensors: level icon and colors on a fixed 0-100 scale, so a full
+ * battery is never shown as low just because it is the emptiest one.
+ * Configured gradient colors and icons keep working as for other sensors.
+ */
+export const batteryHandler: DomainHandler = {
+  name: 'battery',
+  matches: (entityId, entity) =>
+    getDomain(entityId) === 'sensor' && getString(entity.attributes['device_class']) === 'battery',
+  getIcon: ({ state }) => getBatteryIcon(Number.parseFloat(state) || 0),
+  resolveItem: context => {
+    const level = Number.parseFloat(context.entity.state);
+    if (Number.isNaN(level) || defers(context)) return undefined;
+    const { entityId, entity, label, icon, config } = context;
+    // icon.icon replaces the level icon (entity icons still win)
+    const useConfigIcon = config?.icon?.icon !== undefined && icon === getBatteryIcon(level);
+
+    return {
+      label,
+      value: level,
+      sizeValue: level,
+      sortValue: level,
+      colorValue: level,
+      entity_id: entityId,
+      icon: useConfigIcon ? undefined : icon,
+      unit: getString(entity.attributes['unit_of_measurement']) ?? '%',
+    };
+  },
+  getColor: (rect, { config, getGradientColor }) =>
+    hasGradientConfig(config) ? undefined : getGradientColor(rect.colorValue, 0, 100),
+};
+
+/**
+ * Whether the card configures its own gradient (colors, range or color value)
+ */
+function hasGradientConfig(config: TreemapCardConfig | undefined): boolean {
+  const color = config?.color;
+  if (!color) return false;
+  const { low, mid, high, stops, palette, scale, attribute, param, expression } = color;
+  return [low, mid, high, stops, palette, scale, attribute, param, expression].some(
+    option => option !== undefined
+  );
+}
+
+/**
+ * People and device trackers: equal tiles showing the zone, colored by presence
+ */
+export const personHandler: DomainHandler = {
+  name: 'person',
+  matches: entityId => ['person', 'device_tracker'].includes(getDomain(entityId)),
+  getIcon: ({ entity_id, state }) => {
+    if (getDomain(entity_id) === 'person') {
+      return state === 'home' ? 'mdi:account' : 'mdi:account-outline';
+    }
+    return state === 'not_home' ? 'mdi:map-marker-off' : 'mdi:map-marker';
+  },
+  resolveItem: context => {
+    if (defers(context)) return undefined;
+    const { entityId, entity, label, icon, localize } = context;
+    const { state } = entity;
+
+    return {
+      label,
+      value: 1,
+      sizeValue: 1,
+      sortValue: state === 'home' ? 1 : 0,
+      colorValue: state === 'home' ? 1 : 0,
+      entity_id: entityId,
+      icon,
+      rawState: state,
+      // Zone names are shown as-is, home/away are translated
+      stateLabel: state === 'home' || state === 'not_home' ? localize(`state.${state}`) : state,
+    };
+  },
+  getColor: ({ rawState }, { getThemeColor }) => {
+    if (rawState === undefined) return undefined;
+    if (rawState === 'home' || rawState === 'not_home') {
+      return getThemeColor(PRESENCE_COLORS[rawState]);
+    }
+    return getThemeColor(PRESENCE_COLORS.zone);
+  },
+};
@@ -0,0 +1,213 @@
+import { describe, it, expect } from 'vitest';
+import { findDomainHandler, getDomainHandler } from './domains';
+import type { DomainContext, DomainHandler } from './domains';
+import type { HassEntity, TreemapCardConfig, TreemapItem } from '../types';
+
+function entity(
+  entityId: string,
+  state: string,
+  attributes: Record<string, unknown> = {}
+): HassEntity {
+  return { entity_id: entityId, state, attributes, last_changed: '', last_updated: '' };
+}
+
+function resolve(
+  input: HassEntity,
+  options: Partial<Pick<DomainContext, 'config' | 'stateMapped'>> = {}
+): TreemapItem | undefined {
+  const handler = findDomainHandler(input.entity_id, input);
+  return handler?.resolveItem({
+    entityId: input.entity_id,
+    entity: input,
+    label: input.entity_id,
+    icon: handler.getIcon(input),
+    config: options.config,
+    stateMapped: options.stateMapped ?? false,
+    localize: key => key,
+  });
+}
+
+describe('findDomainHandler', () => {
+  it('finds handlers by domain', () => {
+    expect(findDomainHandler('light.a', entity('light.a', 'on'))?.name).toBe('light');
+    expect(findDomainHandler('climate.a', entity('climate.a', 'heat'))?.name).toBe('climate');
+    expect(findDomainHandler('cover.a', entity('cover.a', 'open'))?.name).toBe('cover');
+    expect(findDomainHandler('device_tracker.a', entity('device_tracker.a', 'home'))?.name).toBe(
+      'person'
+    );
+  });
+
+  it('finds battery sensors by device class', () => {
+    const battery = entity('sensor.phone', '50', { device_class: 'battery' });
+    expect(findDomainHandler('sensor.phone', battery)?.name).toBe('battery');
+    expect(findDomainHandler('sensor.power', entity('sensor.power', '50'))).toBeUndefined();
+  });
+
+  it('returns undefined for entities without a handler', () => {
+    expect(findDomainHandler('switch.a', entity('switch.a', 'on'))).toBeUndefined();
+  });
+
+  it('gets handlers by name', () => {
+    expect(getDomainHandler('cover')?.name).toBe('cover');
+    expect(getDomainHandler('unknown')).toBeUndefined();
+    expect(getDomainHandler(undefined)).toBeUndefined();
+  });
+});
+
+describe('built-in handlers', () => {
+  it('resolves covers with a position, deferring without one', () => {
+    const item = resolve(entity('cover.blinds', 'closed', { current_position: 0 }));
+    expect(item).toMatchObject({ value: 0, sizeValue: 10, unit: '%', icon: 'mdi:window-shutter' });
+    expect(resolve(entity('cover.garage', 'open'))).toBeUndefined();
+  });
+
+  it('uses device class icons for covers', () => {
+    const item = resolve(
+      entity('cover.garage', 'open', { current_position: 100, device_class: 'garage' })
+    );
+    expect(item?.icon).toBe('mdi:garage-open');
+  });
+
+  it('sizes fans by speed like lights', () => {
+    expect(resolve(entity('fan.desk', 'on', { percentage: 50 }))).toMatchObject({
+      value: 50,
+      sizeValue: 70,
+      icon: 'mdi:fan',
+    });
+    expect(resolve(entity('fan.desk', 'off', { percentage: 50 }))).toMatchObject({
+      value: 0,
+      sizeValue: 10,
+      icon: 'mdi:fan-off',
+    });
+  });
+
+  it('shows the volume of media players and sizes them by state', () => {
+    const playing = resolve(entity('media_player.tv', 'playing', { volume_level: 0.4 }));
+    expect(playing).toMatchObject({ value: 40, sizeValue: 100, unit: '%', rawState: 'playing' });
+
+    const off = resolve(entity('media_player.tv', 'off'));
+    expect(off).toMatchObject({ value: 0, sizeValue: 10, stateLabel: 'Off' });
+  });
+
+  it('adds artwork and the now playing text of media players', () => {
+    const player = entity('media_player.tv', 'playing', {
+      volume_level: 0.6,
+      entity_picture: '/api/media_player_proxy/media_player.tv',
+      media_title: 'Song',
+      media_artist: 'Band',
+    });
+    expect(resolve(player)).toMatchObject({
+      image: '/api/media_player_proxy/media_player.tv',
+      secondary: 'Song – Band',
+    });
+    expect(resolve(entity('media_player.tv', 'playing', { media_title: 'Song' }))?.secondary).toBe(
+      'Song'
+    );
+  });
+
+  it('sizes media players by volume with size.attribute: volume_level', () => {
+    const config: TreemapCardConfig = {
+      type: 'custom:treemap-card',
+      size: { attribute: 'volume_level' },
+    };
+    const player = entity('media_player.tv', 'idle', { volume_level: 0.6 });
+    expect(resolve(player, { config })?.sizeValue).toBe(60);
+  });
+
+  it('shows the battery of vacuums', () => {
+    expect(resolve(entity('vacuum.robot', 'cleaning', { battery_level: 80 }))).toMatchObject({
+      value: 80,
+      sizeValue: 100,
+      icon: 'mdi:robot-vacuum',
+    });
+    expect(resolve(entity('vacuum.robot', 'docked'))).toMatchObject({ stateLabel: 'Docked' });
+  });
+
+  it('picks battery icons by level', () => {
+    const icon = (state: string): string | undefined =>
+      resolve(entity('sensor.phone', state, { device_class: 'battery' }))?.icon;
+    expect(icon('2')).toBe('mdi:battery-outline');
+    expect(icon('42')).toBe('mdi:battery-40');
+    expect(icon('97')).toBe('mdi:battery');
+  });
+
+  it('translates home and away, keeping zone names', () => {
+    expect(resolve(entity('person.anna', 'home'))).toMatchObject({
+      stateLabel: 'state.home',
+      icon: 'mdi:account',
+    });
+    expect(resolve(entity('person.anna', 'not_home'))?.stateLabel).toBe('state.not_home');
+    expect(resolve(entity('person.anna', 'Work'))?.stateLabel).toBe('Work');
+  });
+
+  it('defers to mapped states, value attributes and unavailable entities', () => {
+    const fan = entity('fan.desk', 'on', { percentage: 50 });
+    const config: TreemapCardConfig = {
+      type: 'custom:treemap-card',
+      value: { attribute: 'percentage' },
+    };
+    expect(resolve(fan, { stateMapped: true })).toBeUndefined();
+    expect(resolve(fan, { config })).toBeUndefined();
+    expect(resolve(entity('fan.desk', 'unavailable'))).toBeUndefined();
+  });
+
+  it('never defers lights', () => {
+    expect(
+      resolve(entity('light.a', 'on', { brightness: 255 }), { stateMapped: true })
+    ).toMatchObject({ value: 100, light: { isOn: true } });
+  });
+});
+
+describe('getAdjust', () => {
+  function getAdjust(input: HassEntity): ReturnType<NonNullable<DomainHandler['getAdjust']>> {
+    const item = resolve(input);
+    if (!item) return undefined;
+    const rect = { ...item, x: 0, y: 0, width: 0, height: 0 };
+    return findDomainHandler(input.entity_id, input)?.getAdjust?.(rect, input, undefined);
+  }
+
+  it('sets the position of covers that support it', () => {
+    expect(
+      getAdjust(entity('cover.a', 'open', { current_position: 30, supported_features: 4 }))
+    ).toMatchObject({ service: 'cover.set_cover_position', field: 'position', value: 30 });
+    expect(
+      getAdjust(entity('cover.a', 'open', { current_position: 30, supported_features: 3 }))
+    ).toBeUndefined();
+  });
+
+  it('sets the speed of fans in their percentage steps', () => {
+    expect(
+      getAdjust(
+        entity('fan.a', 'off', { percentage: 60, percentage_step: 20, supported_features: 1 })
+      )
+    ).toMatchObject({ service: 'fan.set_percentage', value: 0, step: 20 });
+    expect(getAdjust(entity('fan.a', 'on', { percentage: 60 }))).toBeUndefined();
+  });
+
+  it('sets the brightness of dimmable lights', () => {
+    expect(
+      getAdjust(entity('light.a', 'on', { brightness: 255, supported_color_modes: ['color_temp'] }))
+    ).toMatchObject({ service: 'light.turn_on', field: 'brightness_pct', value: 100 });
+    expect(
+      getAdjust(entity('light.a', 'on', { supported_color_modes: ['onoff'] }))
+    ).toBeUndefined();
+  });
+
+  it('sets the target temperature of thermostats within their limits', () => {
+    expect(
+      getAdjust(entity('climate.a', 'heat', { temperature: 21, min_temp: 10, target_temp_step: 1 }))
+    ).toMatchObject({
+      service: 'climate.set_temperature',
+      field: 'temperature',
+      value: 21,
+      min: 10,
+      max: 35,
+      step: 1,
+    });
+    expect(getAdjust(entity('climate.a', 'off', { current_temperature: 20 }))).toBeUndefined();
+  });
+
+  it('does not adjust other domains', () => {
+    expect(getAdjust(entity('person.a', 'home'))).toBeUndefined();
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Domain handlers: how entities of a domain become tiles
+ *
+ * A handler turns an entity into a tile and can provide the default icon, the tile color,
+ * the value text and default actions. Entities without a handler (or whose handler defers)
+ * use the standard state / attribute handling.
+ */
+
+import type {
+  HassEntity,
+  TreemapActionConfig,
+  TreemapCardConfig,
+  TreemapItem,
+  TreemapRect,
+} from '../types';
+import { climateHandler } from './climate';
+import { lightHandler } from './lights';
+import {
+  batteryHandler,
+  coverHandler,
+  fanHandler,
+  mediaPlayerHandler,
+  personHandler,
+  vacuumHandler,
+} from './domain-handlers';
+
+type ActionKey = 'tap_action' | 'hold_action' | 'double_tap_action';
+
+/**
+ * Entity being resolved into a tile
+ */
+export interface DomainContext {
+  entityId: string;
+  entity: HassEntity;
+  label: string;
+  icon: string; // Icon override, or the handler's default icon
+  config: TreemapCardConfig | undefined;
+  stateMapped: boolean; // A card or entity state_map maps the current state
+  localize: (key: string) => string;
+}
+
+/**
+ * Card helpers for coloring a tile
+ */
+export interface DomainColorContext {
+  config: TreemapCardConfig | undefined;
+  getThemeColor: (color: string) => string; // Resolve a theme color, applying color.opacity
+  resolveColor: (color: string) => string; // Resolve a theme color as-is
+  getGradientColor: (value: number, min: number, max: number) => string;
+}
+
+/**
+ * Value a tile can be set to by dragging it
+ */
+export interface AdjustControl {
+  service: string; // Service setting the value, e.g. cover.set_cover_position
+  field: string; // Service data field of the value, e.g. position
+  value: number; // Current value
+  min: number;
+  max: number;
+  step: number;
+  range?: number; // Change of a drag across the whole tile (default: max - min)
+}
+
+/**
+ * Handler for entities of a domain (or a device class within one)
+ */
+export interface DomainHandler {
+  name: string;
+  matches: (entityId: string, entity: HassEntity) => boolean;
+  getIcon: (entity: HassEntity) => string;
+  // Build the tile, or undefined to use the standard handling
+  resolveItem: (context: DomainContext) => TreemapItem | undefined;
+  // Tile color, or undefined for the gradient
+  getColor?: (rect: TreemapRect, context: DomainColorContext) => string | undefined;
+  // Value text, or undefined for the formatted number
+  formatValue?: (rect: TreemapRect, formatNumber: (value: number) => string) => string | undefined;
+  actions?: Partial<Record<ActionKey, TreemapActionConfig>>;
+  // Drag control, or undefined when the entity cannot be adjusted
+  getAdjust?: (
+    rect: TreemapRect,
+    entity: HassEntity,
+    config: TreemapCardConfig | undefined
+  ) => AdjustControl | undefined;
+  adjustOptIn?: boolean; // Only adjustable with the adjust option (others also by hold-and-drag)
+}
+
+// Looked up in order: the first matching handler builds the tile
+const handlers: readonly DomainHandler[] = [
+  lightHandler,
+  climateHandler,
+  coverHandler,
+  fanHandler,
+  mediaPlayerHandler,
+  vacuumHandler,
+  batteryHandler,
+  personHandler,
+];
+
+/**
+ * Find the handler for an entity
+ */
+export function findDomainHandler(entityId: string, entity: HassEntity): DomainHandler | undefined {
+  return handlers.find(handler => handler.matches(entityId, entity));
+}
+
+/**
+ * Get a handler by name (tiles remember the handler that built them)
+ */
+export function getDomainHandler(name: string | undefined): DomainHandler | undefined {
+  return name === undefined ? undefined : handlers.find(handler => handler.name === name);
+}
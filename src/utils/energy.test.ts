@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  clearEnergyCache,
+  getEnergyStatistics,
+  parseEnergyPrefs,
+  subtractIncludedDevices,
+} from './energy';
+import type { HomeAssistant } from '../types';
+
+const prefs = {
+  energy_sources: [
+    {
+      type: 'grid',
+      flow_from: [
+        { stat_energy_from: 'sensor.grid_peak' },
+        { stat_energy_from: 'sensor.grid_off' },
+      ],
+      flow_to: [{ stat_energy_to: 'sensor.grid_export' }],
+    },
+    { type: 'solar', stat_energy_from: 'sensor.solar' },
+    {
+      type: 'battery',
+      stat_energy_from: 'sensor.battery_out',
+      stat_energy_to: 'sensor.battery_in',
+    },
+    { type: 'gas', stat_energy_from: 'sensor.gas' },
+  ],
+  device_consumption: [
+    { stat_consumption: 'sensor.kitchen', name: 'Kitchen' },
+    { stat_consumption: 'sensor.oven', included_in_stat: 'sensor.kitchen' },
+    { name: 'Broken' },
+  ],
+};
+
+describe('parseEnergyPrefs', () => {
+  it('reads devices and electricity sources', () => {
+    expect(parseEnergyPrefs(prefs)).toEqual([
+      { statisticId: 'sensor.kitchen', kind: 'device', name: 'Kitchen', includedIn: undefined },
+      { statisticId: 'sensor.oven', kind: 'device', name: undefined, includedIn: 'sensor.kitchen' },
+      { statisticId: 'sensor.grid_peak', kind: 'grid' },
+      { statisticId: 'sensor.grid_off', kind: 'grid' },
+      { statisticId: 'sensor.solar', kind: 'solar' },
+      { statisticId: 'sensor.battery_out', kind: 'battery' },
+    ]);
+  });
+
+  it('reads grids with a single import statistic', () => {
+    expect(
+      parseEnergyPrefs({ energy_sources: [{ type: 'grid', stat_energy_from: 'sensor.grid' }] })
+    ).toEqual([{ statisticId: 'sensor.grid', kind: 'grid' }]);
+  });
+
+  it('ignores invalid preferences', () => {
+    expect(parseEnergyPrefs(null)).toEqual([]);
+    expect(parseEnergyPrefs({ device_consumption: 'none' })).toEqual([]);
+  });
+});
+
+describe('subtractIncludedDevices', () => {
+  it('subtracts included devices from their upstream device', () => {
+    const statistics = parseEnergyPrefs(prefs);
+    const values = new Map([
+      ['sensor.kitchen', 5],
+      ['sensor.oven', 2],
+    ]);
+
+    expect(subtractIncludedDevices(statistics, values)).toEqual(
+      new Map([
+        ['sensor.kitchen', 3],
+        ['sensor.oven', 2],
+      ])
+    );
+    // The input is left alone
+    expect(values.get('sensor.kitchen')).toBe(5);
+  });
+
+  it('never goes below zero', () => {
+    const statistics = parseEnergyPrefs(prefs);
+    const values = new Map([
+      ['sensor.kitchen', 1],
+      ['sensor.oven', 2],
+    ]);
+
+    expect(subtractIncludedDevices(statistics, values).get('sensor.kitchen')).toBe(0);
+  });
+});
+
+describe('getEnergyStatistics', () => {
+  afterEach(() => {
+    clearEnergyCache();
+  });
+
+  function makeHass(callWS = vi.fn()): HomeAssistant {
+    return { states: {}, callService: vi.fn(), callWS };
+  }
+
+  it('returns devices only unless sources are requested', async () => {
+    const callWS = vi.fn().mockResolvedValue(prefs);
+    const devices = await getEnergyStatistics(makeHass(callWS), false);
+    const all = await getEnergyStatistics(makeHass(callWS), true);
+
+    expect(devices.map(({ statisticId }) => statisticId)).toEqual([
+      'sensor.kitchen',
+      'sensor.oven',
+    ]);
+    expect(all).toHaveLength(6);
+    // The preferences are fetched once
+    expect(callWS).toHaveBeenCalledTimes(1);
+    expect(callWS).toHaveBeenCalledWith({ type: 'energy/get_prefs' });
+  });
+
+  it('rejects when the energy dashboard is not set up', async () => {
+    const callWS = vi.fn().mockRejectedValue({ code: 'not_found', message: 'No prefs' });
+
+    await expect(getEnergyStatistics(makeHass(callWS), false)).rejects.toEqual({
+      code: 'not_found',
+      message: 'No prefs',
+    });
+  });
+});
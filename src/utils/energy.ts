@@ -0,0 +1,124 @@
+/**
+ * Energy dashboard mode: devices (and optionally sources) from the energy preferences
+ *
+ * Reads the statistics configured in Settings > Dashboards > Energy via energy/get_prefs,
+ * so the treemap follows the energy dashboard instead of a hand-maintained entity list.
+ */
+
+import type { HomeAssistant } from '../types';
+import { getString, isRecord } from './predicates';
+
+export type EnergyKind = 'device' | 'grid' | 'solar' | 'battery';
+
+/**
+ * Statistic shown as an energy tile
+ */
+export interface EnergyStatistic {
+  statisticId: string;
+  kind: EnergyKind;
+  name?: string; // Device name set in the energy dashboard
+  includedIn?: string; // Upstream device statistic that already includes this device
+}
+
+interface CacheEntry {
+  statistics: EnergyStatistic[];
+  fetchedAt: number;
+}
+
+// Preferences rarely change; share them between cards for a while
+let cache: CacheEntry | undefined;
+
+const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Get the consumption sources of the grid: `flow_from` lists, or a single `stat_energy_from`
+ */
+function getGridStatistics(source: Record<string, unknown>): string[] {
+  const flows = Array.isArray(source['flow_from']) ? source['flow_from'] : [source];
+  return flows.flatMap(flow => {
+    const id = isRecord(flow) ? getString(flow['stat_energy_from']) : undefined;
+    return id ? [id] : [];
+  });
+}
+
+/**
+ * Parse the energy preferences into device and source statistics
+ */
+export function parseEnergyPrefs(prefs: unknown): EnergyStatistic[] {
+  if (!isRecord(prefs)) return [];
+  const result: EnergyStatistic[] = [];
+
+  const devices = Array.isArray(prefs['device_consumption']) ? prefs['device_consumption'] : [];
+  for (const device of devices) {
+    if (!isRecord(device)) continue;
+    const statisticId = getString(device['stat_consumption']);
+    if (!statisticId) continue;
+    result.push({
+      statisticId,
+      kind: 'device',
+      name: getString(device['name']),
+      includedIn: getString(device['included_in_stat']),
+    });
+  }
+
+  const sources = Array.isArray(prefs['energy_sources']) ? prefs['energy_sources'] : [];
+  for (const source of sources) {
+    if (!isRecord(source)) continue;
+    const type = source['type'];
+    if (type === 'grid') {
+      for (const statisticId of getGridStatistics(source)) {
+        result.push({ statisticId, kind: 'grid' });
+      }
+    } else if (type === 'solar' || type === 'battery') {
+      // Battery tiles show the discharged energy (what it supplied)
+      const statisticId = getString(source['stat_energy_from']);
+      if (statisticId) result.push({ statisticId, kind: type });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Subtract the consumption of devices from the upstream device that includes them,
+ * so energy is not counted twice (like the energy dashboard's untracked consumption)
+ */
+export function subtractIncludedDevices(
+  statistics: EnergyStatistic[],
+  values: Map<string, number | undefined>
+): Map<string, number | undefined> {
+  const result = new Map(values);
+  for (const statistic of statistics) {
+    const value = values.get(statistic.statisticId);
+    if (!statistic.includedIn || value === undefined) continue;
+    const upstream = result.get(statistic.includedIn);
+    if (upstream !== undefined) {
+      result.set(statistic.includedIn, Math.max(0, upstream - value));
+    }
+  }
+  return result;
+}
+
+/**
+ * Fetch the energy statistics (cached), rejecting if the energy dashboard is not set up
+ */
+export async function getEnergyStatistics(
+  hass: HomeAssistant,
+  includeSources: boolean
+): Promise<EnergyStatistic[]> {
+  const now = Date.now();
+  if (!cache || now - cache.fetchedAt >= CACHE_TTL) {
+    const prefs = await hass.callWS<unknown>({ type: 'energy/get_prefs' });
+    cache = { statistics: parseEnergyPrefs(prefs), fetchedAt: now };
+  }
+  return includeSources
+    ? cache.statistics
+    : cache.statistics.filter(statistic => statistic.kind === 'device');
+}
+
+/**
+ * Clear the cached energy preferences
+ */
+export function clearEnergyCache(): void {
+  cache = undefined;
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateExpression, ExpressionError, getExpressionEntities } from './expression';
+
+function evaluate(source: string, variables: Record<string, unknown> = {}): number {
+  return evaluateExpression(source, {
+    variables,
+    getEntity: entityId =>
+      entityId === 'sensor.tariff'
+        ? { state: '0.25', attributes: { currency: 'EUR', peak: 0.4 } }
+        : undefined,
+  });
+}
+
+describe('evaluateExpression', () => {
+  it('evaluates arithmetic with precedence', () => {
+    expect(evaluate('1 + 2 * 3')).toBe(7);
+    expect(evaluate('(1 + 2) * 3')).toBe(9);
+    expect(evaluate('10 - 4 - 3')).toBe(3);
+    expect(evaluate('7 % 4')).toBe(3);
+    expect(evaluate('1.5e2')).toBe(150);
+  });
+
+  it('evaluates powers right to left', () => {
+    expect(evaluate('2 ^ 3 ^ 2')).toBe(512);
+    expect(evaluate('2 ** 3')).toBe(8);
+    expect(evaluate('-2 ^ 2')).toBe(-4);
+  });
+
+  it('reads variables and converts numeric strings', () => {
+    expect(evaluate('voltage * current', { voltage: 230, current: '0.5' })).toBe(115);
+    expect(evaluate('state * 2', { state: '21.5' })).toBe(43);
+  });
+
+  it('reads members with dots and brackets', () => {
+    const variables = { attributes: { power: { l1: 100, l2: 50 } }, phases: [10, 20] };
+    expect(evaluate('attributes.power.l1 + attributes.power["l2"]', variables)).toBe(150);
+    expect(evaluate('phases[1]', variables)).toBe(20);
+  });
+
+  it('reads other entities', () => {
+    expect(evaluate("kwh * states('sensor.tariff')", { kwh: 10 })).toBe(2.5);
+    expect(evaluate("state_attr('sensor.tariff', 'peak')")).toBe(0.4);
+  });
+
+  it('compares values', () => {
+    expect(evaluate("state == 'on' ? 1 : 0", { state: 'on' })).toBe(1);
+    expect(evaluate('state == 21.5', { state: '21.5' })).toBe(1);
+    expect(evaluate('3 >= 3 && 2 < 1')).toBe(0);
+    expect(evaluate('!(1 > 2) || missing', {})).toBe(1);
+  });
+
+  it('calls math functions', () => {
+    expect(evaluate('round(used / total * 100, 1)', { used: 1, total: 3 })).toBe(33.3);
+    expect(evaluate('max(1, 5, 3) + min(4, 2) + abs(-1)')).toBe(8);
+    expect(evaluate('floor(2.7) + ceil(2.1) + sqrt(16)')).toBe(9);
+  });
+
+  it('converts with float() and a fallback', () => {
+    expect(evaluate("float('12.5')")).toBe(12.5);
+    expect(evaluate('float(state, 0)', { state: 'unknown' })).toBe(0);
+  });
+
+  it.each([
+    ['1 +', 'Unexpected end of expression'],
+    ['1 + * 2', 'Unexpected "*" at position 4'],
+    ['(1 + 2', 'Unexpected end of expression'],
+    ["'open", 'Unterminated string at position 0'],
+    ['1 # 2', 'Unexpected "#" at position 2'],
+    ['voltage * 2', 'Unknown name "voltage"'],
+    ['exec(1)', 'Unknown function "exec"'],
+    ["states('sensor.missing')", 'Unknown entity "sensor.missing"'],
+    ["'abc' * 2", '"abc" is not a number'],
+    ['1 / 0', 'Division by zero'],
+    ['sqrt(-1)', 'Result is not a finite number'],
+  ])('rejects %s', (source, message) => {
+    expect(() => evaluate(source)).toThrow(new ExpressionError(message));
+  });
+
+  it('does not expose the prototype chain', () => {
+    expect(() => evaluate('constructor')).toThrow(ExpressionError);
+    expect(() => evaluate("item['constructor']", { item: {} })).toThrow('nothing is not a number');
+  });
+});
+
+describe('getExpressionEntities', () => {
+  it('finds entities read with states() and state_attr()', () => {
+    expect(
+      getExpressionEntities("states('sensor.a') * state_attr('sensor.b', 'x') + states(other)")
+    ).toEqual(['sensor.a', 'sensor.b']);
+  });
+
+  it('returns nothing for invalid expressions', () => {
+    expect(getExpressionEntities('states(')).toEqual([]);
+  });
+});
@@ -0,0 +1,504 @@
+/**
+ * Safe expression language for computed values (value/size/color.expression)
+ *
+ * Expressions are tokenized and parsed into a small syntax tree, then evaluated
+ * against a scope of variables - no eval, no access to anything outside the scope.
+ *
+ * Supported: numbers, 'strings', true/false/null, + - * / % ^ (power),
+ * comparisons, && || !, cond ? a : b, member access (a.b, a['b'], a[0]),
+ * states('sensor.x'), state_attr('sensor.x', 'attr') and the functions below.
+ */
+
+import { isRecord } from './predicates';
+
+/**
+ * Error in an expression (syntax error or failed evaluation)
+ */
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+/**
+ * Entity as seen by states() and state_attr()
+ */
+interface ExpressionEntity {
+  state: string;
+  attributes: Record<string, unknown>;
+}
+
+/**
+ * Names available to an expression
+ */
+export interface ExpressionScope {
+  variables: Record<string, unknown>;
+  getEntity?: (entityId: string) => ExpressionEntity | undefined;
+}
+
+type Node =
+  | { type: 'literal'; value: unknown }
+  | { type: 'name'; name: string }
+  | { type: 'member'; object: Node; property: Node }
+  | { type: 'call'; name: string; args: Node[] }
+  | { type: 'unary'; operator: string; operand: Node }
+  | { type: 'binary'; operator: string; left: Node; right: Node }
+  | { type: 'conditional'; test: Node; consequent: Node; alternate: Node };
+
+interface Token {
+  type: 'number' | 'string' | 'name' | 'operator' | 'end';
+  value: string;
+  position: number;
+}
+
+// Longest first, so "<=" is not read as "<" followed by "="
+const OPERATORS = [
+  '**',
+  '<=',
+  '>=',
+  '==',
+  '!=',
+  '&&',
+  '||',
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+  '^',
+  '<',
+  '>',
+  '!',
+  '?',
+  ':',
+  '(',
+  ')',
+  '[',
+  ']',
+  ',',
+  '.',
+];
+
+/**
+ * Split an expression into tokens
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const rest = source.slice(index);
+    const whitespace = /^\s+/.exec(rest);
+    if (whitespace) {
+      index += whitespace[0].length;
+      continue;
+    }
+
+    const number = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(rest);
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], position: index });
+      index += number[0].length;
+      continue;
+    }
+
+    const name = /^[a-z_]\w*/i.exec(rest);
+    if (name) {
+      tokens.push({ type: 'name', value: name[0], position: index });
+      index += name[0].length;
+      continue;
+    }
+
+    const quote = rest.charAt(0);
+    if (quote === "'" || quote === '"') {
+      const end = source.indexOf(quote, index + 1);
+      if (end === -1) throw new ExpressionError(`Unterminated string at position ${index}`);
+      tokens.push({ type: 'string', value: source.slice(index + 1, end), position: index });
+      index = end + 1;
+      continue;
+    }
+
+    const operator = OPERATORS.find(candidate => rest.startsWith(candidate));
+    if (!operator) throw new ExpressionError(`Unexpected "${quote}" at position ${index}`);
+    tokens.push({ type: 'operator', value: operator, position: index });
+    index += operator.length;
+  }
+
+  tokens.push({ type: 'end', value: '', position: source.length });
+  return tokens;
+}
+
+/**
+ * Recursive descent parser, one method per precedence level (lowest first)
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): Node {
+    const node = this.conditional();
+    const token = this.peek();
+    if (token.type !== 'end') this.fail(token);
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index] ?? { type: 'end', value: '', position: 0 };
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    this.index++;
+    return token;
+  }
+
+  private match(...operators: string[]): string | undefined {
+    const token = this.peek();
+    if (token.type === 'operator' && operators.includes(token.value)) {
+      this.index++;
+      return token.value;
+    }
+    return undefined;
+  }
+
+  private expect(operator: string): void {
+    if (!this.match(operator)) this.fail(this.peek());
+  }
+
+  private fail(token: Token): never {
+    if (token.type === 'end') throw new ExpressionError('Unexpected end of expression');
+    throw new ExpressionError(`Unexpected "${token.value}" at position ${token.position}`);
+  }
+
+  private conditional(): Node {
+    const test = this.binary(0);
+    if (!this.match('?')) return test;
+    const consequent = this.conditional();
+    this.expect(':');
+    const alternate = this.conditional();
+    return { type: 'conditional', test, consequent, alternate };
+  }
+
+  // Binary operators by precedence (lowest first)
+  private static readonly LEVELS = [
+    ['||'],
+    ['&&'],
+    ['==', '!='],
+    ['<', '<=', '>', '>='],
+    ['+', '-'],
+    ['*', '/', '%'],
+  ];
+
+  private binary(level: number): Node {
+    const operators = Parser.LEVELS[level];
+    if (!operators) return this.unary();
+
+    let left = this.binary(level + 1);
+    let operator = this.match(...operators);
+    while (operator) {
+      const right = this.binary(level + 1);
+      left = { type: 'binary', operator, left, right };
+      operator = this.match(...operators);
+    }
+    return left;
+  }
+
+  private unary(): Node {
+    const operator = this.match('-', '+', '!');
+    if (operator) return { type: 'unary', operator, operand: this.unary() };
+    return this.power();
+  }
+
+  private power(): Node {
+    const base = this.postfix();
+    // Right associative, binds tighter than unary minus on its left (-2^2 = -4)
+    if (!this.match('^', '**')) return base;
+    return { type: 'binary', operator: '^', left: base, right: this.unary() };
+  }
+
+  private postfix(): Node {
+    let node = this.primary();
+    for (;;) {
+      if (this.match('.')) {
+        const token = this.next();
+        if (token.type !== 'name') this.fail(token);
+        node = { type: 'member', object: node, property: { type: 'literal', value: token.value } };
+      } else if (this.match('[')) {
+        const property = this.conditional();
+        this.expect(']');
+        node = { type: 'member', object: node, property };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private primary(): Node {
+    const token = this.next();
+    if (token.type === 'number') return { type: 'literal', value: Number(token.value) };
+    if (token.type === 'string') return { type: 'literal', value: token.value };
+    if (token.type === 'name') {
+      if (token.value === 'true') return { type: 'literal', value: true };
+      if (token.value === 'false') return { type: 'literal', value: false };
+      if (token.value === 'null') return { type: 'literal', value: null };
+      if (this.match('(')) return { type: 'call', name: token.value, args: this.arguments() };
+      return { type: 'name', name: token.value };
+    }
+    if (token.type === 'operator' && token.value === '(') {
+      const node = this.conditional();
+      this.expect(')');
+      return node;
+    }
+    return this.fail(token);
+  }
+
+  private arguments(): Node[] {
+    const args: Node[] = [];
+    if (this.match(')')) return args;
+    do {
+      args.push(this.conditional());
+    } while (this.match(','));
+    this.expect(')');
+    return args;
+  }
+}
+
+// Parsed expressions by source (configs are re-evaluated on every state change)
+const cache = new Map<string, Node>();
+
+function compile(source: string): Node {
+  let node = cache.get(source);
+  if (!node) {
+    node = new Parser(tokenize(source)).parse();
+    cache.set(source, node);
+  }
+  return node;
+}
+
+function describeValue(value: unknown): string {
+  if (typeof value === 'string') return `"${value}"`;
+  if (value === null || value === undefined) return 'nothing';
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return 'an object';
+}
+
+/**
+ * Convert a value to a number (numeric strings like entity states included)
+ */
+function toNumber(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value);
+    if (!Number.isNaN(number)) return number;
+  }
+  throw new ExpressionError(`${describeValue(value)} is not a number`);
+}
+
+function isTruthy(value: unknown): boolean {
+  if (typeof value === 'string') return value !== '' && value !== '0';
+  return Boolean(value);
+}
+
+function isEqual(left: unknown, right: unknown): boolean {
+  if (left === right) return true;
+  // Entity states are strings: compare "21.5" == 21.5 numerically
+  if (typeof left === 'number' || typeof right === 'number') {
+    try {
+      return toNumber(left) === toNumber(right);
+    } catch {
+      return false;
+    }
+  }
+  return false;
+}
+
+const MATH_FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  abs: Math.abs,
+  ceil: Math.ceil,
+  floor: Math.floor,
+  sqrt: Math.sqrt,
+  log: Math.log,
+  min: Math.min,
+  max: Math.max,
+  round: (value: number, digits = 0) => {
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
+  },
+};
+
+function getEntity(scope: ExpressionScope, entityId: unknown): ExpressionEntity {
+  const entity = typeof entityId === 'string' ? scope.getEntity?.(entityId) : undefined;
+  if (!entity) throw new ExpressionError(`Unknown entity ${describeValue(entityId)}`);
+  return entity;
+}
+
+function call(name: string, args: unknown[], scope: ExpressionScope): unknown {
+  if (name === 'states') return getEntity(scope, args[0]).state;
+  if (name === 'state_attr') {
+    const attribute = args[1];
+    return typeof attribute === 'string'
+      ? getEntity(scope, args[0]).attributes[attribute]
+      : undefined;
+  }
+  // float(value, fallback): number, or the fallback when the value is not numeric
+  if (name === 'float') {
+    try {
+      return toNumber(args[0]);
+    } catch (error) {
+      if (args.length > 1) return toNumber(args[1]);
+      throw error;
+    }
+  }
+
+  const fn = MATH_FUNCTIONS[name];
+  if (!fn) throw new ExpressionError(`Unknown function "${name}"`);
+  return fn(...args.map(toNumber));
+}
+
+function arithmetic(operator: string, left: number, right: number): number | boolean {
+  switch (operator) {
+    case '+': {
+      return left + right;
+    }
+    case '-': {
+      return left - right;
+    }
+    case '*': {
+      return left * right;
+    }
+    case '/': {
+      if (right === 0) throw new ExpressionError('Division by zero');
+      return left / right;
+    }
+    case '%': {
+      if (right === 0) throw new ExpressionError('Division by zero');
+      return left % right;
+    }
+    case '^': {
+      return left ** right;
+    }
+    case '<': {
+      return left < right;
+    }
+    case '<=': {
+      return left <= right;
+    }
+    case '>': {
+      return left > right;
+    }
+    default: {
+      return left >= right;
+    }
+  }
+}
+
+function evaluate(node: Node, scope: ExpressionScope): unknown {
+  switch (node.type) {
+    case 'literal': {
+      return node.value;
+    }
+    case 'name': {
+      if (!Object.hasOwn(scope.variables, node.name)) {
+        throw new ExpressionError(`Unknown name "${node.name}"`);
+      }
+      return scope.variables[node.name];
+    }
+    case 'member': {
+      const object = evaluate(node.object, scope);
+      const property = evaluate(node.property, scope);
+      if (!isRecord(object)) return undefined;
+      const key = typeof property === 'number' ? String(property) : property;
+      if (typeof key !== 'string' || !Object.hasOwn(object, key)) return undefined;
+      return object[key];
+    }
+    case 'call': {
+      return call(
+        node.name,
+        node.args.map(arg => evaluate(arg, scope)),
+        scope
+      );
+    }
+    case 'unary': {
+      const operand = evaluate(node.operand, scope);
+      if (node.operator === '!') return !isTruthy(operand);
+      return node.operator === '-' ? -toNumber(operand) : toNumber(operand);
+    }
+    case 'conditional': {
+      return isTruthy(evaluate(node.test, scope))
+        ? evaluate(node.consequent, scope)
+        : evaluate(node.alternate, scope);
+    }
+    case 'binary': {
+      const left = evaluate(node.left, scope);
+      // Short-circuit: the right side may refer to things that only exist if the left holds
+      if (node.operator === '&&') return isTruthy(left) && isTruthy(evaluate(node.right, scope));
+      if (node.operator === '||') return isTruthy(left) || isTruthy(evaluate(node.right, scope));
+      const right = evaluate(node.right, scope);
+      if (node.operator === '==') return isEqual(left, right);
+      if (node.operator === '!=') return !isEqual(left, right);
+      return arithmetic(node.operator, toNumber(left), toNumber(right));
+    }
+  }
+}
+
+/**
+ * Entities an expression reads with states() or state_attr() (literal ids only),
+ * so the card can re-render when they change. Invalid expressions read nothing.
+ */
+export function getExpressionEntities(source: string): string[] {
+  const entities: string[] = [];
+  const visit = (node: Node): void => {
+    switch (node.type) {
+      case 'call': {
+        const [first] = node.args;
+        if ((node.name === 'states' || node.name === 'state_attr') && first?.type === 'literal') {
+          if (typeof first.value === 'string') entities.push(first.value);
+        }
+        node.args.forEach(visit);
+        break;
+      }
+      case 'member': {
+        visit(node.object);
+        visit(node.property);
+        break;
+      }
+      case 'unary': {
+        visit(node.operand);
+        break;
+      }
+      case 'binary': {
+        visit(node.left);
+        visit(node.right);
+        break;
+      }
+      case 'conditional': {
+        visit(node.test);
+        visit(node.consequent);
+        visit(node.alternate);
+        break;
+      }
+      default: {
+        break;
+      }
+    }
+  };
+
+  try {
+    visit(compile(source));
+  } catch {
+    return [];
+  }
+  return entities;
+}
+
+/**
+ * Evaluate an expression to a number.
+ * Throws an ExpressionError for syntax errors, unknown names and non-numeric results.
+ */
+export function evaluateExpression(source: string, scope: ExpressionScope): number {
+  const result = toNumber(evaluate(compile(source), scope));
+  if (!Number.isFinite(result)) throw new ExpressionError('Result is not a finite number');
+  return result;
+}
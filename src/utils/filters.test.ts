@@ -0,0 +1,139 @@
+import { describe, expect, it, vi } from 'vitest';
+import { matchesIncludeFilter } from './filters';
+import type { HassEntity, HomeAssistant } from '../types';
+
+function makeState(entityId: string, attributes: Record<string, unknown> = {}): HassEntity {
+  return { entity_id: entityId, state: '1', attributes, last_changed: '', last_updated: '' };
+}
+
+function makeHass(): HomeAssistant {
+  return {
+    states: {
+      'sensor.fridge_power': makeState('sensor.fridge_power', { device_class: 'power' }),
+      'sensor.tv_power': makeState('sensor.tv_power', { device_class: 'power', phase: 'L1' }),
+      'sensor.tv_energy': makeState('sensor.tv_energy', { device_class: 'energy' }),
+      'sensor.fridge_rssi': makeState('sensor.fridge_rssi', { device_class: 'signal_strength' }),
+      'sensor.old_power': makeState('sensor.old_power', { device_class: 'power' }),
+      'light.kitchen': makeState('light.kitchen'),
+    },
+    entities: {
+      'sensor.fridge_power': {
+        entity_id: 'sensor.fridge_power',
+        device_id: 'dev_fridge',
+        platform: 'shelly',
+        labels: ['always_on'],
+      },
+      'sensor.tv_power': {
+        entity_id: 'sensor.tv_power',
+        area_id: 'living_room',
+        platform: 'tplink',
+      },
+      'sensor.tv_energy': { entity_id: 'sensor.tv_energy', area_id: 'living_room' },
+      'sensor.fridge_rssi': {
+        entity_id: 'sensor.fridge_rssi',
+        device_id: 'dev_fridge',
+        entity_category: 'diagnostic',
+      },
+      'sensor.old_power': { entity_id: 'sensor.old_power', area_id: 'kitchen', hidden: true },
+      'light.kitchen': { entity_id: 'light.kitchen', area_id: 'kitchen' },
+    },
+    devices: {
+      dev_fridge: {
+        id: 'dev_fridge',
+        name: 'Fridge',
+        name_by_user: 'Big Fridge',
+        area_id: 'kitchen',
+      },
+    },
+    areas: {
+      kitchen: { area_id: 'kitchen', name: 'Kitchen', floor_id: 'ground' },
+      living_room: { area_id: 'living_room', name: 'Living Room', floor_id: 'first' },
+    },
+    floors: {
+      ground: { floor_id: 'ground', name: 'Ground Floor' },
+      first: { floor_id: 'first', name: 'First Floor' },
+    },
+    callService: vi.fn(),
+    callWS: vi.fn(),
+  };
+}
+
+function select(filter: Parameters<typeof matchesIncludeFilter>[2]): string[] {
+  const hass = makeHass();
+  return Object.keys(hass.states).filter(id => matchesIncludeFilter(hass, id, filter));
+}
+
+describe('matchesIncludeFilter', () => {
+  it('matches everything visible with an empty filter', () => {
+    expect(select({})).toEqual([
+      'sensor.fridge_power',
+      'sensor.tv_power',
+      'sensor.tv_energy',
+      'light.kitchen',
+    ]);
+  });
+
+  it('filters by area id or name, using the device area as fallback', () => {
+    expect(select({ area: 'kitchen' })).toEqual(['sensor.fridge_power', 'light.kitchen']);
+    expect(select({ area: 'Living Room' })).toEqual(['sensor.tv_power', 'sensor.tv_energy']);
+  });
+
+  it('filters by floor', () => {
+    expect(select({ floor: 'ground' })).toEqual(['sensor.fridge_power', 'light.kitchen']);
+    expect(select({ floor: 'first floor' })).toEqual(['sensor.tv_power', 'sensor.tv_energy']);
+  });
+
+  it('filters by device id or name', () => {
+    expect(select({ device: 'dev_fridge' })).toEqual(['sensor.fridge_power']);
+    expect(select({ device: 'Big Fridge' })).toEqual(['sensor.fridge_power']);
+  });
+
+  it('filters by label', () => {
+    expect(select({ label: 'always_on' })).toEqual(['sensor.fridge_power']);
+  });
+
+  it('filters by domain and device_class', () => {
+    expect(select({ domain: 'light' })).toEqual(['light.kitchen']);
+    expect(select({ domain: 'sensor', device_class: 'power' })).toEqual([
+      'sensor.fridge_power',
+      'sensor.tv_power',
+    ]);
+  });
+
+  it('filters by integration, with platform as alias', () => {
+    expect(select({ integration: 'shelly' })).toEqual(['sensor.fridge_power']);
+    expect(select({ platform: ['shelly', 'tplink'] })).toEqual([
+      'sensor.fridge_power',
+      'sensor.tv_power',
+    ]);
+  });
+
+  it('filters by attribute equality', () => {
+    expect(select({ attributes: { phase: 'L1' } })).toEqual(['sensor.tv_power']);
+  });
+
+  it('combines keys (all must match)', () => {
+    expect(select({ area: 'kitchen', device_class: 'power' })).toEqual(['sensor.fridge_power']);
+  });
+
+  it('includes hidden entities only when asked for', () => {
+    expect(select({ area: 'kitchen', device_class: 'power', hidden: true })).toEqual([
+      'sensor.fridge_power',
+      'sensor.old_power',
+    ]);
+  });
+
+  it('includes config/diagnostic entities only when asked for', () => {
+    expect(select({ device: 'dev_fridge', entity_category: true })).toEqual([
+      'sensor.fridge_power',
+      'sensor.fridge_rssi',
+    ]);
+  });
+
+  it('does not match registry keys when the registry is not loaded', () => {
+    const hass = makeHass();
+    delete hass.entities;
+    expect(matchesIncludeFilter(hass, 'sensor.fridge_power', { area: 'kitchen' })).toBe(false);
+    expect(matchesIncludeFilter(hass, 'sensor.fridge_power', { device_class: 'power' })).toBe(true);
+  });
+});
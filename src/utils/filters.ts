@@ -0,0 +1,76 @@
+/**
+ * Native entity filtering (include block)
+ *
+ * Selects entities by registry metadata (area, floor, device, label, integration)
+ * and state attributes (domain, device_class, any attribute), so common selections
+ * like "all power sensors in the kitchen" work without auto-entities.
+ */
+
+import type { HomeAssistant, TreemapIncludeFilter } from '../types';
+import { getEntityAreaId } from './groups';
+import { getString } from './predicates';
+
+/**
+ * Normalize a single value or list config to a list of lowercase values
+ */
+function toList(value: string | string[] | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  return (Array.isArray(value) ? value : [value]).map(entry => entry.toLowerCase());
+}
+
+/**
+ * Check if any candidate (id or name) matches any wanted value.
+ * An unset filter key matches everything.
+ */
+function matchesAny(
+  wanted: string | string[] | undefined,
+  candidates: (string | null | undefined)[]
+): boolean {
+  const values = toList(wanted);
+  if (!values) return true;
+  return candidates.some(
+    candidate =>
+      candidate !== undefined && candidate !== null && values.includes(candidate.toLowerCase())
+  );
+}
+
+/**
+ * Check if an entity passes the include filter
+ */
+export function matchesIncludeFilter(
+  hass: HomeAssistant,
+  entityId: string,
+  filter: TreemapIncludeFilter
+): boolean {
+  const entry = hass.entities?.[entityId];
+  const attributes = hass.states[entityId]?.attributes ?? {};
+
+  // Entities hidden in HA and config/diagnostic entities are skipped unless asked for
+  if (entry?.hidden && !filter.hidden) return false;
+  if (entry?.entity_category && !filter.entity_category) return false;
+
+  if (!matchesAny(filter.domain, [entityId.split('.')[0]])) return false;
+  if (!matchesAny(filter.device_class, [getString(attributes['device_class'])])) return false;
+  if (!matchesAny(filter.integration, [entry?.platform])) return false;
+  if (!matchesAny(filter.platform, [entry?.platform])) return false;
+  if (!matchesAny(filter.label, entry?.labels ?? [])) return false;
+
+  const device = entry?.device_id ? hass.devices?.[entry.device_id] : undefined;
+  if (!matchesAny(filter.device, [entry?.device_id, device?.name_by_user, device?.name])) {
+    return false;
+  }
+
+  const areaId = getEntityAreaId(hass, entityId);
+  const area = areaId ? hass.areas?.[areaId] : undefined;
+  if (!matchesAny(filter.area, [areaId, area?.name])) return false;
+
+  const floorId = area?.floor_id;
+  const floor = floorId ? hass.floors?.[floorId] : undefined;
+  if (!matchesAny(filter.floor, [floorId, floor?.name])) return false;
+
+  for (const [key, value] of Object.entries(filter.attributes ?? {})) {
+    if (String(attributes[key]) !== String(value)) return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,255 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  aggregateValues,
+  buildGroups,
+  getEntityGroupName,
+  getFieldGroupName,
+  getGroupKeys,
+  getTilePath,
+  squarifyGroups,
+  UNGROUPED_KEY,
+  zoomItems,
+} from './groups';
+import type { HomeAssistant, TreemapItem } from '../types';
+
+function makeItem(label: string, value: number, group?: string[]): TreemapItem {
+  return { label, value, sizeValue: value, sortValue: value, colorValue: value, group };
+}
+
+function makeHass(): HomeAssistant {
+  return {
+    states: {
+      'sensor.fridge_power': {
+        entity_id: 'sensor.fridge_power',
+        state: '120',
+        attributes: { device_class: 'power' },
+        last_changed: '',
+        last_updated: '',
+      },
+    },
+    entities: {
+      'sensor.fridge_power': {
+        entity_id: 'sensor.fridge_power',
+        device_id: 'dev_fridge',
+        labels: ['always_on'],
+      },
+      'sensor.tv_power': { entity_id: 'sensor.tv_power', area_id: 'living_room' },
+      'sensor.orphan': { entity_id: 'sensor.orphan' },
+    },
+    devices: {
+      dev_fridge: { id: 'dev_fridge', name: 'Fridge', name_by_user: null, area_id: 'kitchen' },
+    },
+    areas: {
+      kitchen: { area_id: 'kitchen', name: 'Kitchen', floor_id: 'ground' },
+      living_room: { area_id: 'living_room', name: 'Living Room', floor_id: null },
+    },
+    floors: {
+      ground: { floor_id: 'ground', name: 'Ground Floor' },
+    },
+    callService: vi.fn(),
+    callWS: vi.fn(),
+  };
+}
+
+describe('getGroupKeys', () => {
+  it('returns empty list when not configured', () => {
+    expect(getGroupKeys(undefined)).toEqual([]);
+  });
+
+  it('wraps a single key', () => {
+    expect(getGroupKeys('area')).toEqual(['area']);
+  });
+
+  it('limits to two group levels', () => {
+    expect(getGroupKeys(['floor', 'area', 'device'])).toEqual(['floor', 'area']);
+  });
+});
+
+describe('getEntityGroupName', () => {
+  const hass = makeHass();
+
+  it('groups by domain', () => {
+    expect(getEntityGroupName(hass, 'sensor.fridge_power', 'domain')).toBe('sensor');
+  });
+
+  it('uses the device area when the entity has no area', () => {
+    expect(getEntityGroupName(hass, 'sensor.fridge_power', 'area')).toBe('Kitchen');
+  });
+
+  it('uses the entity area directly', () => {
+    expect(getEntityGroupName(hass, 'sensor.tv_power', 'area')).toBe('Living Room');
+  });
+
+  it('resolves floor through the area', () => {
+    expect(getEntityGroupName(hass, 'sensor.fridge_power', 'floor')).toBe('Ground Floor');
+    expect(getEntityGroupName(hass, 'sensor.tv_power', 'floor')).toBe(UNGROUPED_KEY);
+  });
+
+  it('groups by device name', () => {
+    expect(getEntityGroupName(hass, 'sensor.fridge_power', 'device')).toBe('Fridge');
+  });
+
+  it('groups by first label, humanized', () => {
+    expect(getEntityGroupName(hass, 'sensor.fridge_power', 'label')).toBe('Always on');
+  });
+
+  it('falls back to Other for entities without registry data', () => {
+    expect(getEntityGroupName(hass, 'sensor.orphan', 'area')).toBe(UNGROUPED_KEY);
+    expect(getEntityGroupName(hass, 'sensor.orphan', 'device')).toBe(UNGROUPED_KEY);
+  });
+
+  it('groups by any attribute', () => {
+    expect(getEntityGroupName(hass, 'sensor.fridge_power', 'device_class')).toBe('power');
+  });
+});
+
+describe('getFieldGroupName', () => {
+  it('stringifies values and falls back for empty ones', () => {
+    expect(getFieldGroupName('Tech')).toBe('Tech');
+    expect(getFieldGroupName(3)).toBe('3');
+    expect(getFieldGroupName(undefined)).toBe(UNGROUPED_KEY);
+    expect(getFieldGroupName('')).toBe(UNGROUPED_KEY);
+  });
+});
+
+describe('aggregateValues', () => {
+  it('supports sum, mean, min and max', () => {
+    expect(aggregateValues([1, 2, 3])).toBe(6);
+    expect(aggregateValues([1, 2, 3], 'mean')).toBe(2);
+    expect(aggregateValues([1, 2, 3], 'min')).toBe(1);
+    expect(aggregateValues([1, 2, 3], 'max')).toBe(3);
+    expect(aggregateValues([], 'mean')).toBe(0);
+  });
+});
+
+describe('buildGroups', () => {
+  it('builds nested groups preserving first-appearance order', () => {
+    const groups = buildGroups([
+      makeItem('A', 1, ['Ground', 'Kitchen']),
+      makeItem('B', 2, ['First', 'Bedroom']),
+      makeItem('C', 3, ['Ground', 'Living']),
+      makeItem('D', 4, ['Ground', 'Kitchen']),
+    ]);
+
+    expect(groups.map(g => g.label)).toEqual(['Ground', 'First']);
+    const ground = groups[0]!;
+    expect(ground.children.map(g => g.label)).toEqual(['Kitchen', 'Living']);
+    expect(ground.children[0]!.items.map(i => i.label)).toEqual(['A', 'D']);
+    expect(ground.children[0]!.path).toEqual(['Ground', 'Kitchen']);
+  });
+
+  it('puts items without a group path into Other', () => {
+    const groups = buildGroups([makeItem('A', 1, ['Kitchen']), makeItem('B', 2)]);
+    expect(groups.map(g => g.label)).toEqual(['Kitchen', UNGROUPED_KEY]);
+  });
+});
+
+describe('squarifyGroups', () => {
+  it('sizes groups by their total and keeps tiles inside their group', () => {
+    const groups = buildGroups([
+      makeItem('A', 60, ['Big']),
+      makeItem('B', 20, ['Big']),
+      makeItem('C', 20, ['Small']),
+    ]);
+    const { rects, groups: frames } = squarifyGroups(groups, 100, 100, { compressRange: false });
+
+    expect(frames).toHaveLength(2);
+    const big = frames.find(f => f.label === 'Big')!;
+    const small = frames.find(f => f.label === 'Small')!;
+    expect(big.width * big.height).toBeCloseTo(8000);
+    expect(small.width * small.height).toBeCloseTo(2000);
+    expect(big.value).toBe(80);
+    expect(big.count).toBe(2);
+
+    for (const rect of rects) {
+      const frame = rect.label === 'C' ? small : big;
+      expect(rect.x).toBeGreaterThanOrEqual(frame.x - 0.001);
+      expect(rect.y).toBeGreaterThanOrEqual(frame.y - 0.001);
+      expect(rect.x + rect.width).toBeLessThanOrEqual(frame.x + frame.width + 0.001);
+      expect(rect.y + rect.height).toBeLessThanOrEqual(frame.y + frame.height + 0.001);
+    }
+  });
+
+  it('reserves header space at the top of each group', () => {
+    const groups = buildGroups([makeItem('A', 10, ['Only'])]);
+    const { rects } = squarifyGroups(groups, 100, 100, { headerHeight: 10 });
+
+    expect(rects[0]?.y).toBeCloseTo(10);
+    expect(rects[0]?.height).toBeCloseTo(90);
+  });
+
+  it('lays out subgroups recursively with depth', () => {
+    const groups = buildGroups([
+      makeItem('A', 10, ['Ground', 'Kitchen']),
+      makeItem('B', 10, ['Ground', 'Living']),
+    ]);
+    const { rects, groups: frames } = squarifyGroups(groups, 100, 100);
+
+    expect(frames.map(f => [f.label, f.depth])).toEqual([
+      ['Ground', 0],
+      ['Kitchen', 1],
+      ['Living', 1],
+    ]);
+    expect(rects).toHaveLength(2);
+  });
+
+  it('reports a shared unit only when all tiles agree', () => {
+    const groups = buildGroups([
+      { ...makeItem('A', 10, ['G']), unit: 'W' },
+      { ...makeItem('B', 10, ['G']), unit: 'W' },
+      { ...makeItem('C', 10, ['H']), unit: 'W' },
+      { ...makeItem('D', 10, ['H']), unit: 'kW' },
+    ]);
+    const { groups: frames } = squarifyGroups(groups, 100, 100);
+
+    expect(frames.find(f => f.label === 'G')?.unit).toBe('W');
+    expect(frames.find(f => f.label === 'H')?.unit).toBeUndefined();
+  });
+});
+
+describe('getTilePath', () => {
+  it('appends the tile key to its group path', () => {
+    expect(getTilePath({ ...makeItem('A', 1, ['Kitchen']), entity_id: 'sensor.a' })).toEqual([
+      'Kitchen',
+      'sensor.a',
+    ]);
+    expect(getTilePath(makeItem('A', 1))).toEqual(['A']);
+  });
+});
+
+describe('zoomItems', () => {
+  const items = [
+    makeItem('A', 1, ['Ground', 'Kitchen']),
+    makeItem('B', 2, ['Ground', 'Living']),
+    makeItem('C', 3, ['First', 'Bedroom']),
+  ];
+
+  it('returns all items at the root', () => {
+    expect(zoomItems(items, [])).toBe(items);
+  });
+
+  it('keeps the subtree and strips the zoomed groups', () => {
+    const zoomed = zoomItems(items, ['Ground']);
+    expect(zoomed?.map(i => [i.label, i.group])).toEqual([
+      ['A', ['Kitchen']],
+      ['B', ['Living']],
+    ]);
+  });
+
+  it('drops the group path when zoomed into the innermost group', () => {
+    expect(zoomItems(items, ['Ground', 'Kitchen'])?.[0]?.group).toBeUndefined();
+  });
+
+  it('zooms onto a single tile', () => {
+    expect(zoomItems(items, ['First', 'Bedroom', 'C'])?.map(i => i.label)).toEqual(['C']);
+  });
+
+  it('does not mutate the original items', () => {
+    zoomItems(items, ['Ground']);
+    expect(items[0]?.group).toEqual(['Ground', 'Kitchen']);
+  });
+
+  it('returns undefined when nothing matches', () => {
+    expect(zoomItems(items, ['Attic'])).toBeUndefined();
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * Grouping utilities for hierarchical (nested) treemaps
+ *
+ * Tiles are grouped by registry metadata (area, floor, device, domain, label)
+ * or by any attribute / JSON field, then each group is laid out recursively
+ * inside its parent rectangle.
+ */
+
+import type { HomeAssistant, TreemapGroupRect, TreemapItem, TreemapRect } from '../types';
+import { getTileKey } from './layout';
+import { squarify, type SquarifyOptions } from './squarify';
+
+/**
+ * Group name used for tiles without a value for the group key
+ * (shown as a localized "Other", kept apart from groups really named so)
+ */
+export const UNGROUPED_KEY = '__ungrouped__';
+
+/**
+ * Maximum number of group levels (groups + subgroups + tiles = three levels)
+ */
+const MAX_GROUP_DEPTH = 2;
+
+export type GroupAggregate = 'sum' | 'mean' | 'min' | 'max';
+
+/**
+ * Normalize group_by config to a list of keys (at most two levels)
+ */
+export function getGroupKeys(groupBy: string | string[] | undefined): string[] {
+  if (!groupBy) return [];
+  const keys = Array.isArray(groupBy) ? groupBy : [groupBy];
+  return keys.filter(key => key.length > 0).slice(0, MAX_GROUP_DEPTH);
+}
+
+/**
+ * Turn a registry id into a readable name ("living_room" -> "Living room")
+ */
+function humanizeId(id: string): string {
+  const text = id.replaceAll('_', ' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Resolve the area id of an entity (entity area overrides device area, like HA does)
+ */
+export function getEntityAreaId(hass: HomeAssistant, entityId: string): string | undefined {
+  const entry = hass.entities?.[entityId];
+  if (!entry) return undefined;
+  if (entry.area_id) return entry.area_id;
+  if (!entry.device_id) return undefined;
+  return hass.devices?.[entry.device_id]?.area_id ?? undefined;
+}
+
+/**
+ * Get the group name of an entity for a group key
+ * Built-in keys use the HA registries; any other key reads the entity attribute.
+ */
+export function getEntityGroupName(hass: HomeAssistant, entityId: string, key: string): string {
+  switch (key) {
+    case 'domain': {
+      return entityId.split('.')[0] ?? UNGROUPED_KEY;
+    }
+    case 'area': {
+      const areaId = getEntityAreaId(hass, entityId);
+      if (!areaId) return UNGROUPED_KEY;
+      return hass.areas?.[areaId]?.name ?? humanizeId(areaId);
+    }
+    case 'floor': {
+      const areaId = getEntityAreaId(hass, entityId);
+      const floorId = areaId ? hass.areas?.[areaId]?.floor_id : undefined;
+      if (!floorId) return UNGROUPED_KEY;
+      return hass.floors?.[floorId]?.name ?? humanizeId(floorId);
+    }
+    case 'device': {
+      const deviceId = hass.entities?.[entityId]?.device_id;
+      if (!deviceId) return UNGROUPED_KEY;
+      const device = hass.devices?.[deviceId];
+      return device?.name_by_user || device?.name || deviceId;
+    }
+    case 'label': {
+      const labelId = hass.entities?.[entityId]?.labels?.[0];
+      return labelId ? humanizeId(labelId) : UNGROUPED_KEY;
+    }
+    default: {
+      const value = hass.states[entityId]?.attributes[key];
+      return getFieldGroupName(value);
+    }
+  }
+}
+
+/**
+ * Get the group name from a raw attribute / JSON field value
+ */
+export function getFieldGroupName(value: unknown): string {
+  if (value === undefined || value === null || value === '') return UNGROUPED_KEY;
+  return String(value);
+}
+
+/**
+ * Node of the group hierarchy
+ */
+export interface TreemapGroup {
+  label: string;
+  path: string[];
+  items: TreemapItem[]; // Tiles directly in this group (only for innermost groups)
+  children: TreemapGroup[];
+}
+
+/**
+ * Build the group hierarchy from items with a group path.
+ * Items without a group path end up in an ungrouped ("Other") group so every tile is framed.
+ * Group order follows first appearance, so input sorting is preserved.
+ */
+export function buildGroups(items: TreemapItem[]): TreemapGroup[] {
+  const root: TreemapGroup = { label: '', path: [], items: [], children: [] };
+
+  for (const item of items) {
+    const path = item.group && item.group.length > 0 ? item.group : [UNGROUPED_KEY];
+    let node = root;
+    for (const name of path) {
+      let child = node.children.find(c => c.label === name);
+      if (!child) {
+        child = { label: name, path: [...node.path, name], items: [], children: [] };
+        node.children.push(child);
+      }
+      node = child;
+    }
+    node.items.push(item);
+  }
+
+  return root.children;
+}
+
+/**
+ * Collect all tiles of a group, including nested subgroups
+ */
+function collectItems(group: TreemapGroup): TreemapItem[] {
+  return [...group.items, ...group.children.flatMap(collectItems)];
+}
+
+/**
+ * Aggregate display values of a list of items
+ */
+export function aggregateValues(values: number[], method: GroupAggregate = 'sum'): number {
+  if (values.length === 0) return 0;
+  switch (method) {
+    case 'mean': {
+      return values.reduce((a, b) => a + b, 0) / values.length;
+    }
+    case 'min': {
+      return Math.min(...values);
+    }
+    case 'max': {
+      return Math.max(...values);
+    }
+    default: {
+      return values.reduce((a, b) => a + b, 0);
+    }
+  }
+}
+
+export interface GroupLayoutOptions extends SquarifyOptions {
+  headerHeight?: number; // Space reserved for group headers (layout units)
+  aggregate?: GroupAggregate;
+}
+
+export interface GroupLayoutResult {
+  rects: TreemapRect[];
+  groups: TreemapGroupRect[];
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Lay out groups recursively: groups are squarified by their total size,
+ * then tiles (or subgroups) are squarified inside each group below its header.
+ */
+export function squarifyGroups(
+  groups: TreemapGroup[],
+  width: number,
+  height: number,
+  options: GroupLayoutOptions = {}
+): GroupLayoutResult {
+  const result: GroupLayoutResult = { rects: [], groups: [] };
+  layoutLevel(groups, { x: 0, y: 0, width, height }, options, result);
+  return result;
+}
+
+function layoutLevel(
+  groups: TreemapGroup[],
+  box: Box,
+  options: GroupLayoutOptions,
+  result: GroupLayoutResult
+): void {
+  const { headerHeight = 0, aggregate = 'sum', ...squarifyOptions } = options;
+
+  // Each group becomes a pseudo item sized by the total size of its tiles
+  // (or by tile count when all tiles are equal-sized)
+  const groupItems = groups.map(group => {
+    const tiles = collectItems(group);
+    const size = squarifyOptions.equalSize
+      ? tiles.length
+      : tiles.reduce((sum, tile) => sum + Math.abs(tile.sizeValue), 0);
+    return {
+      group,
+      tiles,
+      item: { label: group.label, value: size, sizeValue: size, sortValue: size, colorValue: 0 },
+    };
+  });
+
+  const { rects: groupRects } = squarify(
+    groupItems.map(({ item }) => item),
+    box.width,
+    box.height,
+    {
+      ...squarifyOptions,
+      equalSize: false,
+      // Groups have no entity_id, so alphabetical sorting falls back to the group name
+      sortBy: squarifyOptions.sortBy === 'entity_id' ? 'label' : squarifyOptions.sortBy,
+    }
+  );
+
+  for (const groupRect of groupRects) {
+    const entry = groupItems.find(({ group }) => group.label === groupRect.label);
+    if (!entry) continue;
+    const { group, tiles } = entry;
+
+    const frame: Box = {
+      x: box.x + groupRect.x,
+      y: box.y + groupRect.y,
+      width: groupRect.width,
+      height: groupRect.height,
+    };
+    const units = new Set(tiles.map(tile => tile.unit));
+    const [unit] = units;
+
+    result.groups.push({
+      label: group.label,
+      path: group.path,
+      value: aggregateValues(
+        tiles.map(tile => tile.value),
+        aggregate
+      ),
+      unit: units.size === 1 ? unit : undefined,
+      count: tiles.length,
+      depth: group.path.length - 1,
+      ...frame,
+    });
+
+    // Reserve header space only when the group is tall enough to hold content below it
+    const header = frame.height > headerHeight * 2 ? headerHeight : 0;
+    const inner: Box = {
+      x: frame.x,
+      y: frame.y + header,
+      width: frame.width,
+      height: frame.height - header,
+    };
+
+    if (group.children.length > 0) {
+      const nested = [...group.children];
+      if (group.items.length > 0) {
+        nested.push({
+          label: UNGROUPED_KEY,
+          path: [...group.path, UNGROUPED_KEY],
+          items: group.items,
+          children: [],
+        });
+      }
+      layoutLevel(nested, inner, options, result);
+      continue;
+    }
+
+    // squarify uses 'value' field for sizing
+    const { rects } = squarify(
+      group.items.map(item => ({ ...item, value: item.sizeValue })),
+      inner.width,
+      inner.height,
+      squarifyOptions
+    );
+    for (const rect of rects) {
+      rect.x += inner.x;
+      rect.y += inner.y;
+      result.rects.push(rect);
+    }
+  }
+}
+
+/**
+ * Get the zoom path of a tile: its group names followed by its own key
+ */
+export function getTilePath(item: TreemapItem): string[] {
+  return [...(item.group ?? []), getTileKey(item)];
+}
+
+/**
+ * Restrict items to the subtree at a zoom path.
+ * Returns items with the zoomed groups stripped from their group path,
+ * or undefined when nothing matches (e.g. the group disappeared).
+ */
+export function zoomItems(items: TreemapItem[], path: string[]): TreemapItem[] | undefined {
+  if (path.length === 0) return items;
+
+  const zoomed: TreemapItem[] = [];
+  for (const item of items) {
+    const tilePath = getTilePath(item);
+    if (path.every((name, index) => tilePath[index] === name)) {
+      const group = item.group?.slice(path.length);
+      zoomed.push({ ...item, group: group && group.length > 0 ? group : undefined });
+    }
+  }
+  return zoomed.length > 0 ? zoomed : undefined;
+}
@@ -0,0 +1,282 @@
+import type { TreemapItem, TreemapRect } from '../types';
+
+/**
+ * Shared building blocks for the treemap layout algorithms
+ * (squarify, strip, slice-and-dice, pivot and stable)
+ */
+
+export interface Container {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Item with its area in layout units (normalized so all areas fill the container)
+ */
+export interface LayoutEntry {
+  item: TreemapItem;
+  normalizedValue: number;
+}
+
+export type SortBy = 'value' | 'entity_id' | 'label' | 'default';
+
+/**
+ * Key of the "others" tile, kept apart from its (configurable) label so it can't
+ * collide with a group or tile of the same name
+ */
+export const OTHERS_KEY = '__others__';
+
+/**
+ * Get the unique key of a tile (entity_id, or label in JSON mode and for groups).
+ * Labels of JSON sources are prefixed with the source, which may repeat them.
+ */
+export function getTileKey(item: {
+  label: string;
+  entity_id?: string;
+  source?: string;
+  aggregated?: unknown[];
+  key?: string;
+}): string {
+  if (item.key) return item.key;
+  if (item.entity_id) return item.entity_id;
+  if (item.aggregated) return OTHERS_KEY;
+  return item.source === undefined ? item.label : `${item.source}/${item.label}`;
+}
+
+/**
+ * Give items whose key repeats (JSON items sharing a label) a unique key,
+ * suffixed with their occurrence index ("AAPL", "AAPL#2", ...)
+ */
+export function withUniqueKeys(items: TreemapItem[]): TreemapItem[] {
+  const counts = new Map<string, number>();
+  return items.map(item => {
+    const key = getTileKey(item);
+    const count = (counts.get(key) ?? 0) + 1;
+    counts.set(key, count);
+    return count === 1 ? item : { ...item, key: `${key}#${count}` };
+  });
+}
+
+/**
+ * Create a positioned rect from an item, carrying over all item fields
+ */
+export function toRect(item: TreemapItem, box: Container): TreemapRect {
+  return { ...item, ...box };
+}
+
+/**
+ * Sum of the areas of layout entries
+ */
+export function sumAreas(entries: LayoutEntry[]): number {
+  return entries.reduce((accumulator, entry) => accumulator + entry.normalizedValue, 0);
+}
+
+/**
+ * Sort items based on sortBy strategy
+ */
+export function sortItems<T extends TreemapItem>(
+  items: T[],
+  sortBy: SortBy,
+  ascending: boolean
+): T[] {
+  if (sortBy === 'default') {
+    return [...items];
+  }
+
+  return [...items].sort((a, b) => {
+    let comparison: number;
+
+    if (sortBy === 'entity_id') {
+      const aId = a.entity_id ?? '';
+      const bId = b.entity_id ?? '';
+      comparison = aId.localeCompare(bId);
+    } else if (sortBy === 'label') {
+      comparison = a.label.localeCompare(b.label);
+    } else {
+      // sortBy === 'value': use sortValue (original signed, negated when size.inverse)
+      comparison = a.sortValue - b.sortValue;
+    }
+
+    return ascending ? comparison : -comparison;
+  });
+}
+
+/**
+ * Normalize and sort items for the layout algorithms
+ */
+export function normalizeAndSort(
+  items: TreemapItem[],
+  compressRange: boolean,
+  area: number,
+  sortBy: SortBy
+): LayoutEntry[] {
+  const absValues = items.map(item => Math.abs(item.value));
+  const maxAbs = Math.max(...absValues);
+
+  // Compress range using sqrt so small values are still visible
+  const sizeValues = compressRange
+    ? absValues.map(absValue => Math.sqrt(absValue / maxAbs) * maxAbs)
+    : absValues;
+
+  const totalSizeValue = sizeValues.reduce((a, b) => a + b, 0);
+
+  // Filter and map with indices preserved
+  const validItems: { item: TreemapItem; absValue: number; sizeValue: number }[] = [];
+  for (const [index, item] of items.entries()) {
+    const absValue = absValues[index];
+    const sizeValue = sizeValues[index];
+    if (absValue !== undefined && sizeValue !== undefined && sizeValue > 0 && item) {
+      validItems.push({ item, absValue, sizeValue });
+    }
+  }
+
+  // Map items with normalized values
+  const normalized = validItems.map(({ item, sizeValue }) => ({
+    item,
+    normalizedValue: (sizeValue / totalSizeValue) * area,
+  }));
+
+  // Sort based on sortBy parameter
+  if (sortBy === 'default') {
+    // Keep input order - no sorting
+  } else if (sortBy === 'entity_id') {
+    normalized.sort((a, b) => {
+      const aId = a.item.entity_id ?? '';
+      const bId = b.item.entity_id ?? '';
+      return aId.localeCompare(bId);
+    });
+  } else if (sortBy === 'label') {
+    normalized.sort((a, b) => a.item.label.localeCompare(b.item.label));
+  } else {
+    // sortBy === 'value': sort by normalizedValue (area) descending.
+    // Squarify requires largest items first to produce good aspect ratios.
+    // sortValue is for display order (grid layout), not layout order.
+    normalized.sort((a, b) => b.normalizedValue - a.normalizedValue);
+  }
+
+  return normalized;
+}
+
+/**
+ * Lay out entries side by side in a single slice of the container
+ * (left to right when horizontal, top to bottom otherwise), sized by area
+ */
+export function sliceLayout(
+  entries: LayoutEntry[],
+  container: Container,
+  horizontal: boolean
+): TreemapRect[] {
+  const total = sumAreas(entries);
+  const rects: TreemapRect[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const share = total > 0 ? entry.normalizedValue / total : 0;
+    if (horizontal) {
+      const width = container.width * share;
+      rects.push(
+        toRect(entry.item, {
+          x: container.x + offset,
+          y: container.y,
+          width,
+          height: container.height,
+        })
+      );
+      offset += width;
+    } else {
+      const height = container.height * share;
+      rects.push(
+        toRect(entry.item, {
+          x: container.x,
+          y: container.y + offset,
+          width: container.width,
+          height,
+        })
+      );
+      offset += height;
+    }
+  }
+
+  return rects;
+}
+
+/**
+ * Split a container into a leading box with the given share of the area and the rest
+ * (side by side when horizontal, stacked otherwise)
+ */
+export function splitBox(
+  box: Container,
+  share: number,
+  horizontal: boolean
+): [Container, Container] {
+  if (horizontal) {
+    const width = box.width * share;
+    return [
+      { x: box.x, y: box.y, width, height: box.height },
+      { x: box.x + width, y: box.y, width: box.width - width, height: box.height },
+    ];
+  }
+  const height = box.height * share;
+  return [
+    { x: box.x, y: box.y, width: box.width, height },
+    { x: box.x, y: box.y + height, width: box.width, height: box.height - height },
+  ];
+}
+
+/**
+ * Aspect ratio of a rectangle (always >= 1)
+ */
+export function aspectRatio(box: Container): number {
+  if (box.width <= 0 || box.height <= 0) return Infinity;
+  return Math.max(box.width / box.height, box.height / box.width);
+}
+
+/**
+ * Worst (largest) aspect ratio of a layout
+ */
+export function worstAspectRatio(rects: Container[]): number {
+  return rects.reduce((worst, rect) => Math.max(worst, aspectRatio(rect)), 1);
+}
+
+/**
+ * Mirror layout for ascending order (smallest items top-left)
+ */
+export function mirrorLayout(result: TreemapRect[], width: number, height: number): void {
+  for (const rect of result) {
+    // Mirror: new_x = width - old_x - rect_width, new_y = height - old_y - rect_height
+    rect.x = width - rect.x - rect.width;
+    rect.y = height - rect.y - rect.height;
+  }
+
+  // Normalize: shift all rects so the layout starts at (0,0)
+  const minX = Math.min(...result.map(rect => rect.x));
+  const minY = Math.min(...result.map(rect => rect.y));
+  if (minX !== 0 || minY !== 0) {
+    for (const rect of result) {
+      rect.x -= minX;
+      rect.y -= minY;
+    }
+  }
+}
+
+/**
+ * Count layout rows by unique Y positions
+ */
+export function countRows(rects: TreemapRect[]): number {
+  return new Set(rects.map(rect => Math.round(rect.y * 100) / 100)).size;
+}
+
+/**
+ * Convert boxes laid out in a width x height space to percentages of that space
+ */
+export function scaleToPercent(boxes: Container[], width: number, height: number): void {
+  if (width === 100 && height === 100) return;
+  for (const box of boxes) {
+    box.x = (box.x / width) * 100;
+    box.y = (box.y / height) * 100;
+    box.width = (box.width / width) * 100;
+    box.height = (box.height / height) * 100;
+  }
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { getLegendScale } from './legend';
+
+const gradient = { colorLow: '#ff0000', colorHigh: '#0000ff' };
+
+describe('getLegendScale', () => {
+  it('samples a smooth gradient from low to high', () => {
+    const { colors } = getLegendScale(0, 100, gradient, 5);
+
+    expect(colors[0]).toBe('rgb(255, 0, 0) 0%');
+    expect(colors.at(-1)).toBe('rgb(0, 0, 255) 100%');
+  });
+
+  it('spaces ticks evenly over the data range', () => {
+    const { ticks } = getLegendScale(0, 100, gradient, 5);
+
+    expect(ticks).toEqual([
+      { value: 0, position: 0 },
+      { value: 25, position: 25 },
+      { value: 50, position: 50 },
+      { value: 75, position: 75 },
+      { value: 100, position: 100 },
+    ]);
+  });
+
+  it('uses the color scale instead of the data range', () => {
+    const { ticks } = getLegendScale(10, 20, { ...gradient, scaleMin: 0, scaleMax: 40 }, 3);
+
+    expect(ticks.map(tick => tick.value)).toEqual([0, 20, 40]);
+  });
+
+  it('uses at least two ticks', () => {
+    expect(getLegendScale(0, 10, gradient, 1).ticks).toHaveLength(2);
+  });
+
+  it('widens the range to include all color stops', () => {
+    const stops = [
+      { value: -10, color: '#0000ff' },
+      { value: 50, color: '#ff0000' },
+    ];
+    const { ticks } = getLegendScale(0, 20, { ...gradient, stops }, 2);
+
+    expect(ticks.map(tick => tick.value)).toEqual([-10, 50]);
+  });
+
+  it('draws bands with hard edges and a tick per stop', () => {
+    const stops = [
+      { value: 0, color: '#00ff00' },
+      { value: 50, color: '#ff0000' },
+    ];
+    const { colors, ticks } = getLegendScale(0, 100, { ...gradient, stops, bands: true }, 5);
+
+    expect(colors).toEqual([
+      'rgb(0, 255, 0) 0%',
+      'rgb(0, 255, 0) 50%',
+      'rgb(255, 0, 0) 50%',
+      'rgb(255, 0, 0) 100%',
+    ]);
+    expect(ticks.map(tick => tick.value)).toEqual([0, 50, 100]);
+  });
+
+  it('leaves room for the last band when the data ends at the last stop', () => {
+    const stops = [
+      { value: 0, color: '#00ff00' },
+      { value: 10, color: '#ffff00' },
+      { value: 20, color: '#ff0000' },
+    ];
+    const { ticks } = getLegendScale(0, 20, { ...gradient, stops, bands: true }, 5);
+
+    expect(ticks.map(tick => tick.value)).toEqual([0, 10, 20, 30]);
+  });
+
+  it('returns a single color when all values are equal', () => {
+    const { colors, ticks } = getLegendScale(5, 5, gradient, 5);
+
+    expect(colors).toHaveLength(2);
+    expect(colors[0]?.split(' ').slice(0, -1)).toEqual(colors[1]?.split(' ').slice(0, -1));
+    expect(ticks).toEqual([{ value: 5, position: 0 }]);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Color legend scale
+ *
+ * Turns the gradient configuration (low/mid/high, palette or color stops)
+ * into CSS gradient stops and tick positions for the legend bar.
+ */
+
+import { getColorStops, getGradientColor, type GradientColorOptions } from './colors';
+
+// Samples per smooth gradient (CSS would blend in sRGB, so perceptual blends are sampled)
+const GRADIENT_SAMPLES = 16;
+
+interface LegendTick {
+  value: number;
+  position: number; // 0-100 (% along the bar)
+}
+
+export interface LegendScale {
+  colors: string[]; // CSS gradient stops ("<color> <position>%")
+  ticks: LegendTick[];
+}
+
+/**
+ * Build the legend scale for a data range (min/max of the color values)
+ */
+export function getLegendScale(
+  min: number,
+  max: number,
+  options: GradientColorOptions,
+  tickCount: number
+): LegendScale {
+  const stops = getColorStops(min, max, options);
+  const first = stops[0]?.value ?? min;
+  const last = stops.at(-1)?.value ?? max;
+  const low = Math.min(first, options.scaleMin ?? min);
+  let high = Math.max(last, options.scaleMax ?? max);
+
+  // Leave room for the last band, which starts at the last stop
+  if (options.bands && high <= last && stops.length > 1) {
+    high = last + (last - first) / (stops.length - 1);
+  }
+
+  const span = high - low;
+  const position = (value: number) => (span > 0 ? ((value - low) / span) * 100 : 0);
+  const colorAt = (value: number) => getGradientColor(value, min, max, options);
+
+  if (span <= 0) {
+    const color = colorAt(low);
+    return { colors: [`${color} 0%`, `${color} 100%`], ticks: [{ value: low, position: 0 }] };
+  }
+
+  if (options.bands) {
+    // Hard edges: each band repeats its color at both ends
+    const edges = [
+      low,
+      ...stops.map(stop => stop.value).filter(value => value > low && value < high),
+      high,
+    ];
+    const colors = edges.slice(0, -1).flatMap((edge, index) => {
+      const color = colorAt(edge);
+      return [`${color} ${position(edge)}%`, `${color} ${position(edges[index + 1] ?? high)}%`];
+    });
+    return { colors, ticks: edges.map(value => ({ value, position: position(value) })) };
+  }
+
+  const colors = Array.from({ length: GRADIENT_SAMPLES + 1 }, (_, index) => {
+    const value = low + (span * index) / GRADIENT_SAMPLES;
+    return `${colorAt(value)} ${position(value)}%`;
+  });
+  const count = Math.max(2, Math.round(tickCount));
+  const ticks = Array.from({ length: count }, (_, index) => {
+    const value = low + (span * index) / (count - 1);
+    return { value, position: position(value) };
+  });
+  return { colors, ticks };
+}
@@ -3,8 +3,10 @@
  */
 
 import type { LightColorInfo, HassEntity } from '../types';
+import type { DomainHandler } from './domains';
 import { getNumber, getStringArray, getRgbColor, getHsColor } from './predicates';
 import { hsToRgb, parseColor } from './colors';
+import { THEME_DEFAULTS } from './theme';
 
 /**
  * Check if entity is a light
@@ -89,3 +91,53 @@ export function getLightBackgroundColor(
   }
   return onColor;
 }
+
+/**
+ * Lights: brightness as value, the light's own color as background
+ */
+export const lightHandler: DomainHandler = {
+  name: 'light',
+  matches: isLightEntity,
+  getIcon: () => 'mdi:lightbulb',
+  resolveItem: ({ entityId, entity, label, icon }) => {
+    const lightInfo = extractLightInfo(entity);
+    const { brightness } = lightInfo;
+
+    // Size: off lights get 10%, on lights get 40-100% based on brightness
+    // This ensures on lights are clearly separated from off lights
+    const sizeValue = lightInfo.isOn ? 40 + (brightness / 100) * 60 : 10;
+
+    return {
+      label,
+      value: brightness, // Display brightness as percentage
+      sizeValue,
+      sortValue: brightness,
+      colorValue: brightness,
+      entity_id: entityId,
+      icon,
+      unit: '%',
+      light: lightInfo,
+    };
+  },
+  getColor: (rect, { config, resolveColor }) => {
+    if (!rect.light) return undefined;
+    const offColor = resolveColor(config?.color?.low ?? THEME_DEFAULTS.lightOff);
+    const onColor = resolveColor(config?.color?.high ?? THEME_DEFAULTS.lightOn);
+    return getLightBackgroundColor(rect.light, offColor, onColor);
+  },
+  // Brightness of dimmable lights (adjust option)
+  adjustOptIn: true,
+  getAdjust: ({ light }, { attributes }) => {
+    const modes = getStringArray(attributes['supported_color_modes']);
+    const dimmable = modes.some(mode => mode !== 'onoff');
+    if (!light || !dimmable) return undefined;
+    return {
+      service: 'light.turn_on',
+      field: 'brightness_pct',
+      value: light.brightness,
+      min: 0,
+      max: 100,
+      step: 1,
+    };
+  },
+};
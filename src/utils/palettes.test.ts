@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { getPaletteCategoryColor, getPaletteColors } from './palettes';
+
+describe('getPaletteColors', () => {
+  it('returns palettes from low to high', () => {
+    expect(getPaletteColors('viridis')?.[0]).toBe('#440154');
+    expect(getPaletteColors('viridis')?.at(-1)).toBe('#fde725');
+    expect(getPaletteColors('red_blue')?.[0]).toBe('#b2182b');
+    expect(getPaletteColors('okabe_ito')).toHaveLength(8);
+  });
+
+  it('returns undefined for unknown palettes', () => {
+    expect(getPaletteColors('magma')).toBeUndefined();
+    expect(getPaletteColors('toString')).toBeUndefined();
+  });
+});
+
+describe('getPaletteCategoryColor', () => {
+  it('always picks the same color for a category', () => {
+    expect(getPaletteCategoryColor('okabe_ito', 'Tech')).toBe(
+      getPaletteCategoryColor('okabe_ito', 'Tech')
+    );
+  });
+
+  it('picks colors from the palette', () => {
+    const colors = getPaletteColors('okabe_ito');
+    for (const category of ['Tech', 'Energy', 'Health', '']) {
+      expect(colors).toContain(getPaletteCategoryColor('okabe_ito', category));
+    }
+  });
+
+  it('returns undefined for unknown palettes', () => {
+    expect(getPaletteCategoryColor('magma', 'Tech')).toBeUndefined();
+  });
+
+  it('spreads categories over several colors', () => {
+    const picked = new Set(
+      ['a', 'b', 'c', 'd', 'e', 'f'].map(category => getPaletteCategoryColor('okabe_ito', category))
+    );
+    expect(picked.size).toBeGreaterThan(3);
+  });
+});
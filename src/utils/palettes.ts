@@ -0,0 +1,73 @@
+/**
+ * Built-in named color palettes
+ *
+ * viridis and cividis are perceptually uniform sequential palettes that stay
+ * readable with color vision deficiencies (cividis is optimized for them),
+ * red_blue is a diverging palette (ColorBrewer RdBu) and okabe_ito is the
+ * Okabe-Ito colorblind-safe categorical palette.
+ */
+
+export type PaletteName = 'viridis' | 'cividis' | 'red_blue' | 'okabe_ito';
+
+const PALETTES: Record<PaletteName, string[]> = {
+  viridis: [
+    '#440154',
+    '#482878',
+    '#3e4989',
+    '#31688e',
+    '#26828e',
+    '#1f9e89',
+    '#35b779',
+    '#6ece58',
+    '#b5de2b',
+    '#fde725',
+  ],
+  cividis: [
+    '#00224e',
+    '#123570',
+    '#3b496c',
+    '#575d6d',
+    '#707173',
+    '#8a8779',
+    '#a69d75',
+    '#c4b56c',
+    '#e4cf5b',
+    '#fee838',
+  ],
+  red_blue: ['#b2182b', '#ef8a62', '#fddbc7', '#f7f7f7', '#d1e5f0', '#67a9cf', '#2166ac'],
+  okabe_ito: [
+    '#e69f00',
+    '#56b4e9',
+    '#009e73',
+    '#f0e442',
+    '#0072b2',
+    '#d55e00',
+    '#cc79a7',
+    '#000000',
+  ],
+};
+
+function isPaletteName(name: string): name is PaletteName {
+  return Object.keys(PALETTES).includes(name);
+}
+
+/**
+ * Get the colors of a named palette, from low to high (undefined for unknown names,
+ * e.g. a typo in the YAML config)
+ */
+export function getPaletteColors(name: string): string[] | undefined {
+  return isPaletteName(name) ? PALETTES[name] : undefined;
+}
+
+/**
+ * Pick a palette color for a category. The same category always gets the same color.
+ */
+export function getPaletteCategoryColor(name: string, category: string): string | undefined {
+  const colors = getPaletteColors(name);
+  if (!colors) return undefined;
+  let hash = 0;
+  for (const char of category) {
+    hash = (hash * 31 + (char.codePointAt(0) ?? 0)) >>> 0;
+  }
+  return colors[hash % colors.length];
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { getMissingPathError, getPath, parsePath, readPath } from './paths';
+
+describe('parsePath', () => {
+  it('splits dotted keys', () => {
+    expect(parsePath('data.holdings')).toEqual(['data', 'holdings']);
+    expect(parsePath('value')).toEqual(['value']);
+  });
+
+  it('reads array indices and quoted keys', () => {
+    expect(parsePath('forecast[0].temperature')).toEqual(['forecast', 0, 'temperature']);
+    expect(parsePath("prices['day ahead'][2]")).toEqual(['prices', 'day ahead', 2]);
+    expect(parsePath('["a.b"]')).toEqual(['a.b']);
+  });
+});
+
+describe('readPath', () => {
+  const data = {
+    data: { holdings: [{ quote: { price: 12.5, change: null } }] },
+    'friendly.name': 'Dotted',
+  };
+
+  it('walks nested objects and arrays', () => {
+    expect(readPath(data, 'data.holdings[0].quote.price')).toEqual({ found: true, value: 12.5 });
+    expect(getPath(data, 'data.holdings[0].quote')).toEqual({ price: 12.5, change: null });
+  });
+
+  it('tells null values apart from missing paths', () => {
+    expect(readPath(data, 'data.holdings[0].quote.change')).toEqual({ found: true, value: null });
+    expect(readPath(data, 'data.holdings[0].quote.volume')).toEqual({
+      found: false,
+      value: undefined,
+    });
+    expect(readPath(data, 'data.holdings[3]').found).toBe(false);
+    expect(readPath(data, 'data.holdings.0.quote.price.cents').found).toBe(false);
+  });
+
+  it('prefers keys that contain dots', () => {
+    expect(getPath(data, 'friendly.name')).toBe('Dotted');
+  });
+
+  it('does not read inherited properties', () => {
+    expect(readPath({}, 'constructor').found).toBe(false);
+    expect(readPath({ item: {} }, 'item.toString').found).toBe(false);
+  });
+});
+
+describe('getMissingPathError', () => {
+  it('names the option and path', () => {
+    expect(getMissingPathError('value', 'quote.price')).toBe('value: "quote.price" not found');
+  });
+});
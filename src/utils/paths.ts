@@ -0,0 +1,73 @@
+/**
+ * Nested field paths for attributes and JSON items
+ *
+ * `data.holdings`, `quote.price`, `forecast[0].temperature` and `['odd key']`
+ * walk into nested objects and arrays. A key that exists as-is wins, so
+ * attributes whose names contain dots keep working.
+ */
+
+import { isRecord } from './predicates';
+
+// Parsed paths by source (the same few paths are read for every item)
+const cache = new Map<string, (string | number)[]>();
+
+/**
+ * Split a path into keys and array indices: `a.b[0]['c d']` -> ['a', 'b', 0, 'c d']
+ */
+export function parsePath(path: string): (string | number)[] {
+  const cached = cache.get(path);
+  if (cached) return cached;
+
+  const keys: (string | number)[] = [];
+  const pattern = /([^.[\]]+)|\[(\d+)\]|\[(["'])(.*?)\3\]/g;
+  for (const match of path.matchAll(pattern)) {
+    const [, key, index, , quoted] = match;
+    if (key !== undefined) keys.push(key);
+    else if (index !== undefined) keys.push(Number(index));
+    else if (quoted !== undefined) keys.push(quoted);
+  }
+
+  cache.set(path, keys);
+  return keys;
+}
+
+/**
+ * Result of reading a path: found is false when any step is missing
+ */
+interface PathValue {
+  found: boolean;
+  value: unknown;
+}
+
+/**
+ * Read a path from an object, telling a missing path apart from a null value
+ */
+export function readPath(object: unknown, path: string): PathValue {
+  if (isRecord(object) && Object.hasOwn(object, path)) {
+    return { found: true, value: object[path] };
+  }
+
+  let current: unknown = object;
+  for (const key of parsePath(path)) {
+    const property = typeof key === 'number' ? String(key) : key;
+    if (!isRecord(current) || !Object.hasOwn(current, property)) {
+      return { found: false, value: undefined };
+    }
+    current = current[property];
+  }
+  return { found: true, value: current };
+}
+
+/**
+ * Get the value at a path (undefined when missing)
+ */
+export function getPath(object: unknown, path: string): unknown {
+  return readPath(object, path).value;
+}
+
+/**
+ * Error shown on a tile when a configured path is missing: `value: "quote.price" not found`
+ */
+export function getMissingPathError(option: string, path: string): string {
+  return `${option}: "${path}" not found`;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { pivotLayout } from './pivot';
+import { squarify } from './squarify';
+import { worstAspectRatio, type LayoutEntry } from './layout';
+import { sliceDiceLayout } from './slice-dice';
+import type { TreemapItem } from '../types';
+
+function makeItem(label: string, value: number): TreemapItem {
+  return { label, value, sizeValue: value, sortValue: value, colorValue: value };
+}
+
+function makeEntry(label: string, area: number): LayoutEntry {
+  return { item: makeItem(label, area), normalizedValue: area };
+}
+
+describe('pivotLayout', () => {
+  it('returns nothing for no entries', () => {
+    expect(pivotLayout([], { x: 0, y: 0, width: 100, height: 100 })).toEqual([]);
+  });
+
+  it('fills the container with a single entry', () => {
+    const [rect] = pivotLayout([makeEntry('A', 10_000)], { x: 0, y: 0, width: 100, height: 100 });
+    expect(rect).toMatchObject({ x: 0, y: 0, width: 100, height: 100 });
+  });
+
+  it('places items before the pivot in a band on the leading side', () => {
+    const entries = [makeEntry('A', 2000), makeEntry('B', 4000), makeEntry('C', 4000)];
+    const rects = pivotLayout(entries, { x: 0, y: 0, width: 100, height: 100 });
+
+    const a = rects.find(rect => rect.label === 'A');
+    expect(a).toMatchObject({ x: 0, y: 0, height: 100 });
+    expect(a?.width).toBeCloseTo(20);
+  });
+
+  it('preserves every area and covers the container', () => {
+    const areas = [3000, 2000, 1500, 1200, 1000, 800, 500];
+    const entries = areas.map((area, index) => makeEntry(`T${index}`, area));
+    const rects = pivotLayout(entries, { x: 0, y: 0, width: 100, height: 100 });
+
+    expect(rects).toHaveLength(areas.length);
+    for (const rect of rects) {
+      const entry = entries.find(e => e.item.label === rect.label);
+      expect(rect.width * rect.height).toBeCloseTo(entry?.normalizedValue ?? 0);
+    }
+    const totalArea = rects.reduce((sum, rect) => sum + rect.width * rect.height, 0);
+    expect(totalArea).toBeCloseTo(10_000);
+  });
+
+  it('produces squarer tiles than slice-and-dice', () => {
+    const entries = Array.from({ length: 12 }, (_, index) => makeEntry(`T${index}`, 10_000 / 12));
+    const container = { x: 0, y: 0, width: 100, height: 100 };
+
+    expect(worstAspectRatio(pivotLayout(entries, container))).toBeLessThan(
+      worstAspectRatio(sliceDiceLayout(entries, container))
+    );
+  });
+
+  it('is selected with algorithm: pivot', () => {
+    const items = [makeItem('A', 40), makeItem('B', 30), makeItem('C', 20), makeItem('D', 10)];
+    const { rects } = squarify(items, 100, 100, { algorithm: 'pivot', compressRange: false });
+
+    expect(rects).toHaveLength(4);
+    const totalArea = rects.reduce((sum, rect) => sum + rect.width * rect.height, 0);
+    expect(totalArea).toBeCloseTo(10_000);
+  });
+});
@@ -0,0 +1,63 @@
+import type { TreemapRect } from '../types';
+import {
+  aspectRatio,
+  splitBox,
+  sumAreas,
+  toRect,
+  type Container,
+  type LayoutEntry,
+} from './layout';
+
+/**
+ * Pivot-by-middle treemap algorithm
+ * Based on: Shneiderman & Wattenberg, "Ordered Treemap Layouts"
+ *
+ * The middle item is the pivot. Items before it fill a band along the leading
+ * side (R1). The pivot shares a second band with the items right after it (R2),
+ * sized so the pivot is as square as possible; the remaining items (R3) take
+ * the rest. Each region is laid out recursively, which keeps the input order
+ * while producing better aspect ratios than strips.
+ */
+
+/**
+ * Lay out entries (already normalized to the container area) by recursive pivoting
+ */
+export function pivotLayout(entries: LayoutEntry[], container: Container): TreemapRect[] {
+  const total = sumAreas(entries);
+  if (entries.length === 0 || total <= 0) return [];
+
+  const pivotIndex = Math.floor(entries.length / 2);
+  const pivot = entries[pivotIndex];
+  if (!pivot) return [];
+  if (entries.length === 1) return [toRect(pivot.item, container)];
+
+  // Bands run along the longer side so the pivot has room to be square
+  const horizontal = container.width >= container.height;
+  const before = entries.slice(0, pivotIndex);
+  const after = entries.slice(pivotIndex + 1);
+
+  const [leading, remaining] = splitBox(container, sumAreas(before) / total, horizontal);
+  const remainingArea = total - sumAreas(before);
+
+  // Try every split of the following items into R2 / R3 and keep the squarest pivot
+  let best: { pivotBox: Container; r2Box: Container; r3Box: Container; split: number } | undefined;
+  let bestRatio = Infinity;
+  for (let split = 0; split <= after.length; split++) {
+    const bandArea = pivot.normalizedValue + sumAreas(after.slice(0, split));
+    const [band, r3Box] = splitBox(remaining, bandArea / remainingArea, horizontal);
+    const [pivotBox, r2Box] = splitBox(band, pivot.normalizedValue / bandArea, !horizontal);
+    const ratio = aspectRatio(pivotBox);
+    if (ratio < bestRatio) {
+      bestRatio = ratio;
+      best = { pivotBox, r2Box, r3Box, split };
+    }
+  }
+  if (!best) return [];
+
+  return [
+    ...pivotLayout(before, leading),
+    toRect(pivot.item, best.pivotBox),
+    ...pivotLayout(after.slice(0, best.split), best.r2Box),
+    ...pivotLayout(after.slice(best.split), best.r3Box),
+  ];
+}
@@ -11,6 +11,7 @@ import {
   getHvacAction,
   getNumber,
   getString,
+  getScalarString,
   getStringArray,
   getRgbColor,
   getHsColor,
@@ -192,6 +193,20 @@ describe('getString', () => {
   });
 });
 
+describe('getScalarString', () => {
+  it('converts scalars to strings', () => {
+    expect(getScalarString('Tech')).toBe('Tech');
+    expect(getScalarString(42)).toBe('42');
+    expect(getScalarString(false)).toBe('false');
+  });
+
+  it('returns undefined for other values', () => {
+    expect(getScalarString(null)).toBeUndefined();
+    expect(getScalarString(undefined)).toBeUndefined();
+    expect(getScalarString({ a: 1 })).toBeUndefined();
+  });
+});
+
 describe('getStringArray', () => {
   it('returns array for valid values', () => {
     expect(getStringArray(['a', 'b'])).toEqual(['a', 'b']);
@@ -38,6 +38,13 @@ export function isStringArray(value: unknown): value is string[] {
   return Array.isArray(value) && value.every(item => typeof item === 'string');
 }
 
+/**
+ * Check if a value is a plain object (attributes, JSON items); arrays count too
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
 /**
  * Check if a value is an RGB color tuple [r, g, b]
  */
@@ -98,6 +105,15 @@ export function getString(value: unknown): string | undefined {
   return undefined;
 }
 
+/**
+ * Get a string from a scalar value (string, number or boolean)
+ */
+export function getScalarString(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return undefined;
+}
+
 /**
  * Safely get a string array from an unknown value
  */
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { sliceDiceLayout } from './slice-dice';
+import { squarify } from './squarify';
+import type { LayoutEntry } from './layout';
+import type { TreemapItem } from '../types';
+
+function makeItem(label: string, value: number): TreemapItem {
+  return { label, value, sizeValue: value, sortValue: value, colorValue: value };
+}
+
+function makeEntry(label: string, area: number): LayoutEntry {
+  return { item: makeItem(label, area), normalizedValue: area };
+}
+
+describe('sliceDiceLayout', () => {
+  it('returns nothing for no entries', () => {
+    expect(sliceDiceLayout([], { x: 0, y: 0, width: 100, height: 100 })).toEqual([]);
+  });
+
+  it('slices a wide container into columns in input order', () => {
+    const entries = [makeEntry('A', 1000), makeEntry('B', 3000), makeEntry('C', 1000)];
+    const rects = sliceDiceLayout(entries, { x: 0, y: 0, width: 100, height: 50 });
+
+    expect(rects.map(rect => rect.label)).toEqual(['A', 'B', 'C']);
+    expect(rects.map(rect => rect.x)).toEqual([0, 20, 80]);
+    expect(rects.map(rect => rect.width)).toEqual([20, 60, 20]);
+    for (const rect of rects) {
+      expect(rect.height).toBe(50);
+    }
+  });
+
+  it('slices a tall container into rows', () => {
+    const entries = [makeEntry('A', 2500), makeEntry('B', 2500)];
+    const rects = sliceDiceLayout(entries, { x: 0, y: 0, width: 50, height: 100 });
+
+    expect(rects.map(rect => rect.y)).toEqual([0, 50]);
+    expect(rects.map(rect => rect.width)).toEqual([50, 50]);
+  });
+
+  it('offsets slices by the container position', () => {
+    const [rect] = sliceDiceLayout([makeEntry('A', 100)], { x: 5, y: 7, width: 10, height: 10 });
+    expect(rect).toMatchObject({ x: 5, y: 7, width: 10, height: 10 });
+  });
+
+  it('is selected with algorithm: slice_dice', () => {
+    const items = [makeItem('A', 50), makeItem('B', 30), makeItem('C', 20)];
+    const { rects } = squarify(items, 100, 100, {
+      algorithm: 'slice_dice',
+      compressRange: false,
+    });
+
+    expect(rects.map(rect => rect.label)).toEqual(['A', 'B', 'C']);
+    expect(rects.map(rect => rect.width)).toEqual([50, 30, 20]);
+  });
+});
@@ -0,0 +1,14 @@
+import type { TreemapRect } from '../types';
+import { sliceLayout, type Container, type LayoutEntry } from './layout';
+
+/**
+ * Slice-and-dice treemap algorithm
+ * Based on: Shneiderman, "Tree visualization with tree-maps: 2-d space-filling approach"
+ *
+ * Items keep their input order and are sliced along the longer side of the
+ * container. In grouped treemaps each level is sliced inside its parent frame,
+ * so the slicing direction naturally alternates between levels.
+ */
+export function sliceDiceLayout(entries: LayoutEntry[], container: Container): TreemapRect[] {
+  return sliceLayout(entries, container, container.width >= container.height);
+}
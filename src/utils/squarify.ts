@@ -1,19 +1,29 @@
 import type { TreemapItem, TreemapRect } from '../types';
+import {
+  countRows,
+  mirrorLayout,
+  normalizeAndSort,
+  sortItems,
+  toRect,
+  worstAspectRatio,
+  type Container,
+  type LayoutEntry,
+  type SortBy,
+} from './layout';
+import { pivotLayout } from './pivot';
+import { sliceDiceLayout } from './slice-dice';
+import { stableLayout, type PreviousRect } from './stable';
+import { stripLayout } from './strip';
 
 /**
  * Squarified treemap algorithm
  * Based on: https://www.win.tue.nl/~vanwijk/stm.pdf
  *
- * Produces rectangles with aspect ratios as close to 1 as possible
+ * Produces rectangles with aspect ratios as close to 1 as possible.
+ * Also the entry point for the ordered algorithms (strip, slice-and-dice,
+ * pivot) and stable mode, selected via SquarifyOptions.
  */
 
-interface Container {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-}
-
 /**
  * Calculate the worst aspect ratio in a row
  */
@@ -35,7 +45,7 @@ function worst(row: number[], width: number): number {
  * Builds from top-left towards bottom-right (larger items in top-left, smaller in bottom-right)
  */
 function layoutRow(
-  row: { item: TreemapItem; normalizedValue: number }[],
+  row: LayoutEntry[],
   container: Container,
   vertical: boolean
 ): { rects: TreemapRect[]; remaining: Container } {
@@ -49,24 +59,9 @@ function layoutRow(
 
     for (const entry of row) {
       const height = entry.normalizedValue / rowWidth;
-      rects.push({
-        label: entry.item.label,
-        value: entry.item.value,
-        sizeValue: entry.item.sizeValue,
-        sortValue: entry.item.sortValue,
-        colorValue: entry.item.colorValue,
-        entity_id: entry.item.entity_id,
-        icon: entry.item.icon,
-        light: entry.item.light,
-        climate: entry.item.climate,
-        sparklineData: entry.item.sparklineData,
-        unavailable: entry.item.unavailable,
-        rawState: entry.item.rawState,
-        x: container.x,
-        y: container.y + offset,
-        width: rowWidth,
-        height,
-      });
+      rects.push(
+        toRect(entry.item, { x: container.x, y: container.y + offset, width: rowWidth, height })
+      );
       offset += height;
     }
 
@@ -84,24 +79,9 @@ function layoutRow(
 
     for (const entry of row) {
       const width = entry.normalizedValue / rowHeight;
-      rects.push({
-        label: entry.item.label,
-        value: entry.item.value,
-        sizeValue: entry.item.sizeValue,
-        sortValue: entry.item.sortValue,
-        colorValue: entry.item.colorValue,
-        entity_id: entry.item.entity_id,
-        icon: entry.item.icon,
-        light: entry.item.light,
-        climate: entry.item.climate,
-        sparklineData: entry.item.sparklineData,
-        unavailable: entry.item.unavailable,
-        rawState: entry.item.rawState,
-        x: container.x + offset,
-        y: container.y,
-        width,
-        height: rowHeight,
-      });
+      rects.push(
+        toRect(entry.item, { x: container.x + offset, y: container.y, width, height: rowHeight })
+      );
       offset += width;
     }
 
@@ -117,39 +97,21 @@ function layoutRow(
   }
 }
 
-type SortBy = 'value' | 'entity_id' | 'label' | 'default';
+// Worst aspect ratio a stable layout may reach before it is recomputed
+const DEFAULT_MAX_ASPECT_RATIO = 3;
+
+export type LayoutAlgorithm = 'squarify' | 'strip' | 'slice_dice' | 'pivot';
 
-interface SquarifyOptions {
+export interface SquarifyOptions {
   compressRange?: boolean;
   equalSize?: boolean;
   ascending?: boolean;
   sortBy?: SortBy;
-}
-
-/**
- * Sort items based on sortBy strategy
- */
-function sortItems<T extends TreemapItem>(items: T[], sortBy: SortBy, ascending: boolean): T[] {
-  if (sortBy === 'default') {
-    return [...items];
-  }
-
-  return [...items].sort((a, b) => {
-    let comparison: number;
-
-    if (sortBy === 'entity_id') {
-      const aId = a.entity_id ?? '';
-      const bId = b.entity_id ?? '';
-      comparison = aId.localeCompare(bId);
-    } else if (sortBy === 'label') {
-      comparison = a.label.localeCompare(b.label);
-    } else {
-      // sortBy === 'value': use sortValue (original signed, negated when size.inverse)
-      comparison = a.sortValue - b.sortValue;
-    }
-
-    return ascending ? comparison : -comparison;
-  });
+  algorithm?: LayoutAlgorithm;
+  // Stable mode: rects of the previous frame to keep the arrangement of
+  previous?: PreviousRect[];
+  // Stable mode: worst aspect ratio accepted before the layout is recomputed (default: 3)
+  maxAspectRatio?: number;
 }
 
 export interface SquarifyResult {
@@ -185,96 +147,30 @@ function gridLayout(
   // Sort items using shared sorting logic
   const sortedItems = sortItems(items, sortBy, ascending);
 
-  const rects = sortedItems.map((item, index) => ({
-    label: item.label,
-    value: item.value,
-    sizeValue: item.sizeValue,
-    sortValue: item.sortValue,
-    colorValue: item.colorValue,
-    entity_id: item.entity_id,
-    icon: item.icon,
-    light: item.light,
-    climate: item.climate,
-    sparklineData: item.sparklineData,
-    unavailable: item.unavailable,
-    rawState: item.rawState,
-    x: (index % cols) * cellWidth,
-    y: Math.floor(index / cols) * cellHeight,
-    width: cellWidth,
-    height: cellHeight,
-  }));
+  const rects = sortedItems.map((item, index) =>
+    toRect(item, {
+      x: (index % cols) * cellWidth,
+      y: Math.floor(index / cols) * cellHeight,
+      width: cellWidth,
+      height: cellHeight,
+    })
+  );
 
   return { rects, rows };
 }
 
-/**
- * Normalize and sort items for squarify algorithm
- */
-function normalizeAndSort(
-  items: TreemapItem[],
-  compressRange: boolean,
-  area: number,
-  sortBy: SortBy
-): { item: TreemapItem; normalizedValue: number }[] {
-  const absValues = items.map(item => Math.abs(item.value));
-  const maxAbs = Math.max(...absValues);
-
-  // Compress range using sqrt so small values are still visible
-  const sizeValues = compressRange
-    ? absValues.map(absValue => Math.sqrt(absValue / maxAbs) * maxAbs)
-    : absValues;
-
-  const totalSizeValue = sizeValues.reduce((a, b) => a + b, 0);
-
-  // Filter and map with indices preserved
-  const validItems: { item: TreemapItem; absValue: number; sizeValue: number }[] = [];
-  for (const [index, item] of items.entries()) {
-    const absValue = absValues[index];
-    const sizeValue = sizeValues[index];
-    if (absValue !== undefined && sizeValue !== undefined && sizeValue > 0 && item) {
-      validItems.push({ item, absValue, sizeValue });
-    }
-  }
-
-  // Map items with normalized values
-  const normalized = validItems.map(({ item, sizeValue }) => ({
-    item,
-    normalizedValue: (sizeValue / totalSizeValue) * area,
-  }));
-
-  // Sort based on sortBy parameter
-  if (sortBy === 'default') {
-    // Keep input order - no sorting
-  } else if (sortBy === 'entity_id') {
-    normalized.sort((a, b) => {
-      const aId = a.item.entity_id ?? '';
-      const bId = b.item.entity_id ?? '';
-      return aId.localeCompare(bId);
-    });
-  } else if (sortBy === 'label') {
-    normalized.sort((a, b) => a.item.label.localeCompare(b.item.label));
-  } else {
-    // sortBy === 'value': sort by normalizedValue (area) descending.
-    // Squarify requires largest items first to produce good aspect ratios.
-    // sortValue is for display order (grid layout), not layout order.
-    normalized.sort((a, b) => b.normalizedValue - a.normalizedValue);
-  }
-
-  return normalized;
-}
-
 /**
  * Build a row of items that minimizes aspect ratio
  */
 function buildRow(
-  remaining: { item: TreemapItem; normalizedValue: number }[],
+  remaining: LayoutEntry[],
   side: number
 ): {
-  row: { item: TreemapItem; normalizedValue: number }[];
+  row: LayoutEntry[];
   rowValues: number[];
-  newRemaining: { item: TreemapItem; normalizedValue: number }[];
+  newRemaining: LayoutEntry[];
 } {
-  const row: { item: TreemapItem; normalizedValue: number }[] = [];
+  const row: LayoutEntry[] = [];
   let rowValues: number[] = [];
   let currentRemaining = [...remaining];
 
@@ -301,33 +197,13 @@ function buildRow(
   return { row, rowValues, newRemaining: currentRemaining };
 }
 
-/**
- * Mirror layout for ascending order (smallest items top-left)
- */
-function mirrorLayout(result: TreemapRect[], width: number, height: number): void {
-  for (const rect of result) {
-    // Mirror: new_x = width - old_x - rect_width, new_y = height - old_y - rect_height
-    rect.x = width - rect.x - rect.width;
-    rect.y = height - rect.y - rect.height;
-  }
-
-  // Normalize: shift all rects so the layout starts at (0,0)
-  const minX = Math.min(...result.map(rect => rect.x));
-  const minY = Math.min(...result.map(rect => rect.y));
-  if (minX !== 0 || minY !== 0) {
-    for (const rect of result) {
-      rect.x -= minX;
-      rect.y -= minY;
-    }
-  }
-}
-
 /**
  * Main squarify algorithm
  * @param items - Items with values (can be negative for losses, positive for gains)
  * @param width - Container width
  * @param height - Container height
- * @param options - Optional settings: compressRange, equalSize, ascending
+ * @param options - Optional settings: compressRange, equalSize, ascending, sortBy,
+ *                  algorithm and stable mode (previous, maxAspectRatio)
  */
 export function squarify(
   items: TreemapItem[],
@@ -335,7 +211,15 @@ export function squarify(
   height: number,
   options: SquarifyOptions = {}
 ): SquarifyResult {
-  const { compressRange = true, equalSize = false, ascending = false, sortBy = 'value' } = options;
+  const {
+    compressRange = true,
+    equalSize = false,
+    ascending = false,
+    sortBy = 'value',
+    algorithm = 'squarify',
+    previous,
+    maxAspectRatio = DEFAULT_MAX_ASPECT_RATIO,
+  } = options;
 
   if (items.length === 0) return { rects: [], rows: 0 };
 
@@ -363,10 +247,72 @@ export function squarify(
 
   const area = width * height;
   const normalized = normalizeAndSort(items, compressRange, area, sortBy);
+  const container: Container = { x: 0, y: 0, width, height };
+
+  // Stable mode: keep the previous arrangement while its tiles stay reasonably shaped
+  if (previous) {
+    const seeded = stableLayout(normalized, container, previous);
+    if (seeded) {
+      const seededWorst = worstAspectRatio(seeded);
+      if (seededWorst <= maxAspectRatio) {
+        return { rects: seeded, rows: countRows(seeded) };
+      }
+      const fresh = runLayout(normalized, container, algorithm, ascending);
+      // Only move tiles when a fresh layout is actually better shaped
+      if (seededWorst <= worstAspectRatio(fresh)) {
+        return { rects: seeded, rows: countRows(seeded) };
+      }
+      return { rects: fresh, rows: countRows(fresh) };
+    }
+  }
+
+  const result = runLayout(normalized, container, algorithm, ascending);
+  return { rects: result, rows: countRows(result) };
+}
 
+/**
+ * Run the selected layout algorithm on normalized entries
+ */
+function runLayout(
+  entries: LayoutEntry[],
+  container: Container,
+  algorithm: LayoutAlgorithm,
+  ascending: boolean
+): TreemapRect[] {
+  let result: TreemapRect[];
+  switch (algorithm) {
+    case 'strip': {
+      result = stripLayout(entries, container);
+      break;
+    }
+    case 'slice_dice': {
+      result = sliceDiceLayout(entries, container);
+      break;
+    }
+    case 'pivot': {
+      result = pivotLayout(entries, container);
+      break;
+    }
+    default: {
+      result = squarifyLayout(entries, container);
+    }
+  }
+
+  // For ascending order, flip the entire layout by mirroring coordinates
+  if (ascending && result.length > 0) {
+    mirrorLayout(result, container.width, container.height);
+  }
+
+  return result;
+}
+
+/**
+ * Squarified layout: rows of tiles along the shorter side, largest first
+ */
+function squarifyLayout(entries: LayoutEntry[], box: Container): TreemapRect[] {
   const result: TreemapRect[] = [];
-  let container: Container = { x: 0, y: 0, width, height };
-  let remaining = [...normalized];
+  let container = box;
+  let remaining = [...entries];
 
   while (remaining.length > 0) {
     const vertical = container.width < container.height;
@@ -383,14 +329,5 @@ export function squarify(
     if (container.width <= 0 || container.height <= 0) break;
   }
 
-  // For ascending order, flip the entire layout by mirroring coordinates
-  if (ascending && result.length > 0) {
-    mirrorLayout(result, width, height);
-  }
-
-  // Count rows by unique Y positions
-  const uniqueYPositions = new Set(result.map(rect => Math.round(rect.y * 100) / 100));
-  const rows = uniqueYPositions.size;
-
-  return { rects: result, rows };
+  return result;
 }
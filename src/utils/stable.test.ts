@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { stableLayout, type PreviousRect } from './stable';
+import { squarify } from './squarify';
+import { worstAspectRatio, type LayoutEntry } from './layout';
+import type { TreemapItem } from '../types';
+
+function makeItem(label: string, value: number): TreemapItem {
+  return { label, value, sizeValue: value, sortValue: value, colorValue: value };
+}
+
+function makeEntry(label: string, area: number): LayoutEntry {
+  return { item: makeItem(label, area), normalizedValue: area };
+}
+
+const container = { x: 0, y: 0, width: 100, height: 100 };
+
+// A on the left, B above C on the right
+const previous: PreviousRect[] = [
+  { label: 'A', x: 0, y: 0, width: 50, height: 100 },
+  { label: 'B', x: 50, y: 0, width: 50, height: 50 },
+  { label: 'C', x: 50, y: 50, width: 50, height: 50 },
+];
+
+describe('stableLayout', () => {
+  it('keeps the previous arrangement and resizes tiles to new values', () => {
+    const entries = [makeEntry('A', 4000), makeEntry('B', 3000), makeEntry('C', 3000)];
+    const rects = stableLayout(entries, container, previous);
+
+    expect(rects?.find(rect => rect.label === 'A')).toMatchObject({ x: 0, y: 0, height: 100 });
+    expect(rects?.find(rect => rect.label === 'A')?.width).toBeCloseTo(40);
+    expect(rects?.find(rect => rect.label === 'B')).toMatchObject({ x: 40, y: 0, height: 50 });
+    expect(rects?.find(rect => rect.label === 'C')).toMatchObject({ x: 40, y: 50 });
+  });
+
+  it('scales the arrangement into a different container', () => {
+    const entries = [makeEntry('A', 100), makeEntry('B', 50), makeEntry('C', 50)];
+    const rects = stableLayout(entries, { x: 10, y: 10, width: 20, height: 10 }, previous);
+
+    expect(rects?.find(rect => rect.label === 'A')).toMatchObject({ x: 10, y: 10, width: 10 });
+    expect(rects?.find(rect => rect.label === 'C')).toMatchObject({ x: 20, y: 15, height: 5 });
+  });
+
+  it('matches tiles by entity_id before label', () => {
+    const seeds: PreviousRect[] = [
+      { label: 'Same', entity_id: 'sensor.a', x: 0, y: 0, width: 50, height: 100 },
+      { label: 'Same', entity_id: 'sensor.b', x: 50, y: 0, width: 50, height: 100 },
+    ];
+    const entries = [
+      { item: { ...makeItem('Same', 1), entity_id: 'sensor.b' }, normalizedValue: 5000 },
+      { item: { ...makeItem('Same', 1), entity_id: 'sensor.a' }, normalizedValue: 5000 },
+    ];
+    const rects = stableLayout(entries, container, seeds);
+
+    expect(rects?.find(rect => rect.entity_id === 'sensor.b')?.x).toBeCloseTo(50);
+  });
+
+  it('gives up when tiles were added or removed', () => {
+    const added = [
+      makeEntry('A', 2500),
+      makeEntry('B', 2500),
+      makeEntry('C', 2500),
+      makeEntry('D', 2500),
+    ];
+    expect(stableLayout(added, container, previous)).toBeUndefined();
+    expect(stableLayout([makeEntry('A', 5000), makeEntry('B', 5000)], container, previous)).toEqual(
+      expect.any(Array)
+    );
+    expect(stableLayout([makeEntry('X', 10_000)], container, previous)).toBeUndefined();
+  });
+
+  it('gives up when the previous arrangement has no straight cuts', () => {
+    // Pinwheel: no line crosses the container without cutting a tile
+    const pinwheel: PreviousRect[] = [
+      { label: 'A', x: 0, y: 0, width: 60, height: 40 },
+      { label: 'B', x: 60, y: 0, width: 40, height: 60 },
+      { label: 'C', x: 40, y: 60, width: 60, height: 40 },
+      { label: 'D', x: 0, y: 40, width: 40, height: 60 },
+      { label: 'E', x: 40, y: 40, width: 20, height: 20 },
+    ];
+    const entries = ['A', 'B', 'C', 'D', 'E'].map(label => makeEntry(label, 2000));
+    expect(stableLayout(entries, container, pinwheel)).toBeUndefined();
+  });
+});
+
+describe('squarify stable mode', () => {
+  const items = [makeItem('A', 50), makeItem('B', 30), makeItem('C', 20), makeItem('D', 10)];
+
+  function readingOrder(rects: PreviousRect[]): string[] {
+    return [...rects]
+      .sort((a, b) => (Math.abs(a.y - b.y) > 0.001 ? a.y - b.y : a.x - b.x))
+      .map(rect => rect.label);
+  }
+
+  it('keeps tile positions when values shift', () => {
+    const first = squarify(items, 100, 100, { compressRange: false });
+    const shifted = items.map(item => (item.label === 'D' ? { ...item, value: 35 } : item));
+
+    const fresh = squarify(shifted, 100, 100, { compressRange: false });
+    const { rects } = squarify(shifted, 100, 100, {
+      compressRange: false,
+      previous: first.rects,
+      maxAspectRatio: 10,
+    });
+
+    // D grew past C and B: a fresh layout moves it, stable mode keeps it in place
+    expect(readingOrder(fresh.rects)).not.toEqual(readingOrder(first.rects));
+    expect(readingOrder(rects)).toEqual(readingOrder(first.rects));
+    const d = rects.find(rect => rect.label === 'D');
+    expect((d?.width ?? 0) * (d?.height ?? 0)).toBeCloseTo((35 / 135) * 10_000);
+  });
+
+  it('recomputes the layout when aspect ratios get too bad', () => {
+    const many = [30, 25, 20, 15, 6, 4].map((value, index) => makeItem(`T${index}`, value));
+    // Six thin columns
+    const seeds: PreviousRect[] = many.map((item, index) => ({
+      label: item.label,
+      x: (index * 100) / 6,
+      y: 0,
+      width: 100 / 6,
+      height: 100,
+    }));
+    const { rects } = squarify(many, 100, 100, {
+      compressRange: false,
+      previous: seeds,
+      maxAspectRatio: 2,
+    });
+
+    const fresh = squarify(many, 100, 100, { compressRange: false });
+    expect(rects).toEqual(fresh.rects);
+    expect(worstAspectRatio(rects)).toBeLessThan(worstAspectRatio(seeds));
+  });
+
+  it('lays out normally without a previous frame', () => {
+    expect(squarify(items, 100, 100, { previous: [] }).rects).toHaveLength(4);
+  });
+});
@@ -0,0 +1,112 @@
+import type { TreemapRect } from '../types';
+import { getTileKey, splitBox, toRect, type Container, type LayoutEntry } from './layout';
+
+/**
+ * Stable treemap layout
+ *
+ * Reuses the arrangement of the previous frame: the previous rectangles are
+ * decomposed into a tree of straight cuts (every layout algorithm here produces
+ * such "slicing" layouts), then the cuts are moved to match the new values.
+ * Tiles only grow or shrink in place, they never swap positions.
+ */
+
+/**
+ * Rectangle of the previous frame, identified by entity_id (or label)
+ */
+export interface PreviousRect {
+  label: string;
+  entity_id?: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Tolerance for floating point edges when looking for cuts
+const EPSILON = 1e-6;
+
+type SliceNode = { key: string } | { horizontal: boolean; first: SliceNode; second: SliceNode };
+
+/**
+ * Find a straight cut that separates the rects into two non-empty sides, recursively
+ */
+function recoverSlices(rects: PreviousRect[]): SliceNode | undefined {
+  const [only] = rects;
+  if (rects.length === 1 && only) return { key: getTileKey(only) };
+
+  for (const horizontal of [true, false]) {
+    const end = (rect: PreviousRect) => (horizontal ? rect.x + rect.width : rect.y + rect.height);
+    const start = (rect: PreviousRect) => (horizontal ? rect.x : rect.y);
+    const edges = [...new Set(rects.map(end))].sort((a, b) => a - b);
+
+    for (const edge of edges) {
+      const first = rects.filter(rect => end(rect) <= edge + EPSILON);
+      const second = rects.filter(rect => start(rect) >= edge - EPSILON);
+      if (first.length === 0 || second.length === 0) continue;
+      if (first.length + second.length !== rects.length) continue;
+
+      const firstNode = recoverSlices(first);
+      const secondNode = recoverSlices(second);
+      return firstNode && secondNode
+        ? { horizontal, first: firstNode, second: secondNode }
+        : undefined;
+    }
+  }
+
+  return undefined;
+}
+
+function sliceArea(node: SliceNode, areas: Map<string, number>): number {
+  if ('key' in node) return areas.get(node.key) ?? 0;
+  return sliceArea(node.first, areas) + sliceArea(node.second, areas);
+}
+
+function placeSlices(
+  node: SliceNode,
+  box: Container,
+  areas: Map<string, number>,
+  boxes: Map<string, Container>
+): void {
+  if ('key' in node) {
+    boxes.set(node.key, box);
+    return;
+  }
+  const first = sliceArea(node.first, areas);
+  const second = sliceArea(node.second, areas);
+  const share = first + second > 0 ? first / (first + second) : 0.5;
+  const [firstBox, secondBox] = splitBox(box, share, node.horizontal);
+  placeSlices(node.first, firstBox, areas, boxes);
+  placeSlices(node.second, secondBox, areas, boxes);
+}
+
+/**
+ * Lay out entries using the arrangement of the previous frame.
+ * Returns undefined when the previous frame cannot seed the layout
+ * (tiles were added or removed, or its arrangement cannot be recovered).
+ */
+export function stableLayout(
+  entries: LayoutEntry[],
+  container: Container,
+  previous: PreviousRect[]
+): TreemapRect[] | undefined {
+  const areas = new Map(entries.map(entry => [getTileKey(entry.item), entry.normalizedValue]));
+  if (areas.size !== entries.length) return undefined;
+
+  const seeds = previous.filter(rect => areas.has(getTileKey(rect)));
+  if (seeds.length !== entries.length) return undefined;
+  if (new Set(seeds.map(getTileKey)).size !== seeds.length) return undefined;
+
+  const tree = recoverSlices(seeds);
+  if (!tree) return undefined;
+
+  const boxes = new Map<string, Container>();
+  placeSlices(tree, container, areas, boxes);
+
+  const rects: TreemapRect[] = [];
+  for (const entry of entries) {
+    const box = boxes.get(getTileKey(entry.item));
+    if (!box) return undefined;
+    rects.push(toRect(entry.item, box));
+  }
+  return rects;
+}
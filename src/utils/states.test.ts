@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { getDefaultStateMap, mapState } from './states';
+
+describe('getDefaultStateMap', () => {
+  it('has defaults for common domains', () => {
+    expect(getDefaultStateMap('binary_sensor')).toEqual({ on: 1, off: 0 });
+    expect(getDefaultStateMap('cover')?.['open']).toBe(1);
+    expect(getDefaultStateMap('lock')?.['locked']).toBe(1);
+    expect(getDefaultStateMap('media_player')?.['playing']).toBe(1);
+  });
+
+  it('returns undefined for domains without defaults', () => {
+    expect(getDefaultStateMap('sensor')).toBeUndefined();
+  });
+});
+
+describe('mapState', () => {
+  it('returns undefined when no map knows the state', () => {
+    expect(mapState('on', [undefined, { off: 0 }])).toBeUndefined();
+  });
+
+  it('maps numbers to the value and capitalizes the state as label', () => {
+    expect(mapState('not_home', [{ not_home: 0 }])).toEqual({
+      value: 0,
+      color: undefined,
+      label: 'Not home',
+    });
+  });
+
+  it('maps strings to a color and keeps the value of a lower priority map', () => {
+    expect(mapState('open', [{ open: 'red' }, getDefaultStateMap('cover')])).toEqual({
+      value: 1,
+      color: 'red',
+      label: 'Open',
+    });
+  });
+
+  it('falls back to value 1 for color-only mappings', () => {
+    expect(mapState('jammed', [{ jammed: '#ff0000' }])?.value).toBe(1);
+  });
+
+  it('accepts object entries with value, color and label', () => {
+    expect(mapState('on', [{ on: { value: 5, color: 'green', label: 'Running' } }])).toEqual({
+      value: 5,
+      color: 'green',
+      label: 'Running',
+    });
+  });
+
+  it('lets earlier maps override later ones per field', () => {
+    const entityMap = { on: { label: 'Open' } };
+    const cardMap = { on: 10 };
+    expect(mapState('on', [entityMap, cardMap, { on: 1 }])).toEqual({
+      value: 10,
+      color: undefined,
+      label: 'Open',
+    });
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * State mapping for non-numeric entities (binary sensors, locks, covers, media players)
+ *
+ * State strings are mapped to a number (used for size, value and gradient color)
+ * and optionally to a categorical color. Per-entity maps override the card map,
+ * which overrides the built-in defaults for the entity's domain.
+ */
+
+import type { StateMap, StateMapEntry } from '../types';
+
+const ON_OFF: StateMap = { on: 1, off: 0 };
+
+/**
+ * Built-in state maps for common domains
+ */
+const DEFAULT_STATE_MAPS: Record<string, StateMap> = {
+  binary_sensor: ON_OFF,
+  switch: ON_OFF,
+  input_boolean: ON_OFF,
+  fan: ON_OFF,
+  automation: ON_OFF,
+  lock: { locked: 1, unlocked: 0, locking: 0.5, unlocking: 0.5, open: 0, opening: 0, jammed: 0 },
+  cover: { open: 1, opening: 0.75, closing: 0.25, closed: 0 },
+  media_player: {
+    playing: 1,
+    paused: 0.5,
+    buffering: 0.5,
+    on: 0.5,
+    idle: 0.25,
+    standby: 0,
+    off: 0,
+  },
+  person: { home: 1, not_home: 0 },
+  device_tracker: { home: 1, not_home: 0 },
+};
+
+/**
+ * Mapped state of an entity
+ */
+export interface MappedState {
+  value: number;
+  color?: string;
+  label: string;
+}
+
+/**
+ * Get the built-in state map for an entity domain
+ */
+export function getDefaultStateMap(domain: string): StateMap | undefined {
+  return DEFAULT_STATE_MAPS[domain];
+}
+
+function toEntry(mapped: number | string | StateMapEntry): StateMapEntry {
+  if (typeof mapped === 'number') return { value: mapped };
+  if (typeof mapped === 'string') return { color: mapped };
+  return mapped;
+}
+
+/**
+ * Capitalize a state like HA does for display ("not_home" -> "Not home")
+ */
+export function formatState(state: string): string {
+  const text = state.replaceAll('_', ' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Map a state through state maps in priority order (first map wins per field).
+ * Returns undefined when no map knows the state.
+ */
+export function mapState(state: string, maps: (StateMap | undefined)[]): MappedState | undefined {
+  const entries = maps.flatMap(map => {
+    const mapped = map?.[state];
+    return mapped === undefined ? [] : [toEntry(mapped)];
+  });
+  if (entries.length === 0) return undefined;
+
+  return {
+    // Color-only mappings still need a size: fall back to 1 so the tile is visible
+    value: entries.find(entry => entry.value !== undefined)?.value ?? 1,
+    color: entries.find(entry => entry.color !== undefined)?.color,
+    label: entries.find(entry => entry.label !== undefined)?.label ?? formatState(state),
+  };
+}
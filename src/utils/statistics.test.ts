@@ -0,0 +1,148 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  aggregateStatistics,
+  clearStatisticsCache,
+  getPeriodRange,
+  getStatisticValues,
+} from './statistics';
+import type { HomeAssistant } from '../types';
+
+describe('getPeriodRange', () => {
+  // Wednesday, 15 May 2024, 14:30 local time
+  const now = new Date(2024, 4, 15, 14, 30);
+
+  it('starts today at midnight', () => {
+    expect(getPeriodRange('today', now)).toEqual({
+      start: new Date(2024, 4, 15),
+      statsPeriod: 'hour',
+    });
+  });
+
+  it('covers all of yesterday', () => {
+    expect(getPeriodRange('yesterday', now)).toEqual({
+      start: new Date(2024, 4, 14),
+      end: new Date(2024, 4, 15),
+      statsPeriod: 'hour',
+    });
+  });
+
+  it('starts weeks on Monday and months on the first', () => {
+    expect(getPeriodRange('this_week', now).start).toEqual(new Date(2024, 4, 13));
+    expect(getPeriodRange('this_week', new Date(2024, 4, 19, 9)).start).toEqual(
+      new Date(2024, 4, 13)
+    );
+    expect(getPeriodRange('this_month', now)).toEqual({
+      start: new Date(2024, 4, 1),
+      statsPeriod: 'day',
+    });
+  });
+
+  it('looks back a rolling number of hours', () => {
+    expect(getPeriodRange('6h', now).start).toEqual(new Date(2024, 4, 15, 8, 30));
+    // @ts-expect-error - testing invalid config
+    expect(getPeriodRange('soon', now).start).toEqual(new Date(2024, 4, 14, 14, 30));
+  });
+});
+
+describe('aggregateStatistics', () => {
+  const rows = [
+    { change: 1.5, sum: 101.5, mean: 20, min: 18, max: 22 },
+    { change: 2, sum: 103.5, mean: 24, min: 21, max: 27 },
+    { change: null, sum: null, mean: null, min: null, max: null },
+  ];
+
+  it.each([
+    ['change', 3.5],
+    ['sum', 103.5],
+    ['mean', 22],
+    ['min', 18],
+    ['max', 27],
+  ] as const)('aggregates %s', (statType, expected) => {
+    expect(aggregateStatistics(rows, statType)).toBe(expected);
+  });
+
+  it('returns undefined without values', () => {
+    expect(aggregateStatistics([], 'change')).toBeUndefined();
+    expect(aggregateStatistics([{ change: null }], 'change')).toBeUndefined();
+  });
+});
+
+describe('getStatisticValues', () => {
+  afterEach(() => {
+    clearStatisticsCache();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  function makeHass(callWS = vi.fn()): HomeAssistant {
+    return { states: {}, callService: vi.fn(), callWS };
+  }
+
+  it('requests the stat type and aggregates per entity', async () => {
+    const callWS = vi.fn().mockResolvedValue({ 'sensor.oven': [{ change: 1 }, { change: 2 }] });
+    const values = await getStatisticValues(
+      makeHass(callWS),
+      ['sensor.oven', 'sensor.fridge'],
+      'change',
+      'today'
+    );
+
+    expect(values).toEqual(
+      new Map([
+        ['sensor.oven', 3],
+        ['sensor.fridge', undefined],
+      ])
+    );
+    expect(callWS).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'recorder/statistics_during_period',
+        statistic_ids: ['sensor.oven', 'sensor.fridge'],
+        period: 'hour',
+        types: ['change'],
+      })
+    );
+  });
+
+  it('caches values of rolling periods within the hour', async () => {
+    vi.useFakeTimers({ now: new Date(2024, 4, 15, 14, 10) });
+    const callWS = vi.fn().mockResolvedValue({ 'sensor.oven': [{ max: 5 }] });
+    await getStatisticValues(makeHass(callWS), ['sensor.oven'], 'max', '24h');
+    vi.advanceTimersByTime(60 * 1000);
+    const values = await getStatisticValues(makeHass(callWS), ['sensor.oven'], 'max', '24h');
+
+    expect(values.get('sensor.oven')).toBe(5);
+    expect(callWS).toHaveBeenCalledTimes(1);
+  });
+
+  it('refetches when the cache expires or the window moves to the next hour', async () => {
+    vi.useFakeTimers({ now: new Date(2024, 4, 15, 14, 50) });
+    const callWS = vi.fn().mockResolvedValue({ 'sensor.oven': [{ max: 5 }] });
+    await getStatisticValues(makeHass(callWS), ['sensor.oven'], 'max', '24h');
+    vi.advanceTimersByTime(6 * 60 * 1000); // TTL expired
+    await getStatisticValues(makeHass(callWS), ['sensor.oven'], 'max', '24h');
+    vi.advanceTimersByTime(5 * 60 * 1000); // 15:01: next hour
+    await getStatisticValues(makeHass(callWS), ['sensor.oven'], 'max', '24h');
+
+    expect(callWS).toHaveBeenCalledTimes(3);
+  });
+
+  it('caches periods separately', async () => {
+    vi.useFakeTimers({ now: new Date(2024, 4, 15, 1, 0) });
+    const callWS = vi.fn().mockResolvedValue({ 'sensor.oven': [{ max: 5 }] });
+    // Both start at midnight
+    await getStatisticValues(makeHass(callWS), ['sensor.oven'], 'max', 'today');
+    await getStatisticValues(makeHass(callWS), ['sensor.oven'], 'max', '1h');
+
+    expect(callWS).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not cache failed requests', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const callWS = vi.fn().mockRejectedValue(new Error('Not connected'));
+    const values = await getStatisticValues(makeHass(callWS), ['sensor.oven'], 'sum', 'today');
+    await getStatisticValues(makeHass(callWS), ['sensor.oven'], 'sum', 'today');
+
+    expect(values.size).toBe(0);
+    expect(callWS).toHaveBeenCalledTimes(2);
+  });
+});
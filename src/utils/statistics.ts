@@ -0,0 +1,191 @@
+/**
+ * Long-term statistics as tile values (value.source: statistics)
+ *
+ * Aggregates the recorder statistics of an entity over a calendar period
+ * (today, this week, ...) or the last N hours, e.g. the energy used today.
+ */
+
+import type { HomeAssistant } from '../types';
+
+export type StatType = 'change' | 'sum' | 'mean' | 'min' | 'max';
+
+export type StatisticsPeriod = 'today' | 'yesterday' | 'this_week' | 'this_month' | `${number}h`;
+
+interface PeriodRange {
+  start: Date;
+  end?: Date; // Open end: up to now
+  statsPeriod: 'hour' | 'day';
+}
+
+interface StatisticsRow {
+  change?: number | null;
+  sum?: number | null;
+  mean?: number | null;
+  min?: number | null;
+  max?: number | null;
+}
+
+interface CacheEntry {
+  value: number | undefined;
+  fetchedAt: number;
+}
+
+// Module-level cache: "entityId:statType:period:bucketStart" -> { value, fetchedAt }
+const cache = new Map<string, CacheEntry>();
+
+const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Get the time range of a period. Weeks start on Monday, all in local time.
+ */
+export function getPeriodRange(period: StatisticsPeriod, now = new Date()): PeriodRange {
+  const midnight = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  switch (period) {
+    case 'today': {
+      return { start: midnight, statsPeriod: 'hour' };
+    }
+    case 'yesterday': {
+      const start = new Date(midnight);
+      start.setDate(start.getDate() - 1);
+      return { start, end: midnight, statsPeriod: 'hour' };
+    }
+    case 'this_week': {
+      const start = new Date(midnight);
+      start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+      return { start, statsPeriod: 'day' };
+    }
+    case 'this_month': {
+      return { start: new Date(now.getFullYear(), now.getMonth(), 1), statsPeriod: 'day' };
+    }
+    default: {
+      // Rolling window: "6h", "48h"
+      const hours = Number.parseFloat(period);
+      const valid = Number.isFinite(hours) && hours > 0;
+      return {
+        start: new Date(now.getTime() - (valid ? hours : 24) * 60 * 60 * 1000),
+        statsPeriod: 'hour',
+      };
+    }
+  }
+}
+
+/**
+ * Start of the statistics bucket (hour or day) the period starts in. Rolling windows start
+ * at a different millisecond on every call; their rows only change once per bucket.
+ */
+function getBucketStart({ start, statsPeriod }: PeriodRange): number {
+  const bucket = new Date(start);
+  if (statsPeriod === 'day') bucket.setHours(0);
+  bucket.setMinutes(0, 0, 0);
+  return bucket.getTime();
+}
+
+/**
+ * Aggregate statistics rows: change adds up, sum is the last total,
+ * mean averages and min/max take the extremes
+ */
+export function aggregateStatistics(rows: StatisticsRow[], statType: StatType): number | undefined {
+  const values = rows
+    .map(row => row[statType])
+    .filter((value): value is number => typeof value === 'number' && Number.isFinite(value));
+  if (values.length === 0) return undefined;
+
+  switch (statType) {
+    case 'change': {
+      return values.reduce((a, b) => a + b, 0);
+    }
+    case 'sum': {
+      return values.at(-1);
+    }
+    case 'mean': {
+      return values.reduce((a, b) => a + b, 0) / values.length;
+    }
+    case 'min': {
+      return Math.min(...values);
+    }
+    case 'max': {
+      return Math.max(...values);
+    }
+  }
+}
+
+/**
+ * Get the aggregated statistic of multiple entities.
+ * Entities without statistics in the period map to undefined.
+ */
+export async function getStatisticValues(
+  hass: HomeAssistant,
+  entityIds: string[],
+  statType: StatType,
+  period: StatisticsPeriod
+): Promise<Map<string, number | undefined>> {
+  const result = new Map<string, number | undefined>();
+  const range = getPeriodRange(period);
+  const now = Date.now();
+  const staleIds: string[] = [];
+
+  // Check cache first (the key includes the bucket the period starts in, so periods roll over)
+  const bucketStart = getBucketStart(range);
+  const getCacheKey = (entityId: string): string =>
+    `${entityId}:${statType}:${period}:${bucketStart}`;
+  for (const entityId of entityIds) {
+    const cached = cache.get(getCacheKey(entityId));
+    if (cached && now - cached.fetchedAt < CACHE_TTL) {
+      result.set(entityId, cached.value);
+    } else {
+      staleIds.push(entityId);
+    }
+  }
+
+  // Fetch stale/missing data
+  if (staleIds.length > 0) {
+    const fresh = await fetchStatisticValues(hass, staleIds, statType, range);
+    if (fresh) {
+      for (const entityId of staleIds) {
+        const value = fresh.get(entityId);
+        cache.set(getCacheKey(entityId), { value, fetchedAt: now });
+        result.set(entityId, value);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Fetch and aggregate statistics (undefined if the request failed, so it is retried)
+ */
+async function fetchStatisticValues(
+  hass: HomeAssistant,
+  entityIds: string[],
+  statType: StatType,
+  range: PeriodRange
+): Promise<Map<string, number | undefined> | undefined> {
+  try {
+    const response = await hass.callWS<Record<string, StatisticsRow[]> | null>({
+      type: 'recorder/statistics_during_period',
+      start_time: range.start.toISOString(),
+      ...(range.end && { end_time: range.end.toISOString() }),
+      statistic_ids: entityIds,
+      period: range.statsPeriod,
+      types: [statType],
+    });
+
+    const result = new Map<string, number | undefined>();
+    for (const [entityId, rows] of Object.entries(response ?? {})) {
+      result.set(entityId, aggregateStatistics(rows, statType));
+    }
+    return result;
+  } catch (error) {
+    console.warn('[treemap] Failed to fetch statistics:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Clear all cached statistics
+ */
+export function clearStatisticsCache(): void {
+  cache.clear();
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { stripLayout } from './strip';
+import { squarify } from './squarify';
+import type { LayoutEntry } from './layout';
+import type { TreemapItem } from '../types';
+
+function makeItem(label: string, value: number): TreemapItem {
+  return { label, value, sizeValue: value, sortValue: value, colorValue: value };
+}
+
+function makeEntry(label: string, area: number): LayoutEntry {
+  return { item: makeItem(label, area), normalizedValue: area };
+}
+
+describe('stripLayout', () => {
+  it('returns nothing for no entries', () => {
+    expect(stripLayout([], { x: 0, y: 0, width: 100, height: 100 })).toEqual([]);
+  });
+
+  it('fills the container with a single entry', () => {
+    const [rect] = stripLayout([makeEntry('A', 10_000)], { x: 0, y: 0, width: 100, height: 100 });
+    expect(rect).toMatchObject({ x: 0, y: 0, width: 100, height: 100 });
+  });
+
+  it('keeps input order in reading order', () => {
+    const entries = ['A', 'B', 'C', 'D', 'E', 'F'].map(label => makeEntry(label, 10_000 / 6));
+    const rects = stripLayout(entries, { x: 0, y: 0, width: 100, height: 100 });
+
+    const readingOrder = [...rects].sort((a, b) =>
+      Math.abs(a.y - b.y) > 0.001 ? a.y - b.y : a.x - b.x
+    );
+    expect(readingOrder.map(rect => rect.label)).toEqual(['A', 'B', 'C', 'D', 'E', 'F']);
+  });
+
+  it('starts a new strip when that improves aspect ratios', () => {
+    const entries = ['A', 'B', 'C', 'D'].map(label => makeEntry(label, 2500));
+    const rects = stripLayout(entries, { x: 0, y: 0, width: 100, height: 100 });
+
+    // Four equal tiles in a square: two strips of two squares
+    expect(new Set(rects.map(rect => rect.y)).size).toBe(2);
+    for (const rect of rects) {
+      expect(rect.width).toBeCloseTo(50);
+      expect(rect.height).toBeCloseTo(50);
+    }
+  });
+
+  it('preserves areas and stays within the container', () => {
+    const entries = [makeEntry('A', 5000), makeEntry('B', 3000), makeEntry('C', 2000)];
+    const rects = stripLayout(entries, { x: 10, y: 20, width: 100, height: 100 });
+
+    for (const [index, rect] of rects.entries()) {
+      expect(rect.width * rect.height).toBeCloseTo(entries[index]?.normalizedValue ?? 0);
+      expect(rect.x).toBeGreaterThanOrEqual(10 - 0.001);
+      expect(rect.y).toBeGreaterThanOrEqual(20 - 0.001);
+      expect(rect.x + rect.width).toBeLessThanOrEqual(110 + 0.001);
+      expect(rect.y + rect.height).toBeLessThanOrEqual(120 + 0.001);
+    }
+  });
+
+  it('is selected with algorithm: strip', () => {
+    const items = [makeItem('A', 40), makeItem('B', 30), makeItem('C', 20), makeItem('D', 10)];
+    const { rects } = squarify(items, 100, 100, {
+      algorithm: 'strip',
+      compressRange: false,
+      sortBy: 'default',
+    });
+
+    // Strips always span the full width, so the first tile starts at the top-left
+    expect(rects[0]).toMatchObject({ label: 'A', x: 0, y: 0 });
+    const totalArea = rects.reduce((sum, rect) => sum + rect.width * rect.height, 0);
+    expect(totalArea).toBeCloseTo(10_000);
+  });
+});
@@ -0,0 +1,64 @@
+import type { TreemapRect } from '../types';
+import { sliceLayout, sumAreas, type Container, type LayoutEntry } from './layout';
+
+/**
+ * Strip (ordered) treemap algorithm
+ * Based on: Bederson, Shneiderman & Wattenberg, "Ordered and Quantum Treemaps"
+ *
+ * Items keep their input order and flow left to right in horizontal strips,
+ * like text. A strip grows while that improves its average aspect ratio,
+ * so tiles stay in a predictable reading order when values change.
+ */
+
+/**
+ * Average aspect ratio of the tiles in a strip spanning the full width
+ */
+function averageAspectRatio(strip: LayoutEntry[], width: number): number {
+  if (strip.length === 0) return Infinity;
+  const stripHeight = sumAreas(strip) / width;
+  const total = strip.reduce((sum, entry) => {
+    const tileWidth = entry.normalizedValue / stripHeight;
+    return sum + Math.max(tileWidth / stripHeight, stripHeight / tileWidth);
+  }, 0);
+  return total / strip.length;
+}
+
+/**
+ * Lay out entries (already normalized to the container area) in ordered strips
+ */
+export function stripLayout(entries: LayoutEntry[], container: Container): TreemapRect[] {
+  const strips: LayoutEntry[][] = [];
+  let current: LayoutEntry[] = [];
+
+  for (const entry of entries) {
+    const candidate = [...current, entry];
+    if (
+      current.length === 0 ||
+      averageAspectRatio(candidate, container.width) <= averageAspectRatio(current, container.width)
+    ) {
+      current = candidate;
+    } else {
+      strips.push(current);
+      current = [entry];
+    }
+  }
+  if (current.length > 0) strips.push(current);
+
+  const rects: TreemapRect[] = [];
+  const total = sumAreas(entries);
+  let y = container.y;
+
+  for (const strip of strips) {
+    const stripHeight = total > 0 ? (sumAreas(strip) / total) * container.height : 0;
+    rects.push(
+      ...sliceLayout(
+        strip,
+        { x: container.x, y, width: container.width, height: stripHeight },
+        true
+      )
+    );
+    y += stripHeight;
+  }
+
+  return rects;
+}
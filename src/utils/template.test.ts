@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { getErrorMessage, parseTemplateItems } from './template';
+
+describe('parseTemplateItems', () => {
+  it('returns rendered lists as they are', () => {
+    expect(parseTemplateItems([{ label: 'A', value: 1 }], 'items')).toEqual([
+      { label: 'A', value: 1 },
+    ]);
+  });
+
+  it('parses JSON strings', () => {
+    expect(parseTemplateItems('[{"label": "A", "value": 1}]', 'items')).toEqual([
+      { label: 'A', value: 1 },
+    ]);
+  });
+
+  it('reads the list from an object with the data attribute', () => {
+    expect(parseTemplateItems({ stocks: [{ label: 'A' }] }, 'stocks')).toEqual([{ label: 'A' }]);
+    expect(parseTemplateItems('{"items": []}', 'items')).toEqual([]);
+    expect(parseTemplateItems({ data: { stocks: [1] } }, 'data.stocks')).toEqual([1]);
+  });
+
+  it('rejects invalid JSON', () => {
+    expect(() => parseTemplateItems('[{label: A}]', 'items')).toThrow(
+      'data_template did not render valid JSON'
+    );
+  });
+
+  it('rejects results without a list', () => {
+    expect(() => parseTemplateItems(42, 'items')).toThrow(
+      'data_template must render a list (or an object with "items")'
+    );
+    expect(() => parseTemplateItems({ other: [] }, 'items')).toThrow('must render a list');
+  });
+});
+
+describe('getErrorMessage', () => {
+  it('reads errors and websocket error objects', () => {
+    expect(getErrorMessage(new Error('boom'))).toBe('boom');
+    expect(getErrorMessage({ code: 'template_error', message: 'Bad template' })).toBe(
+      'Bad template'
+    );
+    expect(getErrorMessage('closed')).toBe('closed');
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * data_template: JSON lists rendered by Home Assistant's render_template subscription
+ */
+
+import { getPath } from './paths';
+import { isRecord } from './predicates';
+
+/**
+ * Get the list of items from a rendered template.
+ * Accepts a list, or an object holding the list at the dataAttribute path; strings are parsed as JSON
+ * (Home Assistant only converts results to lists/objects when they look like Python literals).
+ */
+export function parseTemplateItems(result: unknown, dataAttribute: string): unknown[] {
+  let value = result;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      throw new Error('data_template did not render valid JSON');
+    }
+  }
+
+  if (Array.isArray(value)) return value;
+  const nested = getPath(value, dataAttribute);
+  if (Array.isArray(nested)) return nested;
+  throw new Error(`data_template must render a list (or an object with "${dataAttribute}")`);
+}
+
+/**
+ * Message of an error thrown by the websocket (HA rejects with { code, message } objects)
+ */
+export function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (isRecord(error) && typeof error['message'] === 'string') return error['message'];
+  return String(error);
+}
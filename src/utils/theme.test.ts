@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { getThemeColorCss, resolveThemeColor } from './theme';
+
+function variables(values: Record<string, string>): (name: string) => string {
+  return name => values[name] ?? '';
+}
+
+describe('getThemeColorCss', () => {
+  it('maps named theme colors to their variable', () => {
+    expect(getThemeColorCss('red')).toBe('var(--red-color)');
+    expect(getThemeColorCss('primary')).toBe('var(--primary-color)');
+    expect(getThemeColorCss('light-blue')).toBe('var(--light-blue-color)');
+  });
+
+  it('maps state colors to their variable', () => {
+    expect(getThemeColorCss('state-active')).toBe('var(--state-active-color)');
+    expect(getThemeColorCss('state-light-active')).toBe('var(--state-light-active-color)');
+  });
+
+  it('keeps other colors', () => {
+    expect(getThemeColorCss('#ff0000')).toBe('#ff0000');
+    expect(getThemeColorCss('rgb(1, 2, 3)')).toBe('rgb(1, 2, 3)');
+    expect(getThemeColorCss('tomato')).toBe('tomato');
+  });
+});
+
+describe('resolveThemeColor', () => {
+  it('returns plain colors unchanged', () => {
+    expect(resolveThemeColor('#16a34a', variables({}))).toBe('#16a34a');
+  });
+
+  it('resolves a variable from the theme', () => {
+    const resolve = variables({ '--primary-color': ' #03a9f4' });
+    expect(resolveThemeColor('var(--primary-color)', resolve)).toBe('#03a9f4');
+  });
+
+  it('resolves named colors from the theme', () => {
+    const resolve = variables({ '--red-color': '#f44336', '--state-active-color': '#ffc107' });
+    expect(resolveThemeColor('red', resolve)).toBe('#f44336');
+    expect(resolveThemeColor('state-active', resolve)).toBe('#ffc107');
+  });
+
+  it('falls back to the plain name when the theme lacks the color', () => {
+    expect(resolveThemeColor('red', variables({}))).toBe('red');
+  });
+
+  it('uses the fallback of an undefined variable', () => {
+    expect(resolveThemeColor('var(--success-color, #16a34a)', variables({}))).toBe('#16a34a');
+    expect(resolveThemeColor('var(--x, rgb(1, 2, 3))', variables({}))).toBe('rgb(1, 2, 3)');
+  });
+
+  it('follows variables that refer to other variables', () => {
+    const resolve = variables({
+      '--state-active-color': 'var(--amber-color)',
+      '--amber-color': '#ffc107',
+    });
+    expect(resolveThemeColor('var(--state-active-color)', resolve)).toBe('#ffc107');
+  });
+
+  it('substitutes variables inside color functions', () => {
+    const resolve = variables({ '--rgb-primary-color': '3, 169, 244' });
+    expect(resolveThemeColor('rgb(var(--rgb-primary-color))', resolve)).toBe('rgb(3, 169, 244)');
+  });
+
+  it('keeps unresolvable variables for the browser', () => {
+    expect(resolveThemeColor('var(--unknown)', variables({}))).toBe('var(--unknown)');
+  });
+
+  it('stops on variables that refer to each other', () => {
+    const resolve = variables({ '--a': 'var(--b)', '--b': 'var(--a)' });
+    expect(resolveThemeColor('var(--a)', resolve)).toBe('var(--a)');
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Theme color resolution
+ *
+ * Colors can be CSS variables (`var(--primary-color)`) or named Home Assistant
+ * colors (`red`, `primary`, `state-active`). They are resolved to concrete
+ * values from the card's computed style, so contrast and blending math still works.
+ */
+
+// Named colors of the Home Assistant theme (each has a --<name>-color variable)
+const THEME_COLORS = new Set([
+  'primary',
+  'accent',
+  'disabled',
+  'red',
+  'pink',
+  'purple',
+  'deep-purple',
+  'indigo',
+  'blue',
+  'light-blue',
+  'cyan',
+  'teal',
+  'green',
+  'light-green',
+  'lime',
+  'yellow',
+  'amber',
+  'orange',
+  'deep-orange',
+  'brown',
+  'light-grey',
+  'grey',
+  'dark-grey',
+  'blue-grey',
+  'black',
+  'white',
+]);
+
+// Guard against variables that refer to each other
+const MAX_DEPTH = 10;
+
+/**
+ * Theme-aware default colors (the fallbacks are used outside a Home Assistant theme)
+ */
+export const THEME_DEFAULTS = {
+  high: 'var(--success-color, #16a34a)',
+  low: 'var(--error-color, #b91c1c)',
+  unavailable: 'var(--state-unavailable-color, #868e96)',
+  error: 'var(--error-color, #db4437)',
+  hvacOff: 'var(--state-climate-off-color, #868e96)',
+  lightOn: 'var(--state-light-active-color, #fbbf24)',
+  lightOff: 'var(--state-light-inactive-color, #333333)',
+  coverOpen: 'var(--state-cover-active-color, #926bc7)',
+  coverClosed: 'var(--state-cover-inactive-color, #333333)',
+  fanOn: 'var(--state-fan-active-color, #00bcd4)',
+  fanOff: 'var(--state-fan-inactive-color, #333333)',
+} as const;
+
+/**
+ * Get the CSS for a color: named theme colors become their variable, anything else is kept
+ */
+export function getThemeColorCss(color: string): string {
+  const name = color.trim();
+  if (THEME_COLORS.has(name) || /^state-[\w-]+$/.test(name)) {
+    return `var(--${name}-color)`;
+  }
+  return color;
+}
+
+/**
+ * Find the closing parenthesis of the group opened at `start` (index after the "(")
+ */
+function findClosingParen(value: string, start: number): number {
+  let depth = 1;
+  for (let index = start; index < value.length; index++) {
+    if (value[index] === '(') depth++;
+    if (value[index] === ')' && --depth === 0) return index;
+  }
+  return -1;
+}
+
+/**
+ * Replace var() references with their values, or undefined if one cannot be resolved
+ */
+function substituteVariables(
+  value: string,
+  getVariable: (name: string) => string,
+  depth: number
+): string | undefined {
+  const start = value.indexOf('var(');
+  if (start === -1) return value;
+  if (depth >= MAX_DEPTH) return undefined;
+
+  const end = findClosingParen(value, start + 4);
+  if (end === -1) return undefined;
+
+  const body = value.slice(start + 4, end);
+  const comma = body.indexOf(',');
+  const name = (comma === -1 ? body : body.slice(0, comma)).trim();
+  const fallback = comma === -1 ? undefined : body.slice(comma + 1).trim();
+
+  const variable = getVariable(name).trim();
+  const replacement = variable || fallback;
+  if (!replacement) return undefined;
+
+  const resolved = substituteVariables(replacement, getVariable, depth + 1);
+  if (resolved === undefined) return undefined;
+
+  return substituteVariables(
+    value.slice(0, start) + resolved + value.slice(end + 1),
+    getVariable,
+    depth + 1
+  );
+}
+
+/**
+ * Resolve a color option to a concrete color.
+ * Named theme colors fall back to the plain CSS name when the theme does not define them,
+ * unresolvable variables are returned unchanged (the browser can still paint them).
+ */
+export function resolveThemeColor(color: string, getVariable: (name: string) => string): string {
+  const css = getThemeColorCss(color);
+  if (!css.includes('var(')) return css;
+  return substituteVariables(css, getVariable, 0) ?? color;
+}
@@ -0,0 +1,228 @@
+/**
+ * Integration tests for hold-and-drag adjustment (cover position, fan speed)
+ */
+
+import { describe, expect, it, beforeEach, vi, afterEach } from 'vitest';
+import { createCard, mockEntity, mockHass, getRenderedItems, getTile, pointer } from './helpers';
+import type { HomeAssistant, TreemapCardConfig } from '../src';
+import type { TreemapCard } from '../src/treemap-card';
+
+describe('Hold-and-drag adjustment', () => {
+  let card: TreemapCard;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    card = createCard();
+  });
+
+  afterEach(() => {
+    card.remove();
+    vi.useRealTimers();
+  });
+
+  async function setup(
+    entity: ReturnType<typeof mockEntity>,
+    config: Partial<TreemapCardConfig> = {}
+  ): Promise<{ hass: HomeAssistant; callService: ReturnType<typeof vi.fn> }> {
+    const hass = mockHass([entity]);
+    const callService = vi.fn().mockResolvedValue(undefined);
+    hass.callService = callService;
+    card.setConfig({ type: 'custom:treemap-card', entities: [entity.entity_id], ...config });
+    card.hass = hass;
+    await card.updateComplete;
+    return { hass, callService };
+  }
+
+  // Hold, drag by `distance` pixels (up is positive) and release
+  async function drag(distance: number): Promise<void> {
+    const tile = getTile(card);
+    tile?.dispatchEvent(pointer('pointerdown', { clientY: 500 }));
+    vi.advanceTimersByTime(600);
+    await card.updateComplete;
+    tile?.dispatchEvent(pointer('pointermove', { clientY: 500 - distance }));
+    await card.updateComplete;
+  }
+
+  it('sets the cover position by dragging', async () => {
+    const { callService } = await setup(
+      mockEntity('cover.blinds', 'open', {
+        friendly_name: 'Blinds',
+        current_position: 40,
+        supported_features: 15,
+      })
+    );
+
+    // The tile is 100px high in tests: 30px up is +30%
+    await drag(30);
+    expect(getTile(card)?.classList.contains('adjusting')).toBe(true);
+    expect(getTile(card)?.querySelector('.treemap-value')?.textContent).toBe('70.0 %');
+
+    getTile(card)?.dispatchEvent(pointer('pointerup', { clientY: 470 }));
+    await card.updateComplete;
+    expect(callService).toHaveBeenCalledWith('cover', 'set_cover_position', {
+      entity_id: 'cover.blinds',
+      position: 70,
+    });
+    expect(getTile(card)?.classList.contains('adjusting')).toBe(false);
+  });
+
+  it('sets the fan speed in percentage steps, clamped to 0-100', async () => {
+    const { callService } = await setup(
+      mockEntity('fan.ceiling', 'on', {
+        friendly_name: 'Ceiling',
+        percentage: 50,
+        percentage_step: 25,
+        supported_features: 1,
+      })
+    );
+
+    await drag(-90);
+    getTile(card)?.dispatchEvent(pointer('pointerup', { clientY: 590 }));
+    expect(callService).toHaveBeenCalledWith('fan', 'set_percentage', {
+      entity_id: 'fan.ceiling',
+      percentage: 0,
+    });
+  });
+
+  it('runs the hold action when the drag does not move', async () => {
+    const { callService } = await setup(
+      mockEntity('cover.blinds', 'open', { current_position: 40, supported_features: 15 }),
+      { hold_action: { action: 'more-info' } }
+    );
+    const moreInfoSpy = vi.fn();
+    card.addEventListener('hass-more-info', moreInfoSpy);
+
+    await drag(0);
+    getTile(card)?.dispatchEvent(pointer('pointerup', { clientY: 500 }));
+
+    expect(moreInfoSpy).toHaveBeenCalledTimes(1);
+    expect(callService).not.toHaveBeenCalled();
+  });
+
+  it('does not adjust covers without position support', async () => {
+    const { callService } = await setup(
+      mockEntity('cover.garage', 'open', { current_position: 100, supported_features: 3 })
+    );
+
+    await drag(-50);
+    getTile(card)?.dispatchEvent(pointer('pointerup', { clientY: 550 }));
+
+    expect(getTile(card)?.classList.contains('adjusting')).toBe(false);
+    expect(callService).not.toHaveBeenCalled();
+  });
+
+  it('colors covers and fans by level like dimmable lights', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['cover.*'],
+      color: { low: '#000000', high: '#ff0000' },
+    });
+    card.hass = mockHass([
+      mockEntity('cover.open', 'open', { friendly_name: 'Open', current_position: 100 }),
+      mockEntity('cover.half', 'open', { friendly_name: 'Half', current_position: 50 }),
+      mockEntity('cover.closed', 'closed', { friendly_name: 'Closed', current_position: 0 }),
+    ]);
+    await card.updateComplete;
+
+    const colors = Object.fromEntries(
+      getRenderedItems(card).map(item => [item.label, item.backgroundColor])
+    );
+    expect(colors['Open']).toBe('rgb(255, 0, 0)');
+    expect(colors['Half']).toBe('rgba(255, 0, 0, 0.65)');
+    expect(colors['Closed']).toBe('rgb(0, 0, 0)');
+  });
+
+  describe('adjust option', () => {
+    const LIGHT = mockEntity('light.desk', 'on', {
+      friendly_name: 'Desk',
+      brightness: 128,
+      supported_color_modes: ['brightness'],
+    });
+
+    // Drag without holding: press, move and release
+    async function swipe(
+      from: { x: number; y: number },
+      to: { x: number; y: number }
+    ): Promise<void> {
+      const tile = getTile(card);
+      tile?.dispatchEvent(pointer('pointerdown', { clientX: from.x, clientY: from.y }));
+      tile?.dispatchEvent(pointer('pointermove', { clientX: to.x, clientY: to.y }));
+      await card.updateComplete;
+    }
+
+    it('sets the brightness of lights by dragging, with a live preview', async () => {
+      const { callService } = await setup(LIGHT, { adjust: {} });
+      expect(getTile(card)?.classList.contains('adjustable-vertical')).toBe(true);
+
+      await swipe({ x: 50, y: 50 }, { x: 50, y: 10 });
+      const tile = getTile(card);
+      expect(tile?.querySelector('.treemap-value')?.textContent).toBe('90.0 %');
+      expect(tile?.querySelector<HTMLElement>('.treemap-adjust-bar')?.style.height).toBe('90%');
+
+      tile?.dispatchEvent(pointer('pointerup', { clientX: 50, clientY: 10 }));
+      expect(callService).toHaveBeenCalledWith('light', 'turn_on', {
+        entity_id: 'light.desk',
+        brightness_pct: 90,
+      });
+    });
+
+    it('drags horizontally with adjust.direction: horizontal', async () => {
+      const { callService } = await setup(LIGHT, { adjust: { direction: 'horizontal' } });
+
+      await swipe({ x: 50, y: 50 }, { x: 30, y: 90 });
+      getTile(card)?.dispatchEvent(pointer('pointerup', { clientX: 30, clientY: 90 }));
+
+      expect(callService).toHaveBeenCalledWith('light', 'turn_on', {
+        entity_id: 'light.desk',
+        brightness_pct: 30,
+      });
+    });
+
+    it('sets the target temperature in steps, within the entity limits', async () => {
+      const { callService } = await setup(
+        mockEntity('climate.living', 'heat', {
+          friendly_name: 'Living',
+          current_temperature: 20,
+          temperature: 21,
+          min_temp: 16,
+          max_temp: 22,
+          target_temp_step: 0.5,
+        }),
+        { adjust: {} }
+      );
+
+      // 10 °C per tile height: 12px up is +1.2 °C, rounded to 22 and clamped to max_temp
+      await swipe({ x: 50, y: 50 }, { x: 50, y: 38 });
+      getTile(card)?.dispatchEvent(pointer('pointerup', { clientX: 50, clientY: 38 }));
+
+      expect(callService).toHaveBeenCalledWith('climate', 'set_temperature', {
+        entity_id: 'climate.living',
+        temperature: 22,
+      });
+    });
+
+    it('keeps taps working on adjustable tiles', async () => {
+      const { callService } = await setup(LIGHT, { adjust: {} });
+      const moreInfoSpy = vi.fn();
+      card.addEventListener('hass-more-info', moreInfoSpy);
+
+      const tile = getTile(card);
+      tile?.dispatchEvent(pointer('pointerdown', { clientX: 50, clientY: 50 }));
+      tile?.dispatchEvent(pointer('pointermove', { clientX: 52, clientY: 48 }));
+      tile?.dispatchEvent(pointer('pointerup', { clientX: 52, clientY: 48 }));
+
+      expect(moreInfoSpy).toHaveBeenCalledTimes(1);
+      expect(callService).not.toHaveBeenCalled();
+    });
+
+    it('does not drag lights and thermostats without the option', async () => {
+      const { callService } = await setup(LIGHT);
+      expect(getTile(card)?.classList.contains('adjustable-vertical')).toBe(false);
+
+      await drag(40);
+      getTile(card)?.dispatchEvent(pointer('pointerup', { clientY: 460 }));
+
+      expect(callService).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Integration tests for animated layout transitions (keyed tiles, exit animations)
+ */
+
+import { describe, expect, it, beforeEach, vi, afterEach } from 'vitest';
+import { createCard, mockEntity, mockHass, getRenderedItems, getTile } from './helpers';
+import type { TreemapCard } from '../src/treemap-card';
+import type { TreemapCardConfig } from '../src';
+
+function getContainer(card: TreemapCard): HTMLElement | null | undefined {
+  return card.shadowRoot?.querySelector<HTMLElement>('.treemap-container');
+}
+
+describe('Layout transitions', () => {
+  let card: TreemapCard;
+
+  const config: TreemapCardConfig = {
+    type: 'custom:treemap-card',
+    entities: ['sensor.*'],
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    card = createCard();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    card.remove();
+  });
+
+  it('keeps tile elements when values change so they can transition', async () => {
+    card.setConfig(config);
+    card.hass = mockHass([mockEntity('sensor.a', '10'), mockEntity('sensor.b', '90')]);
+    await card.updateComplete;
+    const tileA = getTile(card, 'a');
+
+    card.hass = mockHass([mockEntity('sensor.a', '90'), mockEntity('sensor.b', '10')]);
+    await card.updateComplete;
+
+    expect(getTile(card, 'a')).toBe(tileA);
+    expect(getRenderedItems(card).find(item => item.label === 'a')?.value).toBe(90);
+  });
+
+  it('sets the default transition duration on the container', async () => {
+    card.setConfig(config);
+    card.hass = mockHass([mockEntity('sensor.a', '10')]);
+    await card.updateComplete;
+
+    const container = getContainer(card);
+    expect(container?.getAttribute('style')).toContain('--treemap-animation-duration: 300ms');
+    expect(container?.classList.contains('no-animation')).toBe(false);
+  });
+
+  it('uses the configured duration', async () => {
+    card.setConfig({ ...config, animation: { duration: 800 } });
+    card.hass = mockHass([mockEntity('sensor.a', '10')]);
+    await card.updateComplete;
+
+    expect(getContainer(card)?.getAttribute('style')).toContain(
+      '--treemap-animation-duration: 800ms'
+    );
+  });
+
+  it('disables animation with enabled: false', async () => {
+    card.setConfig({ ...config, animation: { enabled: false } });
+    card.hass = mockHass([mockEntity('sensor.a', '10')]);
+    await card.updateComplete;
+
+    const container = getContainer(card);
+    expect(container?.classList.contains('no-animation')).toBe(true);
+    expect(container?.getAttribute('style')).toContain('--treemap-animation-duration: 0ms');
+  });
+
+  it('disables animation when reduced motion is preferred', async () => {
+    vi.stubGlobal(
+      'matchMedia',
+      vi.fn((query: string) => ({ matches: query === '(prefers-reduced-motion: reduce)' }))
+    );
+    card.setConfig(config);
+    card.hass = mockHass([mockEntity('sensor.a', '10')]);
+    await card.updateComplete;
+
+    expect(getContainer(card)?.classList.contains('no-animation')).toBe(true);
+  });
+
+  it('keeps removed tiles fading out until the transition ends', async () => {
+    card.setConfig(config);
+    card.hass = mockHass([mockEntity('sensor.a', '10'), mockEntity('sensor.b', '90')]);
+    await card.updateComplete;
+
+    card.hass = mockHass([mockEntity('sensor.b', '90')]);
+    await card.updateComplete;
+
+    const exiting = getTile(card, 'a');
+    expect(exiting?.classList.contains('exiting')).toBe(true);
+    expect(getRenderedItems(card).map(item => item.label)).toEqual(['b']);
+
+    vi.advanceTimersByTime(300);
+    await card.updateComplete;
+
+    expect(getTile(card, 'a')).toBeUndefined();
+  });
+
+  it('restores a tile that comes back while fading out', async () => {
+    card.setConfig(config);
+    card.hass = mockHass([mockEntity('sensor.a', '10'), mockEntity('sensor.b', '90')]);
+    await card.updateComplete;
+
+    card.hass = mockHass([mockEntity('sensor.b', '90')]);
+    await card.updateComplete;
+    card.hass = mockHass([mockEntity('sensor.a', '20'), mockEntity('sensor.b', '90')]);
+    await card.updateComplete;
+
+    expect(getTile(card, 'a')?.classList.contains('exiting')).toBe(false);
+    vi.advanceTimersByTime(300);
+    await card.updateComplete;
+    expect(getRenderedItems(card).map(item => item.label)).toContain('a');
+  });
+
+  it('removes tiles immediately when animation is disabled', async () => {
+    card.setConfig({ ...config, animation: { duration: 0 } });
+    card.hass = mockHass([mockEntity('sensor.a', '10'), mockEntity('sensor.b', '90')]);
+    await card.updateComplete;
+
+    card.hass = mockHass([mockEntity('sensor.b', '90')]);
+    await card.updateComplete;
+
+    expect(getTile(card, 'a')).toBeUndefined();
+  });
+});
@@ -219,4 +219,21 @@ describe('Auto-entities compatibility', () => {
     expect(items.find(i => i.label === 'Power B')).toBeDefined();
     expect(items.find(i => i.label === 'Temp C')).toBeUndefined();
   });
+
+  it('draws an entity matched by several entries once, with the first entry', async () => {
+    const hass = mockHass([
+      mockEntity('sensor.power_a', '100', { friendly_name: 'Power A' }),
+      mockEntity('sensor.power_b', '200', { friendly_name: 'Power B' }),
+    ]);
+
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: [{ entity: 'sensor.power_a', name: 'Main' }, 'sensor.power_*'],
+    });
+    card.hass = hass;
+    await card.updateComplete;
+
+    const items = getRenderedItems(card);
+    expect(items.map(i => i.label).sort()).toEqual(['Main', 'Power B']);
+  });
 });
@@ -0,0 +1,102 @@
+/**
+ * Integration tests for categorical color mode (color.mode: categorical + color.map)
+ */
+
+import { describe, expect, it, beforeEach } from 'vitest';
+import { createCard, mockEntity, mockHass, getRenderedItems } from './helpers';
+import type { TreemapCard } from '../src/treemap-card';
+
+function getColor(card: TreemapCard, label: string): string | undefined {
+  return getRenderedItems(card).find(item => item.label === label)?.backgroundColor;
+}
+
+describe('Categorical colors', () => {
+  let card: TreemapCard;
+
+  beforeEach(() => {
+    card = createCard();
+  });
+
+  it('colors JSON items by a field', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entity: 'sensor.portfolio',
+      color: {
+        mode: 'categorical',
+        attribute: 'sector',
+        map: { Tech: '#4dabf7', Energy: '#ff6b35' },
+        fallback: '#000000',
+      },
+    });
+    card.hass = mockHass([
+      mockEntity('sensor.portfolio', '3', {
+        items: [
+          { label: 'AAPL', value: 50, sector: 'Tech' },
+          { label: 'XOM', value: 20, sector: 'Energy' },
+          { label: 'PFE', value: 10, sector: 'Health' },
+        ],
+      }),
+    ]);
+    await card.updateComplete;
+
+    expect(getColor(card, 'AAPL')).toBe('rgb(77, 171, 247)');
+    expect(getColor(card, 'XOM')).toBe('rgb(255, 107, 53)');
+    expect(getColor(card, 'PFE')).toBe('rgb(0, 0, 0)');
+  });
+
+  it('colors sensors by an attribute', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['sensor.*'],
+      color: {
+        mode: 'categorical',
+        attribute: 'device_class',
+        map: { power: 'orange', temperature: 'blue' },
+      },
+    });
+    card.hass = mockHass([
+      mockEntity('sensor.fridge', '120', { device_class: 'power' }),
+      mockEntity('sensor.kitchen', '21', { device_class: 'temperature' }),
+      mockEntity('sensor.humidity', '45', { device_class: 'humidity' }),
+    ]);
+    await card.updateComplete;
+
+    expect(getColor(card, 'fridge')).toBe('orange');
+    expect(getColor(card, 'kitchen')).toBe('blue');
+    // Unmapped values fall back to gray
+    expect(getColor(card, 'humidity')).toBe('rgb(134, 142, 150)');
+  });
+
+  it('colors entities by state with mapped states', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['binary_sensor.*'],
+      color: { mode: 'categorical', map: { on: 'red', off: 'green' } },
+    });
+    card.hass = mockHass([
+      mockEntity('binary_sensor.door', 'on'),
+      mockEntity('binary_sensor.window', 'off'),
+    ]);
+    await card.updateComplete;
+
+    expect(getColor(card, 'door')).toBe('red');
+    expect(getColor(card, 'window')).toBe('green');
+  });
+
+  it('applies opacity', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['sensor.*'],
+      color: {
+        mode: 'categorical',
+        attribute: 'device_class',
+        map: { power: '#ff0000' },
+        opacity: 0.5,
+      },
+    });
+    card.hass = mockHass([mockEntity('sensor.fridge', '120', { device_class: 'power' })]);
+    await card.updateComplete;
+
+    expect(getColor(card, 'fridge')).toBe('rgba(255, 0, 0, 0.5)');
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Integration tests for color stops (gradient and bands modes) and named palettes
+ */
+
+import { describe, expect, it, beforeEach } from 'vitest';
+import { createCard, mockEntity, mockHass, getRenderedItems } from './helpers';
+import type { TreemapCard } from '../src/treemap-card';
+import type { PaletteName } from '../src/utils/palettes';
+
+function getColor(card: TreemapCard, label: string): string | undefined {
+  return getRenderedItems(card).find(item => item.label === label)?.backgroundColor;
+}
+
+describe('Color stops', () => {
+  let card: TreemapCard;
+
+  const batteries = [
+    mockEntity('sensor.remote', '10'),
+    mockEntity('sensor.door', '20'),
+    mockEntity('sensor.window', '90'),
+  ];
+
+  beforeEach(() => {
+    card = createCard();
+  });
+
+  it('colors by severity bands', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['sensor.*'],
+      color: {
+        mode: 'bands',
+        stops: [
+          { value: 0, color: '#ff0000' },
+          { value: 15, color: '#ffa500' },
+          { value: 30, color: '#00ff00' },
+        ],
+      },
+    });
+    card.hass = mockHass(batteries);
+    await card.updateComplete;
+
+    expect(getColor(card, 'remote')).toBe('rgb(255, 0, 0)');
+    expect(getColor(card, 'door')).toBe('rgb(255, 165, 0)');
+    expect(getColor(card, 'window')).toBe('rgb(0, 255, 0)');
+  });
+
+  it('interpolates between stops in gradient mode', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['sensor.*'],
+      color: {
+        stops: [
+          { value: 0, color: '#ff0000' },
+          { value: 20, color: '#0000ff' },
+          { value: 100, color: '#00ff00' },
+        ],
+      },
+    });
+    card.hass = mockHass(batteries);
+    await card.updateComplete;
+
+    expect(getColor(card, 'remote')).toBe('rgb(128, 0, 128)');
+    expect(getColor(card, 'door')).toBe('rgb(0, 0, 255)');
+  });
+});
+
+describe('Color palettes', () => {
+  let card: TreemapCard;
+
+  beforeEach(() => {
+    card = createCard();
+  });
+
+  it('colors tiles with a named palette instead of low/high', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['sensor.*'],
+      color: { palette: 'viridis', low: '#ff0000', high: '#00ff00' },
+    });
+    card.hass = mockHass([mockEntity('sensor.low', '0'), mockEntity('sensor.high', '100')]);
+    await card.updateComplete;
+
+    expect(getColor(card, 'low')).toBe('rgb(68, 1, 84)');
+    expect(getColor(card, 'high')).toBe('rgb(253, 231, 37)');
+  });
+
+  it('gives unmapped categories palette colors', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['sensor.*'],
+      color: { mode: 'categorical', attribute: 'device_class', palette: 'okabe_ito' },
+    });
+    card.hass = mockHass([
+      mockEntity('sensor.fridge', '120', { device_class: 'power' }),
+      mockEntity('sensor.oven', '1800', { device_class: 'power' }),
+    ]);
+    await card.updateComplete;
+
+    expect(getColor(card, 'fridge')).not.toBe('rgb(134, 142, 150)');
+    expect(getColor(card, 'fridge')).toBe(getColor(card, 'oven'));
+  });
+  it('falls back to low/high and the fallback color for unknown palettes', async () => {
+    const palette = 'magma' as PaletteName; // e.g. a typo in the YAML config
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['sensor.*'],
+      color: { palette, low: '#ff0000', high: '#00ff00' },
+    });
+    card.hass = mockHass([mockEntity('sensor.low', '0'), mockEntity('sensor.high', '100')]);
+    await card.updateComplete;
+
+    expect(getColor(card, 'low')).toBe('rgb(255, 0, 0)');
+    expect(getColor(card, 'high')).toBe('rgb(0, 255, 0)');
+
+    const categorical = createCard();
+    categorical.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['sensor.*'],
+      color: { mode: 'categorical', attribute: 'device_class', palette },
+    });
+    categorical.hass = mockHass([mockEntity('sensor.fridge', '120', { device_class: 'power' })]);
+    await categorical.updateComplete;
+
+    expect(getColor(categorical, 'fridge')).toBe('rgb(134, 142, 150)');
+  });
+});
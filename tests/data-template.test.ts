@@ -0,0 +1,216 @@
+/**
+ * Integration tests for data_template (render_template subscription as data source)
+ */
+
+import { describe, expect, it, beforeEach, afterEach, vi } from 'vitest';
+import { createCard, mockHass, getRenderedItems } from './helpers';
+import type { TreemapCard } from '../src/treemap-card';
+import type { HomeAssistant, TreemapCardConfig } from '../src';
+
+interface Subscription {
+  callback: (message: unknown) => void;
+  message: Record<string, unknown>;
+  unsubscribe: ReturnType<typeof vi.fn>;
+}
+
+/**
+ * Hass with a fake websocket connection that records render_template subscriptions
+ */
+function mockTemplateHass(subscriptions: Subscription[]): HomeAssistant {
+  return {
+    ...mockHass([]),
+    connection: {
+      subscribeMessage: async (callback, message) => {
+        const unsubscribe = vi.fn(async () => {});
+        subscriptions.push({ callback, message, unsubscribe });
+        return unsubscribe;
+      },
+    },
+  };
+}
+
+// Let subscription promises settle and the card re-render
+async function flush(card: TreemapCard): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, 0));
+  await card.updateComplete;
+}
+
+function getError(card: TreemapCard): string | undefined {
+  return card.shadowRoot?.querySelector('.error')?.textContent?.trim();
+}
+
+describe('data_template', () => {
+  let card: TreemapCard;
+  let subscriptions: Subscription[];
+
+  const template = '{{ states.sensor | map(attribute="name") | list }}';
+  const config: TreemapCardConfig = { type: 'custom:treemap-card', data_template: template };
+
+  function push(result: unknown): void {
+    subscriptions.at(-1)?.callback({ result, listeners: { all: true } });
+  }
+
+  beforeEach(() => {
+    subscriptions = [];
+    card = createCard();
+  });
+
+  afterEach(() => {
+    card.remove();
+  });
+
+  it('accepts data_template as the only data source', () => {
+    expect(() => {
+      card.setConfig(config);
+    }).not.toThrow();
+  });
+
+  it('subscribes to render_template once hass is set', async () => {
+    card.setConfig(config);
+    card.hass = mockTemplateHass(subscriptions);
+    await flush(card);
+
+    expect(subscriptions).toHaveLength(1);
+    expect(subscriptions[0]?.message).toEqual({
+      type: 'render_template',
+      template,
+      report_errors: true,
+    });
+  });
+
+  it('renders the items of the template result', async () => {
+    card.setConfig(config);
+    card.hass = mockTemplateHass(subscriptions);
+    await flush(card);
+
+    push([
+      { label: 'AAPL', value: 60 },
+      { label: 'MSFT', value: 40 },
+    ]);
+    await flush(card);
+
+    expect(getRenderedItems(card).map(item => item.label)).toEqual(['AAPL', 'MSFT']);
+  });
+
+  it('maps items like JSON mode', async () => {
+    card.setConfig({
+      ...config,
+      data_attribute: 'stocks',
+      label: { attribute: 'symbol' },
+      value: { attribute: 'weight' },
+    });
+    card.hass = mockTemplateHass(subscriptions);
+    await flush(card);
+
+    push('{"stocks": [{"symbol": "AAPL", "weight": 3}, {"symbol": "XOM", "weight": 1}]}');
+    await flush(card);
+
+    const items = getRenderedItems(card);
+    expect(items.map(item => item.label)).toEqual(['AAPL', 'XOM']);
+    expect(items[0]?.value).toBe(3);
+  });
+
+  it('updates when the template renders again', async () => {
+    card.setConfig(config);
+    card.hass = mockTemplateHass(subscriptions);
+    await flush(card);
+
+    push([{ label: 'A', value: 1 }]);
+    await flush(card);
+    push([
+      { label: 'A', value: 1 },
+      { label: 'B', value: 2 },
+    ]);
+    await flush(card);
+
+    expect(getRenderedItems(card).map(item => item.label)).toEqual(['B', 'A']);
+  });
+
+  it('shows template errors and keeps the last data', async () => {
+    card.setConfig(config);
+    card.hass = mockTemplateHass(subscriptions);
+    await flush(card);
+
+    push([{ label: 'A', value: 1 }]);
+    await flush(card);
+    subscriptions[0]?.callback({ error: "UndefinedError: 'foo' is undefined", level: 'ERROR' });
+    await flush(card);
+
+    expect(getError(card)).toBe("UndefinedError: 'foo' is undefined");
+    expect(getRenderedItems(card)).toHaveLength(1);
+
+    push([{ label: 'A', value: 1 }]);
+    await flush(card);
+    expect(getError(card)).toBeUndefined();
+  });
+
+  it('shows results that are not a list', async () => {
+    card.setConfig(config);
+    card.hass = mockTemplateHass(subscriptions);
+    await flush(card);
+
+    push('42');
+    await flush(card);
+
+    expect(getError(card)).toBe('data_template must render a list (or an object with "items")');
+    expect(card.shadowRoot?.querySelector('.empty')).not.toBeNull();
+  });
+
+  it('shows a rejected subscription', async () => {
+    card.setConfig(config);
+    card.hass = {
+      ...mockHass([]),
+      connection: {
+        subscribeMessage: () =>
+          Promise.reject(new Error('TemplateSyntaxError: unexpected end of template')),
+      },
+    };
+    await flush(card);
+
+    expect(getError(card)).toBe('TemplateSyntaxError: unexpected end of template');
+  });
+
+  it('unsubscribes when removed and resubscribes when added again', async () => {
+    card.setConfig(config);
+    card.hass = mockTemplateHass(subscriptions);
+    await flush(card);
+
+    card.remove();
+    await flush(card);
+    expect(subscriptions[0]?.unsubscribe).toHaveBeenCalledOnce();
+
+    document.body.appendChild(card);
+    await flush(card);
+    expect(subscriptions).toHaveLength(2);
+    expect(subscriptions[1]?.unsubscribe).not.toHaveBeenCalled();
+  });
+
+  it('resubscribes when the template changes', async () => {
+    card.setConfig(config);
+    card.hass = mockTemplateHass(subscriptions);
+    await flush(card);
+    push([{ label: 'A', value: 1 }]);
+    await flush(card);
+
+    card.setConfig({ ...config, data_template: '{{ [] }}' });
+    await flush(card);
+
+    expect(subscriptions[0]?.unsubscribe).toHaveBeenCalledOnce();
+    expect(subscriptions).toHaveLength(2);
+    expect(subscriptions[1]?.message['template']).toBe('{{ [] }}');
+    // Items of the old template are dropped
+    expect(getRenderedItems(card)).toHaveLength(0);
+  });
+
+  it('keeps the subscription when the config is set again', async () => {
+    card.setConfig(config);
+    card.hass = mockTemplateHass(subscriptions);
+    await flush(card);
+
+    card.setConfig({ ...config, title: 'Stocks' });
+    await flush(card);
+
+    expect(subscriptions).toHaveLength(1);
+    expect(subscriptions[0]?.unsubscribe).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Integration tests for domain handlers (covers, fans, media players, vacuums, batteries, people)
+ */
+
+import { describe, expect, it, beforeEach, vi, afterEach } from 'vitest';
+import { createCard, mockEntity, mockHass, getRenderedItems, getTile, tap } from './helpers';
+import type { TreemapCard } from '../src/treemap-card';
+
+function getValueText(card: TreemapCard, label: string): string | undefined {
+  const tiles = card.shadowRoot?.querySelectorAll('.treemap-item') ?? [];
+  const tile = [...tiles].find(
+    element => element.querySelector('.treemap-label')?.textContent === label
+  );
+  return tile?.querySelector('.treemap-value')?.textContent ?? undefined;
+}
+
+function getArea(card: TreemapCard, label: string): number {
+  const item = getRenderedItems(card).find(rendered => rendered.label === label);
+  return (item?.width ?? 0) * (item?.height ?? 0);
+}
+
+describe('Domain handlers', () => {
+  let card: TreemapCard;
+
+  beforeEach(() => {
+    card = createCard();
+  });
+
+  afterEach(() => {
+    card.remove();
+    vi.useRealTimers();
+  });
+
+  it('shows cover positions, using the state map for covers without one', async () => {
+    card.setConfig({ type: 'custom:treemap-card', entities: ['cover.*'] });
+    card.hass = mockHass([
+      mockEntity('cover.blinds', 'open', { friendly_name: 'Blinds', current_position: 60 }),
+      mockEntity('cover.shutter', 'closing', { friendly_name: 'Shutter', current_position: 30 }),
+      mockEntity('cover.garage', 'open', { friendly_name: 'Garage' }),
+    ]);
+    await card.updateComplete;
+
+    expect(getValueText(card, 'Blinds')).toBe('60.0 %');
+    expect(getValueText(card, 'Shutter')).toBe('Closing · 30.0 %');
+    expect(getValueText(card, 'Garage')).toBe('Open');
+  });
+
+  it('sizes fans by speed', async () => {
+    card.setConfig({ type: 'custom:treemap-card', entities: ['fan.*'] });
+    card.hass = mockHass([
+      mockEntity('fan.ceiling', 'on', { friendly_name: 'Ceiling', percentage: 100 }),
+      mockEntity('fan.desk', 'on', { friendly_name: 'Desk', percentage: 20 }),
+      mockEntity('fan.attic', 'off', { friendly_name: 'Attic' }),
+    ]);
+    await card.updateComplete;
+
+    expect(getValueText(card, 'Desk')).toBe('20.0 %');
+    expect(getArea(card, 'Ceiling')).toBeGreaterThan(getArea(card, 'Desk'));
+    expect(getArea(card, 'Desk')).toBeGreaterThan(getArea(card, 'Attic'));
+  });
+
+  it('shows the state and volume of media players', async () => {
+    card.setConfig({ type: 'custom:treemap-card', entities: ['media_player.*'] });
+    card.hass = mockHass([
+      mockEntity('media_player.tv', 'playing', { friendly_name: 'TV', volume_level: 0.4 }),
+      mockEntity('media_player.radio', 'off', { friendly_name: 'Radio' }),
+    ]);
+    await card.updateComplete;
+
+    expect(getValueText(card, 'TV')).toBe('Playing · 40.0 %');
+    expect(getValueText(card, 'Radio')).toBe('Off');
+    expect(getArea(card, 'TV')).toBeGreaterThan(getArea(card, 'Radio'));
+  });
+
+  it('keeps state_map in charge of mapped states', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['media_player.*'],
+      state_map: { playing: { value: 5, label: 'On air' } },
+    });
+    card.hass = mockHass([
+      mockEntity('media_player.tv', 'playing', { friendly_name: 'TV', volume_level: 0.4 }),
+    ]);
+    await card.updateComplete;
+
+    expect(getValueText(card, 'TV')).toBe('On air');
+  });
+
+  it('shows vacuums in error in the error color', async () => {
+    card.setConfig({ type: 'custom:treemap-card', entities: ['vacuum.*'] });
+    card.hass = mockHass([
+      mockEntity('vacuum.robot', 'error', { friendly_name: 'Robot', battery_level: 55 }),
+    ]);
+    await card.updateComplete;
+
+    expect(getValueText(card, 'Robot')).toBe('Error · 55.0 %');
+    expect(getRenderedItems(card)[0]?.backgroundColor).toBe('rgb(219, 68, 55)');
+  });
+
+  it('colors batteries on a fixed 0-100 scale', async () => {
+    card.setConfig({ type: 'custom:treemap-card', entities: ['sensor.*'] });
+    card.hass = mockHass([
+      mockEntity('sensor.phone', '95', { friendly_name: 'Phone', device_class: 'battery' }),
+      mockEntity('sensor.tablet', '90', { friendly_name: 'Tablet', device_class: 'battery' }),
+    ]);
+    await card.updateComplete;
+
+    // Both are nearly full: the emptier one is still green, not the low color
+    const [phone, tablet] = getRenderedItems(card);
+    const [red = 0, green = 0] = (tablet?.backgroundColor?.match(/\d+/g) ?? []).map(Number);
+    expect(green).toBeGreaterThan(red);
+    expect(phone?.icon).toBe('mdi:battery');
+    expect(tablet?.icon).toBe('mdi:battery-90');
+  });
+
+  it('keeps configured colors and icons of existing battery configs', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['sensor.*'],
+      color: { low: '#ff0000', high: '#00ff00' },
+      icon: { icon: 'mdi:battery-heart' },
+    });
+    card.hass = mockHass([
+      mockEntity('sensor.phone', '95', { friendly_name: 'Phone', device_class: 'battery' }),
+      mockEntity('sensor.tablet', '90', { friendly_name: 'Tablet', device_class: 'battery' }),
+      mockEntity('sensor.remote', '50', {
+        friendly_name: 'Remote',
+        device_class: 'battery',
+        icon: 'mdi:remote',
+      }),
+    ]);
+    await card.updateComplete;
+
+    // Colored over the range of the tiles, as for other sensors
+    const items = Object.fromEntries(getRenderedItems(card).map(item => [item.label, item]));
+    expect(items['Phone']?.backgroundColor).toBe('rgb(0, 255, 0)');
+    expect(items['Remote']?.backgroundColor).toBe('rgb(255, 0, 0)');
+    expect(items['Phone']?.icon).toBe('mdi:battery-heart');
+    expect(items['Remote']?.icon).toBe('mdi:remote');
+  });
+
+  it('shows people as equal tiles with their zone', async () => {
+    card.setConfig({ type: 'custom:treemap-card', entities: ['person.*'] });
+    card.hass = mockHass([
+      mockEntity('person.anna', 'home', { friendly_name: 'Anna' }),
+      mockEntity('person.ben', 'not_home', { friendly_name: 'Ben' }),
+      mockEntity('person.cleo', 'Work', { friendly_name: 'Cleo' }),
+    ]);
+    await card.updateComplete;
+
+    expect(getValueText(card, 'Anna')).toBe('Home');
+    expect(getValueText(card, 'Ben')).toBe('Away');
+    expect(getValueText(card, 'Cleo')).toBe('Work');
+    expect(getArea(card, 'Anna')).toBeCloseTo(getArea(card, 'Ben'));
+
+    const [anna, ben] = getRenderedItems(card);
+    expect(anna?.backgroundColor).toBe('rgb(76, 175, 80)');
+    expect(ben?.backgroundColor).toBe('rgb(158, 158, 158)');
+  });
+
+  it('runs taps on covers immediately, without a default double tap action', async () => {
+    vi.useFakeTimers();
+    const hass = mockHass([
+      mockEntity('cover.garage', 'open', { friendly_name: 'Garage', current_position: 100 }),
+    ]);
+    const callServiceSpy = vi.spyOn(hass, 'callService').mockResolvedValue();
+    card.setConfig({ type: 'custom:treemap-card', entities: ['cover.garage'] });
+    card.hass = hass;
+    await card.updateComplete;
+
+    const moreInfoSpy = vi.fn();
+    card.addEventListener('hass-more-info', moreInfoSpy);
+    const item = getTile(card);
+    tap(item);
+    expect(moreInfoSpy).toHaveBeenCalledTimes(1);
+
+    // A second tap opens the dialog again instead of toggling the cover
+    tap(item);
+    vi.advanceTimersByTime(500);
+    expect(moreInfoSpy).toHaveBeenCalledTimes(2);
+    expect(callServiceSpy).not.toHaveBeenCalled();
+  });
+});
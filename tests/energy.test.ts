@@ -0,0 +1,149 @@
+/**
+ * Integration tests for energy dashboard mode (energy)
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from 'vitest';
+import { createCard, mockEntity, mockHass, getRenderedItems } from './helpers';
+import type { TreemapCard } from '../src/treemap-card';
+import type { HomeAssistant, TreemapCardConfig } from '../src';
+import { clearEnergyCache } from '../src/utils/energy';
+import { clearStatisticsCache } from '../src/utils/statistics';
+
+const prefs = {
+  energy_sources: [
+    { type: 'grid', flow_from: [{ stat_energy_from: 'sensor.grid_import' }] },
+    { type: 'solar', stat_energy_from: 'sensor.solar_production' },
+  ],
+  device_consumption: [
+    { stat_consumption: 'sensor.washer_energy' },
+    { stat_consumption: 'sensor.heat_pump_energy', name: 'Heat pump' },
+    { stat_consumption: 'sensor.kitchen_energy', name: 'Kitchen' },
+    { stat_consumption: 'sensor.oven_energy', included_in_stat: 'sensor.kitchen_energy' },
+  ],
+};
+
+const rows: Record<string, object[]> = {
+  'sensor.washer_energy': [{ change: 1.2 }],
+  'sensor.heat_pump_energy': [{ change: 4 }, { change: 3 }],
+  'sensor.kitchen_energy': [{ change: 3 }],
+  'sensor.oven_energy': [{ change: 2 }],
+  'sensor.grid_import': [{ change: 8 }],
+  'sensor.solar_production': [{ change: 5 }],
+};
+
+const entities = [
+  mockEntity('sensor.washer_energy', '120', {
+    friendly_name: 'Washing machine',
+    unit_of_measurement: 'kWh',
+  }),
+  mockEntity('sensor.heat_pump_energy', '900', { unit_of_measurement: 'kWh' }),
+  mockEntity('sensor.kitchen_energy', '400', { unit_of_measurement: 'kWh' }),
+  mockEntity('sensor.oven_energy', '80', { friendly_name: 'Oven', unit_of_measurement: 'kWh' }),
+  mockEntity('sensor.grid_import', '3000', { unit_of_measurement: 'kWh' }),
+  mockEntity('sensor.solar_production', '2000', { unit_of_measurement: 'kWh' }),
+];
+
+/**
+ * Hass answering the energy preferences and statistics requests of the card
+ */
+function mockEnergyHass(energyPrefs: unknown): {
+  hass: HomeAssistant;
+  requests: Record<string, unknown>[];
+} {
+  const requests: Record<string, unknown>[] = [];
+  const hass = {
+    ...mockHass(entities),
+    callWS: async <T>(message: Record<string, unknown>) => {
+      requests.push(message);
+      if (message['type'] === 'energy/get_prefs') {
+        if (!energyPrefs) throw { code: 'not_found', message: 'No prefs' };
+        return energyPrefs as T;
+      }
+      return (message['types'] ? rows : {}) as T;
+    },
+  };
+  return { hass, requests };
+}
+
+// Wait for the debounced statistics fetch and the re-render
+async function flush(card: TreemapCard): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, 150));
+  await card.updateComplete;
+}
+
+function getValues(card: TreemapCard): Record<string, number> {
+  return Object.fromEntries(getRenderedItems(card).map(item => [item.label, item.value]));
+}
+
+describe('Energy mode', () => {
+  let card: TreemapCard;
+
+  const config: TreemapCardConfig = { type: 'custom:treemap-card', energy: {} };
+
+  beforeEach(() => {
+    card = createCard();
+  });
+
+  afterEach(async () => {
+    card.remove();
+    // Let debounced fetches of the removed card finish before clearing the caches
+    await new Promise(resolve => setTimeout(resolve, 150));
+    clearEnergyCache();
+    clearStatisticsCache();
+  });
+
+  it("shows today's consumption of the energy dashboard devices", async () => {
+    card.setConfig(config);
+    card.hass = mockEnergyHass(prefs).hass;
+    await flush(card);
+
+    expect(getValues(card)).toEqual({
+      'Washing machine': 1.2,
+      'Heat pump': 7,
+      // The oven is part of the kitchen circuit and counted once
+      Kitchen: 1,
+      Oven: 2,
+    });
+  });
+
+  it('adds grid and solar tiles when sources are enabled', async () => {
+    card.setConfig({ ...config, energy: { sources: true } });
+    card.hass = mockEnergyHass(prefs).hass;
+    await flush(card);
+
+    const values = getValues(card);
+    expect(values['Grid']).toBe(8);
+    expect(values['Solar']).toBe(5);
+  });
+
+  it('requests consumption over the configured period', async () => {
+    card.setConfig({ ...config, energy: { period: 'this_week' } });
+    const { hass, requests } = mockEnergyHass(prefs);
+    card.hass = hass;
+    await flush(card);
+
+    expect(requests).toContainEqual(
+      expect.objectContaining({
+        type: 'recorder/statistics_during_period',
+        statistic_ids: [
+          'sensor.washer_energy',
+          'sensor.heat_pump_energy',
+          'sensor.kitchen_energy',
+          'sensor.oven_energy',
+        ],
+        period: 'day',
+        types: ['change'],
+      })
+    );
+  });
+
+  it('reports a missing energy configuration', async () => {
+    card.setConfig(config);
+    card.hass = mockEnergyHass(undefined).hass;
+    await flush(card);
+
+    expect(card.shadowRoot?.querySelector('.card-content > .error')?.textContent).toBe(
+      'energy: No prefs'
+    );
+  });
+});
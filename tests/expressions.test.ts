@@ -0,0 +1,152 @@
+/**
+ * Integration tests for computed values (value/size/color.expression)
+ */
+
+import { describe, expect, it, beforeEach } from 'vitest';
+import { createCard, mockEntity, mockHass, getRenderedItems, getTile } from './helpers';
+import type { TreemapCard } from '../src/treemap-card';
+
+function getValue(card: TreemapCard, label: string): string | undefined {
+  return getTile(card, label)?.querySelector('.treemap-value')?.textContent?.trim();
+}
+
+describe('Expressions', () => {
+  let card: TreemapCard;
+
+  beforeEach(() => {
+    card = createCard();
+  });
+
+  it('computes entity values from attributes', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['sensor.*'],
+      value: { expression: 'voltage * current', suffix: ' W' },
+    });
+    card.hass = mockHass([
+      mockEntity('sensor.washer', 'on', { voltage: 230, current: 2 }),
+      mockEntity('sensor.dryer', 'on', { voltage: 230, current: 4 }),
+    ]);
+    await card.updateComplete;
+
+    expect(getValue(card, 'washer')).toBe('460.0 W');
+    expect(getValue(card, 'dryer')).toBe('920.0 W');
+  });
+
+  it('combines the state with another entity', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['sensor.*_energy'],
+      value: { expression: "state * states('input_number.tariff')", precision: 2 },
+    });
+    card.hass = mockHass([
+      mockEntity('sensor.oven_energy', '4', { unit_of_measurement: 'kWh' }),
+      mockEntity('input_number.tariff', '0.3'),
+    ]);
+    await card.updateComplete;
+
+    // The computed value does not carry the entity's unit
+    expect(getValue(card, 'oven energy')).toBe('1.20');
+  });
+
+  it('sizes and colors by separate expressions', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['sensor.*'],
+      size: { expression: 'total' },
+      color: { expression: 'state / total * 100', scale: { min: 0, max: 100 } },
+    });
+    card.hass = mockHass([
+      mockEntity('sensor.disk_a', '50', { total: 100 }),
+      mockEntity('sensor.disk_b', '300', { total: 300 }),
+    ]);
+    await card.updateComplete;
+
+    const items = getRenderedItems(card);
+    const diskA = items.find(item => item.label === 'disk a');
+    const diskB = items.find(item => item.label === 'disk b');
+    // Size follows total (100 vs 300), the value still shows the state
+    expect((diskA?.width ?? 0) * (diskA?.height ?? 0)).toBeLessThan(
+      (diskB?.width ?? 0) * (diskB?.height ?? 0)
+    );
+    expect(getValue(card, 'disk a')).toBe('50.0 C');
+    // Colored by the used share: 100% is full green
+    expect(diskB?.backgroundColor).toBe('rgb(22, 163, 74)');
+    expect(diskA?.backgroundColor).not.toBe(diskB?.backgroundColor);
+  });
+
+  it('computes JSON item values from fields', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entity: 'sensor.portfolio',
+      value: { expression: 'price * shares', precision: 0 },
+    });
+    card.hass = mockHass([
+      mockEntity('sensor.portfolio', '2', {
+        items: [
+          { label: 'AAPL', price: 200, shares: 10 },
+          { label: 'MSFT', price: 400, shares: 2 },
+        ],
+      }),
+    ]);
+    await card.updateComplete;
+
+    expect(getValue(card, 'AAPL')).toBe('2000');
+    expect(getValue(card, 'MSFT')).toBe('800');
+  });
+
+  it('shows an error tile when an expression fails', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['sensor.*'],
+      value: { expression: 'voltage * current' },
+    });
+    card.hass = mockHass([
+      mockEntity('sensor.washer', '1', { voltage: 230, current: 2 }),
+      mockEntity('sensor.broken', '1', { voltage: 230 }),
+    ]);
+    await card.updateComplete;
+
+    const tile = getTile(card, 'broken');
+    expect(tile?.classList.contains('error')).toBe(true);
+    expect(getValue(card, 'broken')).toBe('value: Unknown name "current"');
+    expect(getRenderedItems(card).find(item => item.label === 'broken')?.backgroundColor).toBe(
+      'rgb(219, 68, 55)'
+    );
+    expect(getTile(card, 'washer')?.classList.contains('error')).toBe(false);
+  });
+
+  it('shows syntax errors on every tile', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entity: 'sensor.portfolio',
+      size: { expression: 'price *' },
+    });
+    card.hass = mockHass([
+      mockEntity('sensor.portfolio', '1', { items: [{ label: 'AAPL', value: 1, price: 2 }] }),
+    ]);
+    await card.updateComplete;
+
+    expect(getValue(card, 'AAPL')).toBe('size: Unexpected end of expression');
+  });
+
+  it('re-renders when an entity read by the expression changes', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['sensor.oven_energy'],
+      value: { expression: "state * states('input_number.tariff')", precision: 1 },
+    });
+    const oven = mockEntity('sensor.oven_energy', '10');
+    card.hass = mockHass([oven, mockEntity('input_number.tariff', '0.3')]);
+    await card.updateComplete;
+    expect(getValue(card, 'oven energy')).toBe('3.0');
+
+    card.hass = mockHass([
+      oven,
+      { ...mockEntity('input_number.tariff', '0.5'), last_updated: '2099-01-01T00:00:00Z' },
+    ]);
+    await card.updateComplete;
+
+    expect(getValue(card, 'oven energy')).toBe('5.0');
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Integration tests for hierarchical (grouped) treemaps
+ */
+
+import { describe, expect, it, beforeEach } from 'vitest';
+import { createCard, mockEntity, mockHass, getRenderedItems } from './helpers';
+import type { TreemapCard } from '../src/treemap-card';
+import type { HomeAssistant } from '../src';
+
+function getGroupHeaders(card: TreemapCard): { label: string; value: string }[] {
+  const headers = card.shadowRoot?.querySelectorAll('.treemap-group-header') ?? [];
+  return [...headers].map(header => ({
+    label: header.querySelector('.treemap-group-label')?.textContent ?? '',
+    value: header.querySelector('.treemap-group-value')?.textContent ?? '',
+  }));
+}
+
+function withAreas(hass: HomeAssistant): HomeAssistant {
+  return {
+    ...hass,
+    entities: {
+      'sensor.fridge': { entity_id: 'sensor.fridge', area_id: 'kitchen' },
+      'sensor.oven': { entity_id: 'sensor.oven', area_id: 'kitchen' },
+      'sensor.tv': { entity_id: 'sensor.tv', area_id: 'living_room' },
+    },
+    areas: {
+      kitchen: { area_id: 'kitchen', name: 'Kitchen' },
+      living_room: { area_id: 'living_room', name: 'Living Room' },
+    },
+  };
+}
+
+describe('Grouped treemap', () => {
+  let card: TreemapCard;
+
+  beforeEach(() => {
+    card = createCard();
+  });
+
+  it('renders a frame per area with aggregated value', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['sensor.*'],
+      group_by: 'area',
+      value: { precision: 0 },
+    });
+    card.hass = withAreas(
+      mockHass([
+        mockEntity('sensor.fridge', '100', { unit_of_measurement: 'W' }),
+        mockEntity('sensor.oven', '900', { unit_of_measurement: 'W' }),
+        mockEntity('sensor.tv', '50', { unit_of_measurement: 'W' }),
+      ])
+    );
+    await card.updateComplete;
+
+    const headers = getGroupHeaders(card);
+    expect(headers).toEqual([
+      { label: 'Kitchen', value: '1000 W' },
+      { label: 'Living Room', value: '50 W' },
+    ]);
+    expect(getRenderedItems(card)).toHaveLength(3);
+  });
+
+  it('supports mean aggregation and hiding headers', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['sensor.*'],
+      group_by: 'area',
+      group: { aggregate: 'mean', header: { show: false } },
+    });
+    card.hass = withAreas(
+      mockHass([mockEntity('sensor.fridge', '100'), mockEntity('sensor.oven', '900')])
+    );
+    await card.updateComplete;
+
+    expect(card.shadowRoot?.querySelectorAll('.treemap-group')).toHaveLength(1);
+    expect(getGroupHeaders(card)).toHaveLength(0);
+  });
+
+  it('groups by domain without registry data', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['sensor.power', 'light.kitchen'],
+      group_by: 'domain',
+    });
+    card.hass = mockHass([
+      mockEntity('sensor.power', '100'),
+      mockEntity('light.kitchen', 'on', { brightness: 255 }),
+    ]);
+    await card.updateComplete;
+
+    expect(getGroupHeaders(card).map(h => h.label)).toEqual(['sensor', 'light']);
+  });
+
+  it('groups JSON items by a field', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entity: 'sensor.portfolio',
+      group_by: 'sector',
+    });
+    card.hass = mockHass([
+      mockEntity('sensor.portfolio', '3', {
+        items: [
+          { label: 'AAPL', value: 50, sector: 'Tech' },
+          { label: 'MSFT', value: 30, sector: 'Tech' },
+          { label: 'XOM', value: 20, sector: 'Energy' },
+        ],
+      }),
+    ]);
+    await card.updateComplete;
+
+    expect(getGroupHeaders(card).map(h => h.label)).toEqual(['Tech', 'Energy']);
+  });
+
+  it('builds groups from JSON children arrays', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entity: 'sensor.servers',
+    });
+    card.hass = mockHass([
+      mockEntity('sensor.servers', '2', {
+        items: [
+          {
+            label: 'Rack A',
+            children: [
+              { label: 'web-1', value: 40 },
+              { label: 'web-2', value: 20 },
+            ],
+          },
+          { label: 'Rack B', children: [{ label: 'db-1', value: 60 }] },
+        ],
+      }),
+    ]);
+    await card.updateComplete;
+
+    expect(
+      getGroupHeaders(card)
+        .map(h => h.label)
+        .sort()
+    ).toEqual(['Rack A', 'Rack B']);
+    const items = getRenderedItems(card);
+    expect(items.map(i => i.label).sort()).toEqual(['db-1', 'web-1', 'web-2']);
+  });
+
+  it('renders flat layout without group frames when group_by is not set', async () => {
+    card.setConfig({ type: 'custom:treemap-card', entities: ['sensor.*'] });
+    card.hass = withAreas(mockHass([mockEntity('sensor.fridge', '100')]));
+    await card.updateComplete;
+
+    expect(card.shadowRoot?.querySelectorAll('.treemap-group')).toHaveLength(0);
+  });
+});
@@ -88,7 +88,7 @@ export function getRenderedItems(card: TreemapCard): RenderedItem[] {
   const shadow = card.shadowRoot;
   if (!shadow) return [];
 
-  const items = shadow.querySelectorAll('.treemap-item');
+  const items = shadow.querySelectorAll('.treemap-item:not(.exiting)');
   const result: RenderedItem[] = [];
 
   for (const item of items) {
@@ -134,3 +134,33 @@ export function getRenderedItems(card: TreemapCard): RenderedItem[] {
 
   return result;
 }
+
+/**
+ * Get a rendered tile by its label (the first tile without a label)
+ */
+export function getTile(card: TreemapCard, label?: string): HTMLElement | undefined {
+  const tiles = card.shadowRoot?.querySelectorAll<HTMLElement>('.treemap-item') ?? [];
+  if (label === undefined) return tiles[0];
+  return [...tiles].find(tile => tile.querySelector('.treemap-label')?.textContent === label);
+}
+
+/**
+ * Main button mouse pointer event (pointerId 1), with optional coordinates
+ */
+export function pointer(type: string, init: PointerEventInit = {}): PointerEvent {
+  return new PointerEvent(type, {
+    bubbles: true,
+    button: 0,
+    pointerType: 'mouse',
+    pointerId: 1,
+    ...init,
+  });
+}
+
+/**
+ * Tap an element: pointerdown followed by pointerup
+ */
+export function tap(element: Element | undefined): void {
+  element?.dispatchEvent(pointer('pointerdown'));
+  element?.dispatchEvent(pointer('pointerup'));
+}
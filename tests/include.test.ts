@@ -0,0 +1,124 @@
+/**
+ * Integration tests for the native include filter (area, device_class, hidden, ...)
+ */
+
+import { describe, expect, it, beforeEach } from 'vitest';
+import { createCard, mockEntity, mockHass, getRenderedItems } from './helpers';
+import type { TreemapCard } from '../src/treemap-card';
+import type { HomeAssistant } from '../src';
+
+function makeHass(): HomeAssistant {
+  return {
+    ...mockHass([
+      mockEntity('sensor.fridge_power', '120', { device_class: 'power' }),
+      mockEntity('sensor.oven_power', '2000', { device_class: 'power' }),
+      mockEntity('sensor.oven_temperature', '180', { device_class: 'temperature' }),
+      mockEntity('sensor.tv_power', '80', { device_class: 'power' }),
+      mockEntity('sensor.oven_rssi', '-60', { device_class: 'signal_strength' }),
+      mockEntity('sensor.old_power', '5', { device_class: 'power' }),
+    ]),
+    entities: {
+      'sensor.fridge_power': { entity_id: 'sensor.fridge_power', area_id: 'kitchen' },
+      'sensor.oven_power': { entity_id: 'sensor.oven_power', device_id: 'oven' },
+      'sensor.oven_temperature': { entity_id: 'sensor.oven_temperature', device_id: 'oven' },
+      'sensor.tv_power': { entity_id: 'sensor.tv_power', area_id: 'living_room' },
+      'sensor.oven_rssi': {
+        entity_id: 'sensor.oven_rssi',
+        device_id: 'oven',
+        entity_category: 'diagnostic',
+      },
+      'sensor.old_power': { entity_id: 'sensor.old_power', area_id: 'kitchen', hidden: true },
+    },
+    devices: {
+      oven: { id: 'oven', name: 'Oven', area_id: 'kitchen' },
+    },
+    areas: {
+      kitchen: { area_id: 'kitchen', name: 'Kitchen' },
+      living_room: { area_id: 'living_room', name: 'Living Room' },
+    },
+  };
+}
+
+function getLabels(card: TreemapCard): string[] {
+  return getRenderedItems(card)
+    .map(item => item.label)
+    .sort();
+}
+
+describe('Include filter', () => {
+  let card: TreemapCard;
+
+  beforeEach(() => {
+    card = createCard();
+  });
+
+  it('selects entities without an entities list', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      include: { area: 'Kitchen', device_class: 'power' },
+    });
+    card.hass = makeHass();
+    await card.updateComplete;
+
+    expect(getLabels(card)).toEqual(['fridge power', 'oven power']);
+  });
+
+  it('narrows wildcard entities', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['sensor.oven_*'],
+      include: { area: 'kitchen' },
+    });
+    card.hass = makeHass();
+    await card.updateComplete;
+
+    expect(getLabels(card)).toEqual(['oven power', 'oven temperature']);
+  });
+
+  it('still applies exclude patterns', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      include: { device_class: 'power' },
+      exclude: ['sensor.tv_*'],
+    });
+    card.hass = makeHass();
+    await card.updateComplete;
+
+    expect(getLabels(card)).toEqual(['fridge power', 'oven power']);
+  });
+
+  it('includes hidden and diagnostic entities when enabled', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      include: { area: 'kitchen', hidden: true, entity_category: true },
+    });
+    card.hass = makeHass();
+    await card.updateComplete;
+
+    expect(getLabels(card)).toEqual([
+      'fridge power',
+      'old power',
+      'oven power',
+      'oven rssi',
+      'oven temperature',
+    ]);
+  });
+
+  it('updates when a filtered entity changes', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      include: { area: 'living_room' },
+    });
+    const hass = makeHass();
+    card.hass = hass;
+    await card.updateComplete;
+
+    card.hass = {
+      ...hass,
+      states: { ...hass.states, 'sensor.tv_power': mockEntity('sensor.tv_power', '150') },
+    };
+    await card.updateComplete;
+
+    expect(getRenderedItems(card)[0]?.value).toBe(150);
+  });
+});
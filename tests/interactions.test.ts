@@ -4,7 +4,7 @@
 
 import { describe, expect, it, beforeEach, vi, afterEach } from 'vitest';
 import { createCard, mockEntity, mockHass } from './helpers';
-import type { TreemapCard } from '../src';
+import type { HomeAssistant, TreemapCard, TreemapCardConfig } from '../src';
 
 describe('User Interactions', () => {
   let card: TreemapCard;
@@ -497,6 +497,134 @@ describe('User Interactions', () => {
     });
   });
 
+  describe('double_tap_action', () => {
+    function tap(item: HTMLElement): void {
+      item.dispatchEvent(
+        new PointerEvent('pointerdown', { bubbles: true, button: 0, pointerType: 'mouse' })
+      );
+      item.dispatchEvent(
+        new PointerEvent('pointerup', { bubbles: true, button: 0, pointerType: 'mouse' })
+      );
+    }
+
+    async function setup(config: Partial<TreemapCardConfig> = {}): Promise<{
+      hass: HomeAssistant;
+      item: HTMLElement;
+      moreInfoSpy: ReturnType<typeof vi.fn>;
+    }> {
+      const hass = mockHass([
+        mockEntity('light.living_room', 'on', { friendly_name: 'Living Room' }),
+      ]);
+      card.setConfig({
+        type: 'custom:treemap-card',
+        entities: ['light.living_room'],
+        double_tap_action: { action: 'toggle' },
+        ...config,
+      });
+      card.hass = hass;
+      await card.updateComplete;
+
+      const moreInfoSpy = vi.fn();
+      card.addEventListener('hass-more-info', moreInfoSpy);
+      const item = card.shadowRoot?.querySelector('.treemap-item') as HTMLElement;
+      return { hass, item, moreInfoSpy };
+    }
+
+    it('runs double_tap_action instead of tap_action on double tap', async () => {
+      const { hass, item, moreInfoSpy } = await setup();
+      const callServiceSpy = vi.spyOn(hass, 'callService').mockResolvedValue();
+
+      tap(item);
+      vi.advanceTimersByTime(100);
+      tap(item);
+      vi.advanceTimersByTime(500);
+
+      expect(callServiceSpy).toHaveBeenCalledTimes(1);
+      expect(callServiceSpy).toHaveBeenCalledWith('light', 'toggle', {
+        entity_id: 'light.living_room',
+      });
+      expect(moreInfoSpy).not.toHaveBeenCalled();
+    });
+
+    it('runs tap_action after the double tap window on single tap', async () => {
+      const { hass, item, moreInfoSpy } = await setup();
+      const callServiceSpy = vi.spyOn(hass, 'callService').mockResolvedValue();
+
+      tap(item);
+      expect(moreInfoSpy).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(250);
+      expect(moreInfoSpy).toHaveBeenCalledTimes(1);
+      expect(callServiceSpy).not.toHaveBeenCalled();
+    });
+
+    it('treats taps further apart than double_tap_window as two single taps', async () => {
+      const { hass, item, moreInfoSpy } = await setup({ double_tap_window: 100 });
+      const callServiceSpy = vi.spyOn(hass, 'callService').mockResolvedValue();
+
+      tap(item);
+      vi.advanceTimersByTime(150);
+      tap(item);
+      vi.advanceTimersByTime(150);
+
+      expect(moreInfoSpy).toHaveBeenCalledTimes(2);
+      expect(callServiceSpy).not.toHaveBeenCalled();
+    });
+
+    it('runs tap_action immediately when no double_tap_action is configured', async () => {
+      const { item, moreInfoSpy } = await setup({ double_tap_action: undefined });
+
+      tap(item);
+      expect(moreInfoSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not run tap_action after a hold', async () => {
+      const { hass, item, moreInfoSpy } = await setup({
+        hold_action: { action: 'navigate', navigation_path: '/lovelace/lights' },
+      });
+      const callServiceSpy = vi.spyOn(hass, 'callService').mockResolvedValue();
+      const pushStateSpy = vi.spyOn(window.history, 'pushState').mockImplementation(() => {});
+
+      item.dispatchEvent(
+        new PointerEvent('pointerdown', { bubbles: true, button: 0, pointerType: 'mouse' })
+      );
+      vi.advanceTimersByTime(600);
+      item.dispatchEvent(
+        new PointerEvent('pointerup', { bubbles: true, button: 0, pointerType: 'mouse' })
+      );
+      vi.advanceTimersByTime(500);
+
+      expect(pushStateSpy).toHaveBeenCalledWith(null, '', '/lovelace/lights');
+      expect(moreInfoSpy).not.toHaveBeenCalled();
+      expect(callServiceSpy).not.toHaveBeenCalled();
+      pushStateSpy.mockRestore();
+    });
+
+    it('supports per-entity double_tap_action overrides', async () => {
+      const { hass, item } = await setup({
+        double_tap_action: undefined,
+        entities: [
+          {
+            entity: 'light.living_room',
+            double_tap_action: {
+              action: 'call-service',
+              service: 'light.turn_off',
+              service_data: { entity_id: 'light.living_room' },
+            },
+          },
+        ],
+      });
+      const callServiceSpy = vi.spyOn(hass, 'callService').mockResolvedValue();
+
+      tap(item);
+      tap(item);
+
+      expect(callServiceSpy).toHaveBeenCalledWith('light', 'turn_off', {
+        entity_id: 'light.living_room',
+      });
+    });
+  });
+
   describe('per-entity action overrides', () => {
     it('uses per-entity tap_action override over global config', async () => {
       const hass = mockHass([
@@ -160,4 +160,40 @@ describe('JSON Entity Mode', () => {
     expect(items.find(i => i.label === 'NVDA')?.value).toBeCloseTo(-5.7, 1);
     expect(items.find(i => i.label === 'GOOG')?.value).toBeCloseTo(0.5, 1);
   });
+
+  it('keeps items sharing a label apart across updates', async () => {
+    const render = async (holdings: { ticker: string; value: number }[]): Promise<void> => {
+      card.hass = mockHass([mockEntity('sensor.portfolio', String(holdings.length), { holdings })]);
+      await card.updateComplete;
+    };
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entity: 'sensor.portfolio',
+      data_attribute: 'holdings',
+      label: { param: 'ticker' },
+      value: { param: 'value' },
+    });
+
+    await render([
+      { ticker: 'AAPL', value: 10 },
+      { ticker: 'AAPL', value: 20 },
+      { ticker: 'MSFT', value: 5 },
+    ]);
+    const tiles = card.shadowRoot?.querySelectorAll('.treemap-item') ?? [];
+    const valueOf = (tile: Element | undefined): number =>
+      Number.parseFloat(tile?.querySelector('.treemap-value')?.textContent ?? '');
+    const first = [...tiles].find(tile => valueOf(tile) === 10);
+    const second = [...tiles].find(tile => valueOf(tile) === 20);
+    expect(getRenderedItems(card).map(i => i.value)).toEqual([20, 10, 5]);
+
+    // The first AAPL grows past the second: each tile follows its own item
+    await render([
+      { ticker: 'AAPL', value: 30 },
+      { ticker: 'AAPL', value: 25 },
+      { ticker: 'MSFT', value: 5 },
+    ]);
+    expect(getRenderedItems(card).map(i => i.value)).toEqual([30, 25, 5]);
+    expect(valueOf(first)).toBe(30);
+    expect(valueOf(second)).toBe(25);
+  });
 });
@@ -0,0 +1,117 @@
+/**
+ * Integration tests for layout algorithms and stable layout mode
+ */
+
+import { describe, expect, it, beforeEach } from 'vitest';
+import { createCard, mockEntity, mockHass, getRenderedItems, type RenderedItem } from './helpers';
+import type { TreemapCard } from '../src/treemap-card';
+import type { TreemapCardConfig } from '../src';
+
+function readingOrder(items: RenderedItem[]): string[] {
+  return [...items]
+    .sort((a, b) => (Math.abs(a.y - b.y) > 0.01 ? a.y - b.y : a.x - b.x))
+    .map(item => item.label);
+}
+
+describe('Layout algorithms', () => {
+  let card: TreemapCard;
+
+  beforeEach(() => {
+    card = createCard();
+  });
+
+  it.each(['strip', 'slice_dice', 'pivot'] as const)(
+    'renders every tile with %s',
+    async algorithm => {
+      card.setConfig({
+        type: 'custom:treemap-card',
+        entities: ['sensor.*'],
+        layout: { algorithm },
+      });
+      card.hass = mockHass([
+        mockEntity('sensor.a', '50'),
+        mockEntity('sensor.b', '30'),
+        mockEntity('sensor.c', '20'),
+        mockEntity('sensor.d', '10'),
+      ]);
+      await card.updateComplete;
+
+      const items = getRenderedItems(card);
+      expect(items.map(item => item.label).sort()).toEqual(['a', 'b', 'c', 'd']);
+      for (const item of items) {
+        expect(item.width).toBeGreaterThan(0);
+        expect(item.height).toBeGreaterThan(0);
+      }
+    }
+  );
+
+  it('keeps alphabetical reading order with strip layout', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['sensor.*'],
+      sort_by: 'entity_id',
+      layout: { algorithm: 'strip' },
+    });
+    card.hass = mockHass([
+      mockEntity('sensor.c', '10'),
+      mockEntity('sensor.a', '40'),
+      mockEntity('sensor.d', '30'),
+      mockEntity('sensor.b', '20'),
+    ]);
+    await card.updateComplete;
+
+    expect(readingOrder(getRenderedItems(card))).toEqual(['a', 'b', 'c', 'd']);
+  });
+});
+
+describe('Stable layout', () => {
+  let card: TreemapCard;
+
+  const config: TreemapCardConfig = {
+    type: 'custom:treemap-card',
+    entities: ['sensor.*'],
+    size: { min: 0 },
+    layout: { stable: true, max_aspect_ratio: 10 },
+  };
+
+  beforeEach(() => {
+    card = createCard();
+  });
+
+  it('keeps tiles in place when values change', async () => {
+    card.setConfig(config);
+    card.hass = mockHass([
+      mockEntity('sensor.a', '50'),
+      mockEntity('sensor.b', '30'),
+      mockEntity('sensor.c', '20'),
+      mockEntity('sensor.d', '10'),
+    ]);
+    await card.updateComplete;
+    const before = readingOrder(getRenderedItems(card));
+
+    card.hass = mockHass([
+      mockEntity('sensor.a', '10'),
+      mockEntity('sensor.b', '30'),
+      mockEntity('sensor.c', '20'),
+      mockEntity('sensor.d', '50'),
+    ]);
+    await card.updateComplete;
+
+    expect(readingOrder(getRenderedItems(card))).toEqual(before);
+  });
+
+  it('re-lays out when tiles are added', async () => {
+    card.setConfig(config);
+    card.hass = mockHass([mockEntity('sensor.a', '50'), mockEntity('sensor.b', '30')]);
+    await card.updateComplete;
+
+    card.hass = mockHass([
+      mockEntity('sensor.a', '50'),
+      mockEntity('sensor.b', '30'),
+      mockEntity('sensor.c', '20'),
+    ]);
+    await card.updateComplete;
+
+    expect(getRenderedItems(card)).toHaveLength(3);
+  });
+});
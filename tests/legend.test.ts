@@ -0,0 +1,205 @@
+/**
+ * Integration tests for the color legend (legend block)
+ */
+
+import { describe, expect, it, beforeEach } from 'vitest';
+import { createCard, mockEntity, mockHass } from './helpers';
+import type { TreemapCard } from '../src/treemap-card';
+import type { TreemapCardConfig } from '../src';
+
+function getLegend(card: TreemapCard): HTMLElement | null | undefined {
+  return card.shadowRoot?.querySelector<HTMLElement>('.treemap-legend');
+}
+
+function getTicks(card: TreemapCard): string[] {
+  const ticks = card.shadowRoot?.querySelectorAll('.treemap-legend-tick') ?? [];
+  return [...ticks].map(tick => tick.textContent.trim());
+}
+
+function getSwatches(card: TreemapCard): string[] {
+  const names = card.shadowRoot?.querySelectorAll('.treemap-legend-name') ?? [];
+  return [...names].map(name => name.textContent.trim());
+}
+
+describe('Legend', () => {
+  let card: TreemapCard;
+
+  const config: TreemapCardConfig = {
+    type: 'custom:treemap-card',
+    entities: ['sensor.*'],
+    legend: {},
+  };
+
+  beforeEach(() => {
+    card = createCard();
+  });
+
+  it('is not rendered without a legend block', async () => {
+    card.setConfig({ type: 'custom:treemap-card', entities: ['sensor.*'] });
+    card.hass = mockHass([mockEntity('sensor.a', '10')]);
+    await card.updateComplete;
+
+    expect(getLegend(card)).toBeNull();
+  });
+
+  it('is hidden with show: false', async () => {
+    card.setConfig({ ...config, legend: { show: false } });
+    card.hass = mockHass([mockEntity('sensor.a', '10')]);
+    await card.updateComplete;
+
+    expect(getLegend(card)).toBeNull();
+  });
+
+  it('renders a gradient bar with formatted ticks below the treemap', async () => {
+    card.setConfig({ ...config, legend: { ticks: 3 } });
+    card.hass = mockHass([
+      mockEntity('sensor.a', '10', { unit_of_measurement: 'W' }),
+      mockEntity('sensor.b', '30', { unit_of_measurement: 'W' }),
+    ]);
+    await card.updateComplete;
+
+    const bar = card.shadowRoot?.querySelector<HTMLElement>('.treemap-legend-bar');
+    expect(bar?.getAttribute('style')).toContain('linear-gradient(to right');
+    expect(getTicks(card)).toEqual(['10.0 W', '20.0 W', '30.0 W']);
+
+    const body = card.shadowRoot?.querySelector('.treemap-body');
+    expect(body?.classList.contains('bottom')).toBe(true);
+    expect(body?.lastElementChild?.classList.contains('treemap-legend')).toBe(true);
+  });
+
+  it('uses the value prefix and suffix for ticks', async () => {
+    card.setConfig({ ...config, legend: { ticks: 2 }, value: { prefix: '$', suffix: 'k' } });
+    card.hass = mockHass([mockEntity('sensor.a', '1'), mockEntity('sensor.b', '5')]);
+    await card.updateComplete;
+
+    expect(getTicks(card)).toEqual(['$1.0k', '$5.0k']);
+  });
+
+  it('leaves out the unit when tiles have different units', async () => {
+    card.setConfig({ ...config, legend: { ticks: 2 } });
+    card.hass = mockHass([
+      mockEntity('sensor.a', '10', { unit_of_measurement: 'W' }),
+      mockEntity('sensor.b', '30', { unit_of_measurement: '°C' }),
+    ]);
+    await card.updateComplete;
+
+    expect(getTicks(card)).toEqual(['10.0', '30.0']);
+  });
+
+  it('places the legend before the treemap at the top', async () => {
+    card.setConfig({ ...config, legend: { position: 'top' } });
+    card.hass = mockHass([mockEntity('sensor.a', '10'), mockEntity('sensor.b', '30')]);
+    await card.updateComplete;
+
+    const body = card.shadowRoot?.querySelector('.treemap-body');
+    expect(body?.firstElementChild?.classList.contains('treemap-legend')).toBe(true);
+    expect(getLegend(card)?.classList.contains('top')).toBe(true);
+  });
+
+  it('draws a vertical bar at the side', async () => {
+    card.setConfig({ ...config, legend: { position: 'right', ticks: 2 } });
+    card.hass = mockHass([mockEntity('sensor.a', '10'), mockEntity('sensor.b', '30')]);
+    await card.updateComplete;
+
+    const bar = card.shadowRoot?.querySelector<HTMLElement>('.treemap-legend-bar');
+    expect(bar?.getAttribute('style')).toContain('linear-gradient(to top');
+    const tick = card.shadowRoot?.querySelector<HTMLElement>('.treemap-legend-tick');
+    expect(tick?.getAttribute('style')).toContain('bottom: 0%');
+  });
+
+  it('shows the color stops of bands mode as ticks', async () => {
+    card.setConfig({
+      ...config,
+      color: {
+        mode: 'bands',
+        stops: [
+          { value: 0, color: '#00ff00' },
+          { value: 20, color: '#ff0000' },
+        ],
+      },
+    });
+    card.hass = mockHass([mockEntity('sensor.a', '10'), mockEntity('sensor.b', '30')]);
+    await card.updateComplete;
+
+    expect(getTicks(card)).toEqual(['0.0 C', '20.0 C', '30.0 C']);
+  });
+
+  it('shows swatches for categories in categorical mode', async () => {
+    card.setConfig({
+      ...config,
+      color: {
+        mode: 'categorical',
+        attribute: 'device_class',
+        map: { power: '#ff0000', temperature: '#0000ff' },
+      },
+    });
+    card.hass = mockHass([
+      mockEntity('sensor.fridge', '120', { device_class: 'power' }),
+      mockEntity('sensor.oven', '900', { device_class: 'power' }),
+      mockEntity('sensor.kitchen', '21', { device_class: 'temperature' }),
+    ]);
+    await card.updateComplete;
+
+    expect(getSwatches(card).sort()).toEqual(['power', 'temperature']);
+    expect(card.shadowRoot?.querySelector('.treemap-legend-bar')).toBeNull();
+    const colors = card.shadowRoot?.querySelectorAll<HTMLElement>('.treemap-legend-color') ?? [];
+    const backgrounds = [...colors].map(color => color.style.background);
+    expect(backgrounds).toContain('rgb(255, 0, 0)');
+  });
+
+  it('shows HVAC swatches for climate entities', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['climate.*'],
+      legend: {},
+      color: { hvac: { heating: '#ff6b35', cooling: '#4dabf7' } },
+    });
+    card.hass = mockHass([
+      mockEntity('climate.office', 'heat', {
+        current_temperature: 19,
+        temperature: 21,
+        hvac_action: 'heating',
+      }),
+    ]);
+    await card.updateComplete;
+
+    expect(getSwatches(card)).toEqual(['Heating', 'Cooling', 'Off']);
+    expect(card.shadowRoot?.querySelector('.treemap-legend-bar')).not.toBeNull();
+  });
+
+  it('translates HVAC swatches', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['climate.*'],
+      legend: {},
+      color: { hvac: { heating: '#ff6b35' } },
+    });
+    card.hass = {
+      ...mockHass([
+        mockEntity('climate.office', 'heat', { current_temperature: 19, temperature: 21 }),
+      ]),
+      language: 'de',
+    };
+    await card.updateComplete;
+
+    expect(getSwatches(card)).toEqual(['Heizen', 'Aus']);
+  });
+
+  it('colors swatch names with color.target: foreground', async () => {
+    card.setConfig({
+      ...config,
+      color: {
+        target: 'foreground',
+        mode: 'categorical',
+        attribute: 'device_class',
+        map: { power: '#ff0000' },
+      },
+    });
+    card.hass = mockHass([mockEntity('sensor.fridge', '120', { device_class: 'power' })]);
+    await card.updateComplete;
+
+    expect(getLegend(card)?.classList.contains('foreground')).toBe(true);
+    const name = card.shadowRoot?.querySelector<HTMLElement>('.treemap-legend-name');
+    expect(name?.style.color).toBe('rgb(255, 0, 0)');
+  });
+});
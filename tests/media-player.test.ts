@@ -0,0 +1,142 @@
+/**
+ * Integration tests for media player tiles (artwork, now playing, play/pause)
+ */
+
+import { describe, expect, it, beforeEach, vi, afterEach } from 'vitest';
+import {
+  createCard,
+  mockEntity,
+  mockHass,
+  getRenderedItems,
+  getTile,
+  tap,
+  pointer,
+} from './helpers';
+import type { TreemapCard } from '../src/treemap-card';
+
+function getArea(card: TreemapCard, label: string): number {
+  const item = getRenderedItems(card).find(rendered => rendered.label === label);
+  return (item?.width ?? 0) * (item?.height ?? 0);
+}
+
+const SPEAKERS = [
+  mockEntity('media_player.kitchen', 'playing', {
+    friendly_name: 'Kitchen',
+    volume_level: 0.2,
+    entity_picture: '/api/media_player_proxy/media_player.kitchen?token=abc',
+    media_title: 'Blue in Green',
+    media_artist: 'Miles Davis',
+  }),
+  mockEntity('media_player.bedroom', 'idle', { friendly_name: 'Bedroom', volume_level: 0.8 }),
+];
+
+describe('Media player tiles', () => {
+  let card: TreemapCard;
+
+  beforeEach(() => {
+    card = createCard();
+  });
+
+  afterEach(() => {
+    card.remove();
+    vi.useRealTimers();
+  });
+
+  it('shows album art with the now playing title and artist', async () => {
+    card.setConfig({ type: 'custom:treemap-card', entities: ['media_player.*'] });
+    card.hass = mockHass(SPEAKERS);
+    await card.updateComplete;
+
+    const kitchen = getTile(card, 'Kitchen');
+    expect(kitchen?.classList.contains('artwork')).toBe(true);
+    expect(kitchen?.style.backgroundImage).toContain(
+      'url("/api/media_player_proxy/media_player.kitchen?token=abc")'
+    );
+    expect(kitchen?.querySelector('.treemap-secondary')?.textContent).toBe(
+      'Blue in Green – Miles Davis'
+    );
+
+    // Text contrasts with the darkened artwork
+    const label = kitchen?.querySelector<HTMLElement>('.treemap-label');
+    expect(label?.style.color).toBe('rgba(255, 255, 255, 0.95)');
+
+    const bedroom = getTile(card, 'Bedroom');
+    expect(bedroom?.classList.contains('artwork')).toBe(false);
+    expect(bedroom?.querySelector('.treemap-secondary')).toBeNull();
+  });
+
+  it('hides the artwork with artwork.show: false', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['media_player.*'],
+      artwork: { show: false },
+    });
+    card.hass = mockHass(SPEAKERS);
+    await card.updateComplete;
+
+    const kitchen = getTile(card, 'Kitchen');
+    expect(kitchen?.classList.contains('artwork')).toBe(false);
+    expect(kitchen?.style.backgroundImage).toBe('');
+  });
+
+  it('sizes by playing state, or by volume with size.attribute: volume_level', async () => {
+    card.setConfig({ type: 'custom:treemap-card', entities: ['media_player.*'] });
+    card.hass = mockHass(SPEAKERS);
+    await card.updateComplete;
+    expect(getArea(card, 'Kitchen')).toBeGreaterThan(getArea(card, 'Bedroom'));
+
+    const byVolume = createCard();
+    byVolume.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['media_player.*'],
+      size: { attribute: 'volume_level' },
+    });
+    byVolume.hass = mockHass(SPEAKERS);
+    await byVolume.updateComplete;
+    expect(getArea(byVolume, 'Bedroom')).toBeGreaterThan(getArea(byVolume, 'Kitchen'));
+    byVolume.remove();
+  });
+
+  it('plays or pauses on tap and opens more-info on hold', async () => {
+    vi.useFakeTimers();
+    const hass = mockHass(SPEAKERS);
+    const callServiceSpy = vi.spyOn(hass, 'callService').mockResolvedValue();
+    card.setConfig({ type: 'custom:treemap-card', entities: ['media_player.kitchen'] });
+    card.hass = hass;
+    await card.updateComplete;
+
+    const moreInfoSpy = vi.fn();
+    card.addEventListener('hass-more-info', moreInfoSpy);
+    const tile = getTile(card, 'Kitchen');
+
+    tap(tile);
+    vi.advanceTimersByTime(500);
+    expect(callServiceSpy).toHaveBeenCalledWith('media_player', 'media_play_pause', {
+      entity_id: 'media_player.kitchen',
+    });
+
+    tile?.dispatchEvent(pointer('pointerdown'));
+    vi.advanceTimersByTime(600);
+    expect(moreInfoSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps a configured tap_action', async () => {
+    const hass = mockHass(SPEAKERS);
+    const callServiceSpy = vi.spyOn(hass, 'callService').mockResolvedValue();
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['media_player.kitchen'],
+      tap_action: { action: 'more-info' },
+      double_tap_action: { action: 'none' },
+    });
+    card.hass = hass;
+    await card.updateComplete;
+
+    const moreInfoSpy = vi.fn();
+    card.addEventListener('hass-more-info', moreInfoSpy);
+    tap(getTile(card, 'Kitchen'));
+
+    expect(moreInfoSpy).toHaveBeenCalledTimes(1);
+    expect(callServiceSpy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Integration tests for the "others" tile aggregating items cut off by limit
+ */
+
+import { describe, expect, it, beforeEach, vi, afterEach } from 'vitest';
+import { createCard, mockEntity, mockHass, getRenderedItems, getTile, tap } from './helpers';
+import type { TreemapCard } from '../src/treemap-card';
+import type { HomeAssistant, TreemapCardConfig } from '../src';
+
+function createHass(): HomeAssistant {
+  return mockHass([
+    mockEntity('sensor.a', '100', { unit_of_measurement: 'W' }),
+    mockEntity('sensor.b', '80', { unit_of_measurement: 'W' }),
+    mockEntity('sensor.c', '30', { unit_of_measurement: 'W' }),
+    mockEntity('sensor.d', '20', { unit_of_measurement: 'W' }),
+    mockEntity('sensor.e', '10', { unit_of_measurement: 'W' }),
+  ]);
+}
+
+describe('Others tile', () => {
+  let card: TreemapCard;
+
+  const config: TreemapCardConfig = {
+    type: 'custom:treemap-card',
+    entities: ['sensor.*'],
+    limit: 2,
+    value: { precision: 0 },
+    others: {},
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    card = createCard();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sums items beyond the limit into an "Other (N)" tile', async () => {
+    card.setConfig(config);
+    card.hass = createHass();
+    await card.updateComplete;
+
+    const items = getRenderedItems(card);
+    expect(items.map(item => item.label).sort()).toEqual(['Other (3)', 'a', 'b']);
+    expect(items.find(item => item.label === 'Other (3)')?.value).toBe(60);
+    expect(items.find(item => item.label === 'Other (3)')?.icon).toBe('mdi:dots-horizontal');
+  });
+
+  it('drops items beyond the limit without others', async () => {
+    card.setConfig({ ...config, others: undefined });
+    card.hass = createHass();
+    await card.updateComplete;
+
+    expect(getRenderedItems(card)).toHaveLength(2);
+  });
+
+  it('supports custom label, icon and color', async () => {
+    card.setConfig({
+      ...config,
+      others: { label: 'Rest', icon: 'mdi:tray', color: '#123456' },
+    });
+    card.hass = createHass();
+    await card.updateComplete;
+
+    const others = getRenderedItems(card).find(item => item.label === 'Rest (3)');
+    expect(others?.icon).toBe('mdi:tray');
+    expect(others?.backgroundColor).toBe('rgb(18, 52, 86)');
+  });
+
+  it('can be hidden with show: false', async () => {
+    card.setConfig({ ...config, others: { show: false } });
+    card.hass = createHass();
+    await card.updateComplete;
+
+    expect(getRenderedItems(card).map(item => item.label)).not.toContain('Other (3)');
+  });
+
+  it('zooms into the hidden items on tap', async () => {
+    card.setConfig(config);
+    card.hass = createHass();
+    await card.updateComplete;
+
+    const others = getTile(card, 'Other (3)');
+    expect(others).toBeDefined();
+    if (others) tap(others);
+    await card.updateComplete;
+
+    // Hidden items are shown, again limited to two tiles plus the rest
+    expect(
+      getRenderedItems(card)
+        .map(item => item.label)
+        .sort()
+    ).toEqual(['c', 'd', 'e']);
+    expect(card.shadowRoot?.querySelector('.treemap-breadcrumb')?.textContent).toContain('Other');
+  });
+
+  it('uses the configured tap action', async () => {
+    card.setConfig({
+      ...config,
+      others: { tap_action: { action: 'navigate', navigation_path: '/lovelace/power' } },
+    });
+    card.hass = createHass();
+    await card.updateComplete;
+    const pushStateSpy = vi.spyOn(window.history, 'pushState').mockImplementation(() => {});
+
+    const others = getTile(card, 'Other (3)');
+    if (others) tap(others);
+
+    expect(pushStateSpy).toHaveBeenCalledWith(null, '', '/lovelace/power');
+    pushStateSpy.mockRestore();
+  });
+
+  it('does not open more-info for the aggregate tile', async () => {
+    card.setConfig(config);
+    card.hass = createHass();
+    await card.updateComplete;
+    const moreInfoSpy = vi.fn();
+    card.addEventListener('hass-more-info', moreInfoSpy);
+
+    const others = getTile(card, 'Other (3)');
+    if (others) tap(others);
+
+    expect(moreInfoSpy).not.toHaveBeenCalled();
+  });
+  it('zooms into the hidden items, not the ungrouped group, with group_by', async () => {
+    card.setConfig({ ...config, group_by: 'area' });
+    card.hass = createHass();
+    await card.updateComplete;
+
+    // Without areas all tiles are in the ungrouped group, also shown as "Other"
+    expect(card.shadowRoot?.querySelector('.treemap-group-label')?.textContent).toBe('Other');
+    const others = getTile(card, 'Other (3)');
+    expect(others).toBeDefined();
+    if (others) tap(others);
+    await card.updateComplete;
+
+    expect(
+      getRenderedItems(card)
+        .map(item => item.label)
+        .sort()
+    ).toEqual(['c', 'd', 'e']);
+  });
+
+  it('localizes the others tile and the ungrouped group', async () => {
+    const hass = createHass();
+    hass.language = 'de';
+    card.setConfig({ ...config, group_by: 'area' });
+    card.hass = hass;
+    await card.updateComplete;
+
+    expect(card.shadowRoot?.querySelector('.treemap-group-label')?.textContent).toBe('Sonstige');
+    expect(getTile(card, 'Andere (3)')).toBeDefined();
+  });
+});
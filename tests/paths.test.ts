@@ -0,0 +1,198 @@
+/**
+ * Integration tests for nested attribute paths (data_attribute, field mappings, entity attributes)
+ */
+
+import { describe, expect, it, beforeEach } from 'vitest';
+import { createCard, mockEntity, mockHass, getRenderedItems, getTile } from './helpers';
+import type { TreemapCard } from '../src/treemap-card';
+
+function getError(card: TreemapCard): string | undefined {
+  return card.shadowRoot?.querySelector('.card-content > .error')?.textContent?.trim();
+}
+
+describe('Nested paths', () => {
+  let card: TreemapCard;
+
+  const response = {
+    data: {
+      holdings: [
+        { symbol: { ticker: 'AAPL' }, quote: { price: 180, change: -1.5 }, icon: 'mdi:apple' },
+        { symbol: { ticker: 'MSFT' }, quote: { price: 410, change: 2.5 }, icon: 'mdi:microsoft' },
+      ],
+    },
+  };
+
+  beforeEach(() => {
+    card = createCard();
+  });
+
+  it('maps JSON items through nested paths', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entity: 'sensor.portfolio',
+      data_attribute: 'data.holdings',
+      label: { attribute: 'symbol.ticker' },
+      value: { attribute: 'quote.change' },
+      size: { attribute: 'quote.price' },
+    });
+    card.hass = mockHass([mockEntity('sensor.portfolio', 'ok', response)]);
+    await card.updateComplete;
+
+    const items = getRenderedItems(card);
+    expect(items.map(item => item.label).sort()).toEqual(['AAPL', 'MSFT']);
+    expect(items.find(item => item.label === 'AAPL')?.value).toBeCloseTo(-1.5);
+    expect(items.find(item => item.label === 'MSFT')?.value).toBeCloseTo(2.5);
+    // Sized by price: MSFT is the larger tile
+    const aapl = items.find(item => item.label === 'AAPL');
+    const msft = items.find(item => item.label === 'MSFT');
+    expect((msft?.width ?? 0) * (msft?.height ?? 0)).toBeGreaterThan(
+      (aapl?.width ?? 0) * (aapl?.height ?? 0)
+    );
+  });
+
+  it('reads sparklines and array elements by path', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entity: 'sensor.forecast',
+      data_attribute: 'days',
+      label: { attribute: 'name' },
+      value: { attribute: 'temperatures[0]' },
+      sparkline: { attribute: 'history.values' },
+    });
+    card.hass = mockHass([
+      mockEntity('sensor.forecast', 'ok', {
+        days: [{ name: 'Monday', temperatures: [21, 15], history: { values: [1, 3, 2] } }],
+      }),
+    ]);
+    await card.updateComplete;
+
+    expect(getRenderedItems(card)[0]?.value).toBe(21);
+    expect(getTile(card, 'Monday')?.querySelector('.treemap-sparkline')).not.toBeNull();
+  });
+
+  it('reports a missing data_attribute', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entity: 'sensor.portfolio',
+      data_attribute: 'data.positions',
+    });
+    card.hass = mockHass([mockEntity('sensor.portfolio', 'ok', response)]);
+    await card.updateComplete;
+
+    expect(getError(card)).toBe('data_attribute "data.positions" not found on sensor.portfolio');
+  });
+
+  it('reports a data_attribute that is not a list', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entity: 'sensor.portfolio',
+      data_attribute: 'data',
+    });
+    card.hass = mockHass([mockEntity('sensor.portfolio', 'ok', response)]);
+    await card.updateComplete;
+
+    expect(getError(card)).toBe('data_attribute "data" on sensor.portfolio is not a list');
+  });
+
+  it('does not report the data_attribute of an unavailable entity', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entity: 'sensor.portfolio',
+      data_attribute: 'data.holdings',
+    });
+    card.hass = mockHass([mockEntity('sensor.portfolio', 'unavailable')]);
+    await card.updateComplete;
+
+    expect(getError(card)).toBeUndefined();
+  });
+
+  it('shows error tiles for items missing the value path', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entity: 'sensor.portfolio',
+      data_attribute: 'items',
+      value: { attribute: 'quote.price' },
+    });
+    card.hass = mockHass([
+      mockEntity('sensor.portfolio', 'ok', {
+        items: [{ label: 'AAPL', quote: { price: 180 } }, { label: 'GME' }],
+      }),
+    ]);
+    await card.updateComplete;
+
+    expect(getTile(card, 'AAPL')?.classList.contains('error')).toBe(false);
+    const tile = getTile(card, 'GME');
+    expect(tile?.classList.contains('error')).toBe(true);
+    expect(tile?.querySelector('.treemap-value')?.textContent?.trim()).toBe(
+      'value: "quote.price" not found'
+    );
+  });
+
+  it('reports missing size paths only when configured', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entity: 'sensor.portfolio',
+      value: { attribute: 'change' },
+      size: { attribute: 'market.cap' },
+    });
+    card.hass = mockHass([
+      mockEntity('sensor.portfolio', 'ok', {
+        items: [
+          { label: 'AAPL', change: 1, market: { cap: 3 } },
+          { label: 'GME', change: 2 },
+        ],
+      }),
+    ]);
+    await card.updateComplete;
+
+    expect(getTile(card, 'GME')?.title).toBe('GME: size: "market.cap" not found');
+  });
+
+  it('does not require the value path when an expression computes it', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entity: 'sensor.portfolio',
+      value: { attribute: 'price', expression: 'item.quote.price * 2' },
+    });
+    card.hass = mockHass([
+      mockEntity('sensor.portfolio', 'ok', { items: [{ label: 'AAPL', quote: { price: 5 } }] }),
+    ]);
+    await card.updateComplete;
+
+    expect(getRenderedItems(card)[0]?.value).toBe(10);
+  });
+
+  it('reads nested entity attributes', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['sensor.*'],
+      label: { attribute: 'device.name' },
+      value: { attribute: 'readings.power' },
+    });
+    card.hass = mockHass([
+      mockEntity('sensor.washer', 'on', { device: { name: 'Washer' }, readings: { power: 450 } }),
+      mockEntity('sensor.dryer', 'on', { device: { name: 'Dryer' }, readings: { power: 900 } }),
+    ]);
+    await card.updateComplete;
+
+    const items = getRenderedItems(card);
+    expect(items.find(item => item.label === 'Washer')?.value).toBe(450);
+    expect(items.find(item => item.label === 'Dryer')?.value).toBe(900);
+  });
+
+  it('shows error tiles for entities missing the value attribute', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['sensor.*'],
+      value: { attribute: 'readings.power' },
+    });
+    card.hass = mockHass([
+      mockEntity('sensor.washer', 'on', { readings: { power: 450 } }),
+      mockEntity('sensor.dryer', 'on', { readings: {} }),
+    ]);
+    await card.updateComplete;
+
+    expect(getTile(card, 'dryer')?.title).toBe('dryer: value: "readings.power" not found');
+    expect(getTile(card, 'washer')?.classList.contains('error')).toBe(false);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Integration tests for pixel layout based on the measured container size (ResizeObserver)
+ */
+
+import { describe, expect, it, beforeEach, vi, afterEach } from 'vitest';
+import { createCard, mockEntity, mockHass, getRenderedItems, getTile } from './helpers';
+import type { TreemapCard } from '../src/treemap-card';
+import type { TreemapCardConfig } from '../src';
+
+/**
+ * Minimal ResizeObserver stand-in: jsdom has no layout, so tests report sizes manually
+ */
+class FakeResizeObserver {
+  static instances: FakeResizeObserver[] = [];
+  observed: Element[] = [];
+  disconnected = false;
+
+  constructor(private readonly callback: ResizeObserverCallback) {
+    FakeResizeObserver.instances.push(this);
+  }
+
+  observe(target: Element): void {
+    this.observed.push(target);
+  }
+
+  unobserve(target: Element): void {
+    this.observed = this.observed.filter(element => element !== target);
+  }
+
+  disconnect(): void {
+    this.disconnected = true;
+    this.observed = [];
+  }
+
+  resize(width: number): void {
+    const entries = this.observed.map(target => ({
+      target,
+      contentRect: { width, height: 0 },
+    }));
+    // @ts-expect-error - partial entries are enough for the card
+    this.callback(entries, this);
+  }
+}
+
+function getObserver(): FakeResizeObserver {
+  const observer = FakeResizeObserver.instances.at(-1);
+  if (!observer) throw new Error('No ResizeObserver created');
+  return observer;
+}
+
+describe('Pixel layout', () => {
+  let card: TreemapCard;
+
+  const config: TreemapCardConfig = {
+    type: 'custom:treemap-card',
+    entities: ['sensor.*'],
+    height: 100,
+  };
+
+  beforeEach(() => {
+    FakeResizeObserver.instances = [];
+    vi.stubGlobal('ResizeObserver', FakeResizeObserver);
+    card = createCard();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    card.remove();
+  });
+
+  it('observes the treemap container', async () => {
+    card.setConfig(config);
+    card.hass = mockHass([mockEntity('sensor.a', '50')]);
+    await card.updateComplete;
+
+    const container = card.shadowRoot?.querySelector('.treemap-container');
+    expect(getObserver().observed).toEqual([container]);
+  });
+
+  it('lays out square tiles in a wide container', async () => {
+    card.setConfig(config);
+    card.hass = mockHass([mockEntity('sensor.a', '50'), mockEntity('sensor.b', '50')]);
+    await card.updateComplete;
+
+    // Percentage layout in a 100x100 square stacks two equal tiles
+    getObserver().resize(200);
+    await card.updateComplete;
+
+    // 200x100 px: two 100x100 px tiles side by side
+    const items = getRenderedItems(card);
+    expect(items).toHaveLength(2);
+    for (const item of items) {
+      expect(item.width).toBeCloseTo(50);
+      expect(item.height).toBeCloseTo(100);
+    }
+  });
+
+  it('ignores zero-width measurements', async () => {
+    card.setConfig(config);
+    card.hass = mockHass([mockEntity('sensor.a', '50'), mockEntity('sensor.b', '50')]);
+    await card.updateComplete;
+    const before = getRenderedItems(card);
+
+    getObserver().resize(0);
+    await card.updateComplete;
+
+    expect(getRenderedItems(card)).toEqual(before);
+  });
+
+  it.each([
+    [60, 'tiny'],
+    [140, 'small'],
+    [200, ''],
+  ])('marks tiles in a %ipx wide card as "%s"', async (width, sizeClass) => {
+    card.setConfig(config);
+    card.hass = mockHass([mockEntity('sensor.a', '50'), mockEntity('sensor.b', '50')]);
+    await card.updateComplete;
+
+    // Two equal tiles side by side, each half the width and 100px high
+    getObserver().resize(width);
+    await card.updateComplete;
+
+    const tile = getTile(card, 'a');
+    expect(tile?.classList.contains('tiny')).toBe(sizeClass === 'tiny');
+    expect(tile?.classList.contains('small')).toBe(sizeClass === 'small');
+  });
+
+  it('updates size classes when the container is resized', async () => {
+    card.setConfig(config);
+    card.hass = mockHass([mockEntity('sensor.a', '10'), mockEntity('sensor.b', '10')]);
+    await card.updateComplete;
+
+    // Small tiles in a narrow card, large enough in a wide one
+    getObserver().resize(60);
+    await card.updateComplete;
+    expect(getTile(card, 'a')?.classList.contains('tiny')).toBe(true);
+
+    getObserver().resize(600);
+    await card.updateComplete;
+    expect(getTile(card, 'a')?.classList.contains('tiny')).toBe(false);
+    expect(getTile(card, 'a')?.classList.contains('small')).toBe(false);
+  });
+
+  it('lays out groups in pixels', async () => {
+    card.setConfig({ ...config, height: 200, group_by: 'room' });
+    card.hass = mockHass([
+      mockEntity('sensor.a', '50', { room: 'Kitchen' }),
+      mockEntity('sensor.b', '50', { room: 'Office' }),
+    ]);
+    await card.updateComplete;
+
+    getObserver().resize(400);
+    await card.updateComplete;
+
+    // 400x200 px: the two groups sit side by side
+    const items = getRenderedItems(card);
+    expect(items).toHaveLength(2);
+    for (const item of items) {
+      expect(item.width).toBeCloseTo(50);
+    }
+  });
+
+  it('disconnects the observer when removed', async () => {
+    card.setConfig(config);
+    card.hass = mockHass([mockEntity('sensor.a', '50')]);
+    await card.updateComplete;
+
+    card.remove();
+
+    expect(getObserver().disconnected).toBe(true);
+  });
+});
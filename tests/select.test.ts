@@ -0,0 +1,225 @@
+/**
+ * Integration tests for multi-select mode (hold to select, toolbar batch actions)
+ */
+
+import { describe, expect, it, beforeEach, vi, afterEach } from 'vitest';
+import { createCard, mockEntity, mockHass, getTile, tap, pointer } from './helpers';
+import type { HomeAssistant, TreemapCardConfig } from '../src';
+import type { TreemapCard } from '../src/treemap-card';
+
+function getToolbar(card: TreemapCard): HTMLElement | null | undefined {
+  return card.shadowRoot?.querySelector<HTMLElement>('.treemap-selection');
+}
+
+function getActionButtons(card: TreemapCard): HTMLButtonElement[] {
+  return [
+    ...(card.shadowRoot?.querySelectorAll<HTMLButtonElement>('.treemap-selection-action') ?? []),
+  ];
+}
+
+const ENTITIES = [
+  mockEntity('light.kitchen', 'on', { friendly_name: 'Kitchen', brightness: 255 }),
+  mockEntity('light.hall', 'on', { friendly_name: 'Hall', brightness: 128 }),
+  mockEntity('switch.fan', 'on', { friendly_name: 'Fan' }),
+];
+
+describe('Multi-select', () => {
+  let card: TreemapCard;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    card = createCard();
+  });
+
+  afterEach(() => {
+    card.remove();
+    vi.useRealTimers();
+  });
+
+  async function setup(
+    config: Partial<TreemapCardConfig> = {}
+  ): Promise<{ hass: HomeAssistant; callService: ReturnType<typeof vi.fn> }> {
+    const hass = mockHass(ENTITIES);
+    const callService = vi.fn().mockResolvedValue(undefined);
+    hass.callService = callService;
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['light.*', 'switch.*'],
+      select: {},
+      ...config,
+    });
+    card.hass = hass;
+    await card.updateComplete;
+    return { hass, callService };
+  }
+
+  async function hold(label: string): Promise<void> {
+    const tile = getTile(card, label);
+    tile?.dispatchEvent(pointer('pointerdown'));
+    vi.advanceTimersByTime(600);
+    tile?.dispatchEvent(pointer('pointerup'));
+    await card.updateComplete;
+  }
+
+  async function tapTile(label: string): Promise<void> {
+    tap(getTile(card, label));
+    await card.updateComplete;
+  }
+
+  it('enters selection mode on hold, with a toolbar in place of the header', async () => {
+    await setup({ header: { title: 'Lights' } });
+
+    await hold('Kitchen');
+
+    expect(card.shadowRoot?.querySelector('.treemap-header')).toBeNull();
+    expect(getToolbar(card)?.querySelector('.treemap-selection-count')?.textContent?.trim()).toBe(
+      '1 selected'
+    );
+    expect(getTile(card, 'Kitchen')?.classList.contains('selected')).toBe(true);
+    expect(getTile(card, 'Hall')?.classList.contains('selected')).toBe(false);
+  });
+
+  it('selects and deselects tiles on tap, leaving selection mode when none are left', async () => {
+    const { callService } = await setup();
+    await hold('Kitchen');
+
+    await tapTile('Hall');
+    expect(getTile(card, 'Hall')?.classList.contains('selected')).toBe(true);
+    expect(getToolbar(card)?.textContent).toContain('2 selected');
+
+    await tapTile('Hall');
+    await tapTile('Kitchen');
+    expect(getToolbar(card)).toBeNull();
+    expect(callService).not.toHaveBeenCalled();
+  });
+
+  it('toggles all selected entities, per domain, and leaves selection mode', async () => {
+    const { callService } = await setup();
+    await hold('Kitchen');
+    await tapTile('Hall');
+    await tapTile('Fan');
+
+    const [toggle] = getActionButtons(card);
+    expect(toggle?.textContent?.trim()).toBe('Toggle');
+    toggle?.click();
+    await card.updateComplete;
+
+    expect(callService).toHaveBeenCalledWith('light', 'toggle', {
+      entity_id: ['light.kitchen', 'light.hall'],
+    });
+    expect(callService).toHaveBeenCalledWith('switch', 'toggle', { entity_id: ['switch.fan'] });
+    expect(getToolbar(card)).toBeNull();
+  });
+
+  it('turns off all selected entities', async () => {
+    const { callService } = await setup();
+    await hold('Kitchen');
+    await tapTile('Fan');
+
+    getActionButtons(card)[1]?.click();
+
+    expect(callService).toHaveBeenCalledWith('homeassistant', 'turn_off', {
+      entity_id: ['light.kitchen', 'switch.fan'],
+    });
+  });
+
+  it('runs configured brightness and service actions', async () => {
+    const { callService } = await setup({
+      select: {
+        actions: [
+          { action: 'brightness', brightness_pct: 30 },
+          {
+            action: 'call-service',
+            service: 'scene.apply',
+            service_data: { transition: 2 },
+            name: 'Dim',
+            icon: 'mdi:weather-night',
+          },
+        ],
+      },
+    });
+    expect(getToolbar(card)).toBeNull();
+
+    await hold('Kitchen');
+    await tapTile('Fan');
+    const buttons = getActionButtons(card);
+    expect(buttons.map(button => button.textContent?.trim())).toEqual(['Brightness 30 %', 'Dim']);
+    expect(buttons[1]?.querySelector('ha-icon')?.getAttribute('icon')).toBe('mdi:weather-night');
+
+    // Brightness only applies to the selected lights
+    buttons[0]?.click();
+    expect(callService).toHaveBeenCalledWith('light', 'turn_on', {
+      entity_id: ['light.kitchen'],
+      brightness_pct: 30,
+    });
+
+    await card.updateComplete;
+    await hold('Hall');
+    await tapTile('Fan');
+    getActionButtons(card)[1]?.click();
+    expect(callService).toHaveBeenCalledWith('scene', 'apply', {
+      transition: 2,
+      entity_id: ['light.hall', 'switch.fan'],
+    });
+  });
+
+  it('keeps hold actions of tiles that have one, which can still be selected by tap', async () => {
+    await setup({
+      entities: ['light.*', { entity: 'switch.fan', hold_action: { action: 'more-info' } }],
+    });
+    const moreInfoSpy = vi.fn();
+    card.addEventListener('hass-more-info', moreInfoSpy);
+
+    await hold('Fan');
+    expect(moreInfoSpy).toHaveBeenCalledTimes(1);
+    expect(getToolbar(card)).toBeNull();
+
+    await hold('Kitchen');
+    await tapTile('Fan');
+    expect(getTile(card, 'Fan')?.classList.contains('selected')).toBe(true);
+    expect(moreInfoSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps hold-and-drag of covers', async () => {
+    const hass = mockHass([
+      mockEntity('cover.blinds', 'open', {
+        friendly_name: 'Blinds',
+        current_position: 40,
+        supported_features: 15,
+      }),
+    ]);
+    card.setConfig({ type: 'custom:treemap-card', entities: ['cover.*'], select: {} });
+    card.hass = hass;
+    await card.updateComplete;
+
+    getTile(card, 'Blinds')?.dispatchEvent(pointer('pointerdown'));
+    vi.advanceTimersByTime(600);
+    await card.updateComplete;
+
+    expect(getTile(card, 'Blinds')?.classList.contains('adjusting')).toBe(true);
+    expect(getToolbar(card)).toBeNull();
+  });
+
+  it('leaves selection mode with the close button', async () => {
+    const { callService } = await setup();
+    await hold('Kitchen');
+
+    card.shadowRoot?.querySelector<HTMLButtonElement>('.treemap-selection-close')?.click();
+    await card.updateComplete;
+
+    expect(getToolbar(card)).toBeNull();
+    expect(getTile(card, 'Kitchen')?.classList.contains('selected')).toBe(false);
+    expect(callService).not.toHaveBeenCalled();
+  });
+
+  it('runs the hold action without the select option', async () => {
+    await setup({ select: undefined, hold_action: { action: 'more-info' } });
+    const moreInfoSpy = vi.fn();
+    card.addEventListener('hass-more-info', moreInfoSpy);
+
+    await hold('Kitchen');
+
+    expect(moreInfoSpy).toHaveBeenCalledTimes(1);
+    expect(getToolbar(card)).toBeNull();
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Integration tests for multiple JSON sources (sources)
+ */
+
+import { describe, expect, it, beforeEach } from 'vitest';
+import { createCard, mockEntity, mockHass, getRenderedItems } from './helpers';
+import type { TreemapCard } from '../src/treemap-card';
+
+function getGroupLabels(card: TreemapCard): string[] {
+  const labels = card.shadowRoot?.querySelectorAll('.treemap-group-label') ?? [];
+  return [...labels].map(label => label.textContent?.trim() ?? '');
+}
+
+describe('JSON sources', () => {
+  let card: TreemapCard;
+
+  // Two brokers with differently shaped responses
+  const brokerA = mockEntity('sensor.broker_a', 'ok', {
+    friendly_name: 'Broker A',
+    positions: [
+      { ticker: 'AAPL', value: 5000 },
+      { ticker: 'MSFT', value: 3000 },
+    ],
+  });
+  const brokerB = mockEntity('sensor.broker_b', 'ok', {
+    friendly_name: 'Broker B',
+    data: { holdings: [{ symbol: 'AAPL', market: { value: 2000 } }] },
+  });
+
+  const sources = [
+    { entity: 'sensor.broker_a', data_attribute: 'positions', label: 'ticker' },
+    {
+      entity: 'sensor.broker_b',
+      data_attribute: 'data.holdings',
+      label: 'symbol',
+      value: 'market.value',
+    },
+  ];
+
+  beforeEach(() => {
+    card = createCard();
+  });
+
+  it('merges the items of all sources', async () => {
+    card.setConfig({ type: 'custom:treemap-card', sources });
+    card.hass = mockHass([brokerA, brokerB]);
+    await card.updateComplete;
+
+    const items = getRenderedItems(card);
+    // AAPL is held at both brokers and shows up twice
+    expect(items.map(item => item.label).sort()).toEqual(['AAPL', 'AAPL', 'MSFT']);
+    expect(items.map(item => item.value).sort((a, b) => a - b)).toEqual([2000, 3000, 5000]);
+  });
+
+  it('groups tiles by source', async () => {
+    card.setConfig({ type: 'custom:treemap-card', sources, group_by: 'source' });
+    card.hass = mockHass([brokerA, brokerB]);
+    await card.updateComplete;
+
+    expect(getGroupLabels(card)).toEqual(['Broker A', 'Broker B']);
+  });
+
+  it('uses source names for grouping and colors', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      sources: sources.map((source, index) => ({ ...source, name: index === 0 ? 'A' : 'B' })),
+      color: { mode: 'categorical', attribute: 'source', map: { A: '#ff0000', B: '#0000ff' } },
+    });
+    card.hass = mockHass([brokerA, brokerB]);
+    await card.updateComplete;
+
+    const items = getRenderedItems(card);
+    const colors = items.map(item => `${item.label}:${item.backgroundColor ?? ''}`).sort();
+    expect(colors).toEqual(['AAPL:rgb(0, 0, 255)', 'AAPL:rgb(255, 0, 0)', 'MSFT:rgb(255, 0, 0)']);
+  });
+
+  it('mixes sources with regular entities', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['sensor.cash'],
+      sources: [sources[0] ?? { entity: '' }],
+    });
+    card.hass = mockHass([brokerA, mockEntity('sensor.cash', '1000')]);
+    await card.updateComplete;
+
+    expect(
+      getRenderedItems(card)
+        .map(item => item.label)
+        .sort()
+    ).toEqual(['AAPL', 'MSFT', 'cash']);
+  });
+
+  it('updates when a source entity changes', async () => {
+    card.setConfig({ type: 'custom:treemap-card', sources });
+    card.hass = mockHass([brokerA, brokerB]);
+    await card.updateComplete;
+
+    card.hass = mockHass([
+      brokerA,
+      mockEntity('sensor.broker_b', 'ok', {
+        friendly_name: 'Broker B',
+        data: { holdings: [{ symbol: 'NVDA', market: { value: 700 } }] },
+      }),
+    ]);
+    await card.updateComplete;
+
+    expect(
+      getRenderedItems(card)
+        .map(item => item.label)
+        .sort()
+    ).toEqual(['AAPL', 'MSFT', 'NVDA']);
+  });
+
+  it('reports each broken source', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      sources: [
+        { entity: 'sensor.broker_a', data_attribute: 'missing' },
+        { entity: 'sensor.broker_b', data_attribute: 'data' },
+      ],
+    });
+    card.hass = mockHass([brokerA, brokerB]);
+    await card.updateComplete;
+
+    const errors = card.shadowRoot?.querySelectorAll('.card-content > .error') ?? [];
+    expect([...errors].map(error => error.textContent)).toEqual([
+      'data_attribute "missing" not found on sensor.broker_a',
+      'data_attribute "data" on sensor.broker_b is not a list',
+    ]);
+  });
+
+  it('requires an entity for each source', () => {
+    expect(() => {
+      card.setConfig({
+        type: 'custom:treemap-card',
+        // @ts-expect-error - testing invalid config
+        sources: [{ data_attribute: 'items' }],
+      });
+    }).toThrow('Each of "sources" needs an "entity"');
+  });
+});
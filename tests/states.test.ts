@@ -0,0 +1,127 @@
+/**
+ * Integration tests for state_map (non-numeric entities like binary sensors and covers)
+ */
+
+import { describe, expect, it, beforeEach } from 'vitest';
+import { createCard, mockEntity, mockHass, getRenderedItems } from './helpers';
+import type { TreemapCard } from '../src/treemap-card';
+
+function getValueText(card: TreemapCard, label: string): string | undefined {
+  const tiles = card.shadowRoot?.querySelectorAll('.treemap-item') ?? [];
+  const tile = [...tiles].find(
+    element => element.querySelector('.treemap-label')?.textContent === label
+  );
+  return tile?.querySelector('.treemap-value')?.textContent ?? undefined;
+}
+
+describe('State map', () => {
+  let card: TreemapCard;
+
+  beforeEach(() => {
+    card = createCard();
+  });
+
+  it('shows binary sensors using the built-in defaults', async () => {
+    card.setConfig({ type: 'custom:treemap-card', entities: ['binary_sensor.*'] });
+    card.hass = mockHass([
+      mockEntity('binary_sensor.front_door', 'on', { friendly_name: 'Front Door' }),
+      mockEntity('binary_sensor.back_door', 'off', { friendly_name: 'Back Door' }),
+    ]);
+    await card.updateComplete;
+
+    const items = getRenderedItems(card);
+    expect(items.map(item => item.label)).toEqual(['Front Door', 'Back Door']);
+    expect(getValueText(card, 'Front Door')).toBe('On');
+    expect(getValueText(card, 'Back Door')).toBe('Off');
+
+    // Open door is larger than the closed one
+    const [front, back] = items;
+    expect((front?.width ?? 0) * (front?.height ?? 0)).toBeGreaterThan(
+      (back?.width ?? 0) * (back?.height ?? 0)
+    );
+  });
+
+  it('still skips unmapped non-numeric states', async () => {
+    card.setConfig({ type: 'custom:treemap-card', entities: ['sensor.*'] });
+    card.hass = mockHass([
+      mockEntity('sensor.power', '100'),
+      mockEntity('sensor.status', 'running'),
+    ]);
+    await card.updateComplete;
+
+    expect(getRenderedItems(card).map(item => item.label)).toEqual(['power']);
+  });
+
+  it('maps states to numbers and colors from the card config', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['sensor.*'],
+      state_map: { running: 10, stopped: { value: 2, color: '#123456', label: 'Idle' } },
+    });
+    card.hass = mockHass([
+      mockEntity('sensor.washer', 'running'),
+      mockEntity('sensor.dryer', 'stopped'),
+    ]);
+    await card.updateComplete;
+
+    expect(getValueText(card, 'washer')).toBe('Running');
+    expect(getValueText(card, 'dryer')).toBe('Idle');
+    const dryer = getRenderedItems(card).find(item => item.label === 'dryer');
+    expect(dryer?.backgroundColor).toBe('rgb(18, 52, 86)');
+  });
+
+  it('applies color-only mappings over the domain defaults', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['cover.*'],
+      state_map: { open: 'red' },
+    });
+    card.hass = mockHass([
+      mockEntity('cover.garage', 'open'),
+      mockEntity('cover.blinds', 'closed'),
+    ]);
+    await card.updateComplete;
+
+    const items = getRenderedItems(card);
+    expect(items.find(item => item.label === 'garage')?.backgroundColor).toBe('red');
+    expect(items.find(item => item.label === 'blinds')?.backgroundColor).not.toBe('red');
+  });
+
+  it('lets per-entity maps override the card map', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: [
+        'lock.front',
+        { entity: 'lock.shed', state_map: { unlocked: { color: 'orange', label: 'Open' } } },
+      ],
+      state_map: { unlocked: 'red' },
+    });
+    card.hass = mockHass([
+      mockEntity('lock.front', 'unlocked'),
+      mockEntity('lock.shed', 'unlocked'),
+    ]);
+    await card.updateComplete;
+
+    const items = getRenderedItems(card);
+    expect(items.find(item => item.label === 'front')?.backgroundColor).toBe('red');
+    expect(items.find(item => item.label === 'shed')?.backgroundColor).toBe('orange');
+    expect(getValueText(card, 'shed')).toBe('Open');
+  });
+
+  it('maps attribute values when value.attribute is set', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['sensor.*'],
+      value: { attribute: 'mode' },
+      state_map: { eco: 1, boost: 3 },
+    });
+    card.hass = mockHass([
+      mockEntity('sensor.boiler', '55', { mode: 'boost' }),
+      mockEntity('sensor.heater', '40', { mode: 'eco' }),
+    ]);
+    await card.updateComplete;
+
+    expect(getValueText(card, 'boiler')).toBe('Boost');
+    expect(getRenderedItems(card)[0]?.label).toBe('boiler');
+  });
+});
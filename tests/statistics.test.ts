@@ -0,0 +1,132 @@
+/**
+ * Integration tests for recorder statistics as tile values (value.source: statistics)
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from 'vitest';
+import { createCard, mockEntity, mockHass, getRenderedItems } from './helpers';
+import type { TreemapCard } from '../src/treemap-card';
+import type { HomeAssistant, TreemapCardConfig } from '../src';
+import { clearStatisticsCache } from '../src/utils/statistics';
+
+/**
+ * Hass answering statistics requests of the card (sparkline requests get no data)
+ */
+function mockStatisticsHass(
+  entities: ReturnType<typeof mockEntity>[],
+  rows: Record<string, object[]>
+): { hass: HomeAssistant; requests: Record<string, unknown>[] } {
+  const requests: Record<string, unknown>[] = [];
+  const hass = {
+    ...mockHass(entities),
+    callWS: async <T>(message: Record<string, unknown>) => {
+      requests.push(message);
+      return (message['types'] ? rows : {}) as T;
+    },
+  };
+  return { hass, requests };
+}
+
+// Wait for the debounced statistics fetch and the re-render
+async function flush(card: TreemapCard): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, 150));
+  await card.updateComplete;
+}
+
+describe('Statistics values', () => {
+  let card: TreemapCard;
+
+  const config: TreemapCardConfig = {
+    type: 'custom:treemap-card',
+    entities: ['sensor.*_energy'],
+    value: { source: 'statistics' },
+  };
+
+  const entities = [
+    mockEntity('sensor.oven_energy', '1520.4', { unit_of_measurement: 'kWh' }),
+    mockEntity('sensor.dryer_energy', '880.1', { unit_of_measurement: 'kWh' }),
+  ];
+
+  beforeEach(() => {
+    card = createCard();
+  });
+
+  afterEach(async () => {
+    card.remove();
+    // Let debounced fetches of the removed card finish before clearing the caches
+    await new Promise(resolve => setTimeout(resolve, 150));
+    clearStatisticsCache();
+  });
+
+  it("shows today's change instead of the meter reading", async () => {
+    card.setConfig(config);
+    card.hass = mockStatisticsHass(entities, {
+      'sensor.oven_energy': [{ change: 1.5 }, { change: 2.5 }],
+      'sensor.dryer_energy': [{ change: 1 }],
+    }).hass;
+    await flush(card);
+
+    const items = getRenderedItems(card);
+    expect(items.find(item => item.label === 'oven energy')?.value).toBe(4);
+    expect(items.find(item => item.label === 'dryer energy')?.value).toBe(1);
+
+    // Sized by the aggregate: the oven gets the larger tile
+    const oven = items.find(item => item.label === 'oven energy');
+    const dryer = items.find(item => item.label === 'dryer energy');
+    expect((oven?.width ?? 0) * (oven?.height ?? 0)).toBeGreaterThan(
+      (dryer?.width ?? 0) * (dryer?.height ?? 0)
+    );
+  });
+
+  it('requests the configured stat type and period', async () => {
+    card.setConfig({
+      ...config,
+      value: { source: 'statistics', stat_type: 'max', period: 'this_month' },
+    });
+    const { hass, requests } = mockStatisticsHass(entities, {});
+    card.hass = hass;
+    await flush(card);
+
+    expect(requests).toContainEqual(
+      expect.objectContaining({
+        type: 'recorder/statistics_during_period',
+        statistic_ids: ['sensor.oven_energy', 'sensor.dryer_energy'],
+        period: 'day',
+        types: ['max'],
+      })
+    );
+  });
+
+  it('waits for statistics before showing tiles', async () => {
+    card.setConfig(config);
+    card.hass = mockStatisticsHass(entities, { 'sensor.oven_energy': [{ change: 2 }] }).hass;
+    await card.updateComplete;
+
+    expect(getRenderedItems(card)).toHaveLength(0);
+  });
+
+  it('shows error tiles for entities without statistics', async () => {
+    card.setConfig(config);
+    card.hass = mockStatisticsHass(entities, { 'sensor.oven_energy': [{ change: 2 }] }).hass;
+    await flush(card);
+
+    const tile = [...(card.shadowRoot?.querySelectorAll<HTMLElement>('.treemap-item') ?? [])].find(
+      item => item.classList.contains('error')
+    );
+    expect(tile?.title).toBe('dryer energy: value: no statistics for sensor.dryer_energy');
+  });
+
+  it('refetches when the stat type changes', async () => {
+    card.setConfig(config);
+    card.hass = mockStatisticsHass(entities, {
+      'sensor.oven_energy': [{ change: 2, mean: 300 }],
+      'sensor.dryer_energy': [{ change: 1, mean: 100 }],
+    }).hass;
+    await flush(card);
+
+    card.setConfig({ ...config, value: { source: 'statistics', stat_type: 'mean' } });
+    await flush(card);
+
+    const items = getRenderedItems(card);
+    expect(items.find(item => item.label === 'oven energy')?.value).toBe(300);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Integration tests for theme-aware colors (CSS variables and named Home Assistant colors)
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from 'vitest';
+import { createCard, mockEntity, mockHass, getRenderedItems } from './helpers';
+import type { TreemapCard } from '../src/treemap-card';
+
+function getColor(card: TreemapCard, label: string): string | undefined {
+  return getRenderedItems(card).find(item => item.label === label)?.backgroundColor;
+}
+
+describe('Theme colors', () => {
+  let card: TreemapCard;
+
+  beforeEach(() => {
+    card = createCard();
+  });
+
+  afterEach(() => {
+    card.remove();
+  });
+
+  it('keeps the built-in defaults outside a theme', async () => {
+    card.setConfig({ type: 'custom:treemap-card', entities: ['sensor.*'] });
+    card.hass = mockHass([mockEntity('sensor.low', '0'), mockEntity('sensor.high', '100')]);
+    await card.updateComplete;
+
+    expect(getColor(card, 'low')).toBe('rgb(185, 28, 28)');
+    expect(getColor(card, 'high')).toBe('rgb(22, 163, 74)');
+  });
+
+  it('takes the default gradient from the theme', async () => {
+    card.style.setProperty('--error-color', '#db4437');
+    card.style.setProperty('--success-color', '#43a047');
+    card.setConfig({ type: 'custom:treemap-card', entities: ['sensor.*'] });
+    card.hass = mockHass([mockEntity('sensor.low', '0'), mockEntity('sensor.high', '100')]);
+    await card.updateComplete;
+
+    expect(getColor(card, 'low')).toBe('rgb(219, 68, 55)');
+    expect(getColor(card, 'high')).toBe('rgb(67, 160, 71)');
+  });
+
+  it('resolves CSS variables in color options', async () => {
+    card.style.setProperty('--my-low', '#000000');
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['sensor.*'],
+      color: { low: 'var(--my-low)', high: 'var(--my-high, #ffffff)' },
+    });
+    card.hass = mockHass([
+      mockEntity('sensor.low', '0'),
+      mockEntity('sensor.mid', '50'),
+      mockEntity('sensor.high', '100'),
+    ]);
+    await card.updateComplete;
+
+    expect(getColor(card, 'low')).toBe('rgb(0, 0, 0)');
+    // Blending still works on the resolved colors
+    expect(getColor(card, 'mid')).toBe('rgb(128, 128, 128)');
+    expect(getColor(card, 'high')).toBe('rgb(255, 255, 255)');
+  });
+
+  it('resolves named Home Assistant colors', async () => {
+    card.style.setProperty('--red-color', '#f44336');
+    card.style.setProperty('--state-active-color', '#ffc107');
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['sensor.*'],
+      color: {
+        mode: 'categorical',
+        attribute: 'device_class',
+        map: { power: 'state-active', energy: 'red' },
+      },
+    });
+    card.hass = mockHass([
+      mockEntity('sensor.a', '10', { device_class: 'power' }),
+      mockEntity('sensor.b', '10', { device_class: 'energy' }),
+    ]);
+    await card.updateComplete;
+
+    expect(getColor(card, 'a')).toBe('rgb(255, 193, 7)');
+    expect(getColor(card, 'b')).toBe('rgb(244, 67, 54)');
+  });
+
+  it('uses theme colors for unavailable entities', async () => {
+    card.style.setProperty('--state-unavailable-color', '#bdbdbd');
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['sensor.*'],
+      filter: { unavailable: true },
+    });
+    card.hass = mockHass([mockEntity('sensor.a', '10'), mockEntity('sensor.b', 'unavailable')]);
+    await card.updateComplete;
+
+    expect(getColor(card, 'b')).toBe('rgb(189, 189, 189)');
+  });
+
+  it('picks text contrast from the resolved color', async () => {
+    card.style.setProperty('--my-color', '#ffffff');
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['sensor.*'],
+      color: { low: 'var(--my-color)', high: 'var(--my-color)' },
+    });
+    card.hass = mockHass([mockEntity('sensor.a', '10')]);
+    await card.updateComplete;
+
+    const label = card.shadowRoot?.querySelector<HTMLElement>('.treemap-label');
+    expect(label?.getAttribute('style')).toContain('rgba(0, 0, 0, 0.9)');
+  });
+
+  it('re-resolves colors when the theme changes', async () => {
+    card.style.setProperty('--success-color', '#43a047');
+    card.setConfig({ type: 'custom:treemap-card', entities: ['sensor.*'] });
+    const entities = [mockEntity('sensor.low', '0'), mockEntity('sensor.high', '100')];
+    card.hass = { ...mockHass(entities), themes: { theme: 'default', darkMode: false } };
+    await card.updateComplete;
+    expect(getColor(card, 'high')).toBe('rgb(67, 160, 71)');
+
+    card.style.setProperty('--success-color', '#00ff00');
+    card.hass = { ...mockHass(entities), themes: { theme: 'default', darkMode: true } };
+    await card.updateComplete;
+
+    expect(getColor(card, 'high')).toBe('rgb(0, 255, 0)');
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Integration tests for drill-down zoom and breadcrumb navigation
+ */
+
+import { describe, expect, it, beforeEach, vi, afterEach } from 'vitest';
+import { createCard, mockEntity, mockHass, getRenderedItems, tap } from './helpers';
+import type { TreemapCard } from '../src/treemap-card';
+import type { HomeAssistant } from '../src';
+
+function withAreas(hass: HomeAssistant): HomeAssistant {
+  return {
+    ...hass,
+    entities: {
+      'sensor.fridge': { entity_id: 'sensor.fridge', area_id: 'kitchen' },
+      'sensor.oven': { entity_id: 'sensor.oven', area_id: 'kitchen' },
+      'sensor.tv': { entity_id: 'sensor.tv', area_id: 'living_room' },
+    },
+    areas: {
+      kitchen: { area_id: 'kitchen', name: 'Kitchen' },
+      living_room: { area_id: 'living_room', name: 'Living Room' },
+    },
+  };
+}
+
+function createHass(): HomeAssistant {
+  return withAreas(
+    mockHass([
+      mockEntity('sensor.fridge', '100', { friendly_name: 'Fridge' }),
+      mockEntity('sensor.oven', '900', { friendly_name: 'Oven' }),
+      mockEntity('sensor.tv', '50', { friendly_name: 'TV' }),
+    ])
+  );
+}
+
+function getHeader(card: TreemapCard, label: string): HTMLElement {
+  const headers = card.shadowRoot?.querySelectorAll<HTMLElement>('.treemap-group-header') ?? [];
+  const header = [...headers].find(
+    h => h.querySelector('.treemap-group-label')?.textContent === label
+  );
+  if (!header) throw new Error(`No group header ${label}`);
+  return header;
+}
+
+function getCrumbs(card: TreemapCard): string[] {
+  const crumbs = card.shadowRoot?.querySelectorAll('.treemap-crumb') ?? [];
+  return [...crumbs].map(crumb => crumb.textContent?.trim() ?? '');
+}
+
+describe('Drill-down zoom', () => {
+  let card: TreemapCard;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    card = createCard();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('zooms into a group when its header is tapped', async () => {
+    card.setConfig({ type: 'custom:treemap-card', entities: ['sensor.*'], group_by: 'area' });
+    card.hass = createHass();
+    await card.updateComplete;
+
+    getHeader(card, 'Kitchen').click();
+    await card.updateComplete;
+
+    const items = getRenderedItems(card);
+    expect(items.map(i => i.label).sort()).toEqual(['Fridge', 'Oven']);
+    // Zoomed group fills the container - no frames left
+    expect(card.shadowRoot?.querySelectorAll('.treemap-group')).toHaveLength(0);
+    expect(getCrumbs(card)).toEqual(['', 'Kitchen']);
+    expect(card.shadowRoot?.querySelector('.treemap-container.zoom-in')).not.toBeNull();
+  });
+
+  it('navigates back to the root from the breadcrumb', async () => {
+    card.setConfig({ type: 'custom:treemap-card', entities: ['sensor.*'], group_by: 'area' });
+    card.hass = createHass();
+    await card.updateComplete;
+
+    getHeader(card, 'Kitchen').click();
+    await card.updateComplete;
+
+    const home = card.shadowRoot?.querySelector<HTMLElement>('button.treemap-crumb');
+    home?.click();
+    await card.updateComplete;
+
+    expect(getRenderedItems(card)).toHaveLength(3);
+    expect(card.shadowRoot?.querySelector('.treemap-breadcrumb')).toBeNull();
+    expect(card.shadowRoot?.querySelector('.treemap-container.zoom-out')).not.toBeNull();
+  });
+
+  it('zoom action steps into the tile group, then onto the tile', async () => {
+    card.setConfig({
+      type: 'custom:treemap-card',
+      entities: ['sensor.*'],
+      group_by: 'area',
+      tap_action: { action: 'zoom' },
+    });
+    card.hass = createHass();
+    await card.updateComplete;
+
+    const findItem = (label: string) =>
+      [...(card.shadowRoot?.querySelectorAll('.treemap-item') ?? [])].find(
+        el => el.querySelector('.treemap-label')?.textContent === label
+      )!;
+
+    tap(findItem('Oven'));
+    await card.updateComplete;
+    expect(
+      getRenderedItems(card)
+        .map(i => i.label)
+        .sort()
+    ).toEqual(['Fridge', 'Oven']);
+
+    tap(findItem('Oven'));
+    await card.updateComplete;
+    expect(getRenderedItems(card).map(i => i.label)).toEqual(['Oven']);
+    expect(getCrumbs(card)).toEqual(['', 'Kitchen', 'Oven']);
+
+    // Already on the tile - stays put
+    tap(findItem('Oven'));
+    await card.updateComplete;
+    expect(getRenderedItems(card).map(i => i.label)).toEqual(['Oven']);
+  });
+
+  it('keeps the zoom level across hass updates', async () => {
+    card.setConfig({ type: 'custom:treemap-card', entities: ['sensor.*'], group_by: 'area' });
+    card.hass = createHass();
+    await card.updateComplete;
+
+    getHeader(card, 'Kitchen').click();
+    await card.updateComplete;
+
+    card.hass = withAreas(
+      mockHass([
+        mockEntity('sensor.fridge', '150', { friendly_name: 'Fridge' }),
+        mockEntity('sensor.oven', '800', { friendly_name: 'Oven' }),
+        mockEntity('sensor.tv', '60', { friendly_name: 'TV' }),
+      ])
+    );
+    await card.updateComplete;
+
+    expect(
+      getRenderedItems(card)
+        .map(i => i.label)
+        .sort()
+    ).toEqual(['Fridge', 'Oven']);
+  });
+
+  it('falls back to the root when the zoomed group disappears', async () => {
+    card.setConfig({ type: 'custom:treemap-card', entities: ['sensor.*'], group_by: 'area' });
+    card.hass = createHass();
+    await card.updateComplete;
+
+    getHeader(card, 'Living Room').click();
+    await card.updateComplete;
+
+    card.hass = withAreas(
+      mockHass([
+        mockEntity('sensor.fridge', '100', { friendly_name: 'Fridge' }),
+        mockEntity('sensor.oven', '900', { friendly_name: 'Oven' }),
+      ])
+    );
+    await card.updateComplete;
+
+    expect(getRenderedItems(card)).toHaveLength(2);
+    expect(card.shadowRoot?.querySelector('.treemap-breadcrumb')).toBeNull();
+  });
+
+  it('resets zoom when config changes', async () => {
+    card.setConfig({ type: 'custom:treemap-card', entities: ['sensor.*'], group_by: 'area' });
+    card.hass = createHass();
+    await card.updateComplete;
+
+    getHeader(card, 'Kitchen').click();
+    await card.updateComplete;
+
+    card.setConfig({ type: 'custom:treemap-card', entities: ['sensor.*'], group_by: 'area' });
+    await card.updateComplete;
+
+    expect(getRenderedItems(card)).toHaveLength(3);
+  });
+});